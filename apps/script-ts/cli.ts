@@ -0,0 +1,960 @@
+#!/usr/bin/env node
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { SEARCH_ROLES, SearchRole, parseTime } from '@oc-hist/shared';
+
+import {
+  agent_sessions,
+  agent_projects,
+  agent_session_changes,
+  agent_session_diff,
+  agent_task_diff,
+  agent_diff,
+  agent_message_diff,
+  agent_diff_latest,
+  agent_file_history,
+  agent_revert_file,
+  agent_export,
+  agent_search,
+  agent_message_tools,
+  agent_revert,
+  agent_reverts,
+  agent_undo_revert,
+  agent_restore_file,
+  agent_blame,
+  agent_stats,
+  agent_doctor,
+  agent_gc,
+  configureHistoryStore,
+  configureOutputFormat,
+  ListFilterOptions,
+} from './index';
+import { CommandError, UsageError } from './errors';
+import { EXPORT_FORMATS, ExportFormat } from './export';
+import {
+  OUTPUT_SCHEMA_VERSION,
+  OutputFormat,
+  writeErrorRecord,
+} from './output';
+
+interface OptionSpec {
+  type: 'string' | 'boolean';
+  short?: string;
+  /** Placeholder shown in help for string options. */
+  valueName?: string;
+  description: string;
+}
+
+type OptionSpecs = Record<string, OptionSpec>;
+
+type OptionValue<T extends OptionSpec['type']> = T extends 'boolean'
+  ? boolean
+  : string;
+
+type OptionValues<O extends OptionSpecs> = {
+  [K in keyof O]?: OptionValue<O[K]['type']>;
+};
+
+interface Command<O extends OptionSpecs = OptionSpecs> {
+  summary: string;
+  usage: string;
+  description?: string;
+  /** Positional argument names; a trailing `?` marks them optional. */
+  args: string[];
+  options: O;
+  run(args: string[], values: OptionValues<O>): Promise<void>;
+}
+
+function defineCommand<O extends OptionSpecs>(command: Command<O>): Command<O> {
+  return command;
+}
+
+const globalOptions = {
+  'data-dir': {
+    type: 'string',
+    valueName: 'dir',
+    description: 'OpenCode data directory (contains storage/ and snapshot/)',
+  },
+  'storage-dir': {
+    type: 'string',
+    valueName: 'dir',
+    description: 'OpenCode storage directory',
+  },
+  'snapshot-dir': {
+    type: 'string',
+    valueName: 'dir',
+    description: 'OpenCode snapshot directory',
+  },
+  json: {
+    type: 'boolean',
+    description: `Print versioned JSON (schema v${OUTPUT_SCHEMA_VERSION})`,
+  },
+  ndjson: {
+    type: 'boolean',
+    description: 'Print one JSON record per line',
+  },
+  help: {
+    type: 'boolean',
+    short: 'h',
+    description: 'Show help',
+  },
+} satisfies OptionSpecs;
+
+let outputFormat: OutputFormat = 'text';
+
+const worktreeOption = {
+  worktree: {
+    type: 'boolean',
+    short: 'w',
+    description:
+      "Compare against the working tree instead of showing only the message's own change",
+  },
+} satisfies OptionSpecs;
+
+function parseCount(
+  value: string | undefined,
+  name: string,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  return count;
+}
+
+/**
+ * Parse a date or date-time. A bare `YYYY-MM-DD` is a local calendar day: its
+ * start, or its last millisecond when `endOfDay` is set.
+ */
+function parseDate(
+  value: string | undefined,
+  name: string,
+  endOfDay = false,
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = parseTime(value, endOfDay);
+  if (time === null) {
+    throw new UsageError(
+      `--${name} must be a date (YYYY-MM-DD), an ISO time or a relative time (30m, 12h, 3d, 2w)`,
+    );
+  }
+  return time;
+}
+
+/** Filter options shared by the commands that list sessions or changes. */
+const LIST_FILTER_OPTIONS = {
+  project: {
+    type: 'string',
+    short: 'p',
+    valueName: 'id|dir',
+    description: 'Only sessions of this project ID or project directory',
+  },
+  since: {
+    type: 'string',
+    valueName: 'time',
+    description: 'Only activity on or after this date or relative time (3d)',
+  },
+  until: {
+    type: 'string',
+    valueName: 'time',
+    description: 'Only activity on or before this date or relative time',
+  },
+  title: {
+    type: 'string',
+    short: 't',
+    valueName: 'text',
+    description: 'Only sessions whose title contains this text',
+  },
+} satisfies OptionSpecs;
+
+function parseListFilter(values: {
+  project?: string;
+  since?: string;
+  until?: string;
+  title?: string;
+}): ListFilterOptions {
+  return {
+    project: values.project,
+    since: parseDate(values.since, 'since'),
+    until: parseDate(values.until, 'until', true),
+    title: values.title,
+  };
+}
+
+function parseRoles(value: string | undefined): SearchRole[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const roles = value.split(',').map((role) => role.trim());
+  for (const role of roles) {
+    if (!SEARCH_ROLES.includes(role as SearchRole)) {
+      throw new UsageError(
+        `--role must be a comma-separated list of: ${SEARCH_ROLES.join(', ')}`,
+      );
+    }
+  }
+  return roles as SearchRole[];
+}
+
+function parseExportFormat(value: string | undefined): ExportFormat {
+  if (value === undefined) {
+    return 'md';
+  }
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new UsageError(
+      `--format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+    );
+  }
+  return value as ExportFormat;
+}
+
+const commands: Record<string, Command> = {
+  sessions: defineCommand({
+    summary: 'List recent sessions',
+    usage:
+      'oc-hist sessions [--limit <n>] [--project <id|dir>] [--since <time>] [--until <time>] [--title <text>] [--flat]',
+    description:
+      'Sessions are ordered and filtered by when their messages were created. Sessions spawned by a task or subagent are nested under the session that started them; --limit counts top-level sessions.',
+    args: [],
+    options: {
+      limit: {
+        type: 'string',
+        short: 'n',
+        valueName: 'n',
+        description: 'Number of sessions to show (default: 5)',
+      },
+      ...LIST_FILTER_OPTIONS,
+      flat: {
+        type: 'boolean',
+        description: 'List spawned sessions on their own instead of nesting',
+      },
+    },
+    run: (_args, values) =>
+      agent_sessions(
+        parseCount(values.limit, 'limit'),
+        parseListFilter(values),
+        values.flat ?? false,
+      ),
+  }),
+
+  projects: defineCommand({
+    summary: 'List projects with session counts and snapshot sizes',
+    usage: 'oc-hist projects',
+    description:
+      'Most recently active first. Pass a project ID or directory to `sessions --project` to list its sessions.',
+    args: [],
+    options: {},
+    run: () => agent_projects(),
+  }),
+
+  'session-changes': defineCommand({
+    summary: 'List messages with file changes in a session',
+    usage: 'oc-hist session-changes <session_id> [--page-size <n>]',
+    args: ['session_id'],
+    options: {
+      'page-size': {
+        type: 'string',
+        valueName: 'n',
+        description: 'Messages per page before prompting (default: 10)',
+      },
+    },
+    run: ([sessionId], values) =>
+      agent_session_changes(
+        sessionId,
+        parseCount(values['page-size'], 'page-size'),
+      ),
+  }),
+
+  'session-diff': defineCommand({
+    summary: 'Show changes from the latest message in a session',
+    usage: 'oc-hist session-diff <session_id> [file_path] [--worktree]',
+    args: ['session_id', 'file_path?'],
+    options: worktreeOption,
+    run: ([sessionId, filePath], values) =>
+      agent_session_diff(
+        sessionId,
+        filePath,
+        values.worktree ? 'worktree' : 'message',
+      ),
+  }),
+
+  diff: defineCommand({
+    summary: 'Show what changed between two messages',
+    usage: 'oc-hist diff <from> <to> [file_path]',
+    description:
+      "Diffs from the snapshot before <from>'s change to the snapshot after <to>'s. Either may be a message ID or a session ID, which stands for the session's first or last message; both must be in the same project.",
+    args: ['from', 'to', 'file_path?'],
+    options: {},
+    run: ([from, to, filePath]) => agent_diff(from, to, filePath),
+  }),
+
+  'task-diff': defineCommand({
+    summary: 'Show everything a session and its spawned sessions changed',
+    usage: 'oc-hist task-diff <session_id> [file_path]',
+    description:
+      'Diffs from the snapshot before the first change of the session or any subagent session it started, to the snapshot after the last one.',
+    args: ['session_id', 'file_path?'],
+    options: {},
+    run: ([sessionId, filePath]) => agent_task_diff(sessionId, filePath),
+  }),
+
+  'message-diff': defineCommand({
+    summary: 'Show changes from a specific message',
+    usage: 'oc-hist message-diff <message_id> [file_path] [--worktree]',
+    args: ['message_id', 'file_path?'],
+    options: worktreeOption,
+    run: ([msgId, filePath], values) =>
+      agent_message_diff(
+        msgId,
+        filePath,
+        values.worktree ? 'worktree' : 'message',
+      ),
+  }),
+
+  'message-tools': defineCommand({
+    summary: 'Show the tool calls made in a message',
+    usage: 'oc-hist message-tools <message_id> [--lines <n>] [--full]',
+    description:
+      'Lists each call with its status, input arguments, output, timing and errors.',
+    args: ['message_id'],
+    options: {
+      lines: {
+        type: 'string',
+        short: 'l',
+        valueName: 'n',
+        description: 'Lines of output to show per call (default: 20)',
+      },
+      full: {
+        type: 'boolean',
+        description: 'Do not truncate output',
+      },
+    },
+    run: ([msgId], values) =>
+      agent_message_tools(
+        msgId,
+        values.full ? undefined : (parseCount(values.lines, 'lines') ?? 20),
+      ),
+  }),
+
+  'diff-latest': defineCommand({
+    summary: 'Show changes from the most recent session',
+    usage: 'oc-hist diff-latest [file_path] [--worktree]',
+    args: ['file_path?'],
+    options: worktreeOption,
+    run: ([filePath], values) =>
+      agent_diff_latest(filePath, values.worktree ? 'worktree' : 'message'),
+  }),
+
+  'file-history': defineCommand({
+    summary: 'Show all changes to a file across sessions',
+    usage:
+      'oc-hist file-history <file_path> [--limit <n>] [--project <id|dir>] [--since <time>] [--until <time>] [--title <text>]',
+    description:
+      'file_path is relative to the project root. --since and --until apply to when each change was made.',
+    args: ['file_path'],
+    options: {
+      limit: {
+        type: 'string',
+        short: 'n',
+        valueName: 'n',
+        description: 'Number of recent sessions to search (default: 10)',
+      },
+      ...LIST_FILTER_OPTIONS,
+    },
+    run: ([filePath], values) =>
+      agent_file_history(
+        filePath,
+        parseCount(values.limit, 'limit'),
+        parseListFilter(values),
+      ),
+  }),
+
+  'revert-file': defineCommand({
+    summary: "Revert a message's changes to one file",
+    usage: 'oc-hist revert-file <message_id> <file_path> [--yes]',
+    args: ['message_id', 'file_path'],
+    options: {
+      yes: {
+        type: 'boolean',
+        short: 'y',
+        description: 'Do not ask for confirmation',
+      },
+    },
+    run: ([msgId, filePath], values) =>
+      agent_revert_file(msgId, filePath, values.yes ?? false),
+  }),
+
+  'restore-file': defineCommand({
+    summary: 'Restore a file exactly as it was at a message',
+    usage:
+      'oc-hist restore-file <message_id> <file_path> [--before] [--stdout | --output <file>] [--yes]',
+    description:
+      'Reads the file from the snapshot taken after the message (or before it with --before). Writing to the work tree shows a diff preview first.',
+    args: ['message_id', 'file_path'],
+    options: {
+      before: {
+        type: 'boolean',
+        short: 'b',
+        description: 'Use the snapshot taken before the message',
+      },
+      stdout: {
+        type: 'boolean',
+        description: 'Print the file instead of writing it',
+      },
+      output: {
+        type: 'string',
+        short: 'o',
+        valueName: 'file',
+        description: 'Write to this path instead of the work tree',
+      },
+      yes: {
+        type: 'boolean',
+        short: 'y',
+        description: 'Do not ask for confirmation',
+      },
+    },
+    run: ([msgId, filePath], values) => {
+      if (values.stdout && values.output) {
+        throw new UsageError('--stdout and --output cannot be combined');
+      }
+      if (values.stdout && outputFormat !== 'text') {
+        throw new UsageError(
+          '--stdout cannot be combined with --json or --ndjson',
+        );
+      }
+      return agent_restore_file(
+        msgId,
+        filePath,
+        {
+          at: values.before ? 'before' : 'after',
+          stdout: values.stdout,
+          outputPath: values.output,
+        },
+        values.yes ?? false,
+      );
+    },
+  }),
+
+  revert: defineCommand({
+    summary: 'Revert every file changed by a message or a range of messages',
+    usage:
+      'oc-hist revert (--message <id> | --session <id> [--from <id>] [--to <id>]) [--dry-run] [--3way] [--yes]',
+    description:
+      'Shows per-file applicability before asking for confirmation. Exits 1 if any file is left unreverted or conflicted.',
+    args: [],
+    options: {
+      message: {
+        type: 'string',
+        short: 'm',
+        valueName: 'id',
+        description: "Revert this message's own changes",
+      },
+      session: {
+        type: 'string',
+        short: 's',
+        valueName: 'id',
+        description: 'Revert changes made in this session',
+      },
+      from: {
+        type: 'string',
+        valueName: 'id',
+        description: 'First message of the session range (default: first)',
+      },
+      to: {
+        type: 'string',
+        valueName: 'id',
+        description: 'Last message of the session range (default: last)',
+      },
+      'dry-run': {
+        type: 'boolean',
+        short: 'n',
+        description: 'Only report which files would revert cleanly',
+      },
+      '3way': {
+        type: 'boolean',
+        short: '3',
+        description:
+          'Fall back to a three-way merge, leaving conflict markers if needed',
+      },
+      yes: {
+        type: 'boolean',
+        short: 'y',
+        description: 'Do not ask for confirmation',
+      },
+    },
+    run: (_args, values) => {
+      if (Boolean(values.message) === Boolean(values.session)) {
+        throw new UsageError('Pass exactly one of --message or --session');
+      }
+      if (values.message && (values.from || values.to)) {
+        throw new UsageError('--from and --to require --session');
+      }
+      return agent_revert(
+        values.message
+          ? { messageId: values.message }
+          : {
+              sessionId: values.session as string,
+              fromMessageId: values.from,
+              toMessageId: values.to,
+            },
+        { dryRun: values['dry-run'], threeWay: values['3way'] },
+        values.yes ?? false,
+      );
+    },
+  }),
+
+  reverts: defineCommand({
+    summary: 'List the revert log',
+    usage: 'oc-hist reverts [--limit <n>]',
+    args: [],
+    options: {
+      limit: {
+        type: 'string',
+        short: 'n',
+        valueName: 'n',
+        description: 'Number of reverts to show (default: 10)',
+      },
+    },
+    run: (_args, values) => agent_reverts(parseCount(values.limit, 'limit')),
+  }),
+
+  'undo-revert': defineCommand({
+    summary: 'Restore the files a revert overwrote',
+    usage: 'oc-hist undo-revert [revert_id] [--force] [--dry-run]',
+    description:
+      'Undoes the latest revert still in effect unless a revert ID from `oc-hist reverts` is given.',
+    args: ['revert_id?'],
+    options: {
+      force: {
+        type: 'boolean',
+        short: 'f',
+        description: 'Overwrite files that were edited after the revert',
+      },
+      'dry-run': {
+        type: 'boolean',
+        short: 'n',
+        description: 'Only report which files would be restored',
+      },
+    },
+    run: ([revertId], values) =>
+      agent_undo_revert(revertId, {
+        force: values.force,
+        dryRun: values['dry-run'],
+      }),
+  }),
+
+  export: defineCommand({
+    summary: 'Export a session transcript as Markdown or HTML',
+    usage: 'oc-hist export <session_id> [--format md|html] [--output <file>]',
+    description:
+      'Renders prompts, assistant text, tool calls and per-message diffs in order.',
+    args: ['session_id'],
+    options: {
+      format: {
+        type: 'string',
+        short: 'f',
+        valueName: 'md|html',
+        description: 'Output format (default: md)',
+      },
+      output: {
+        type: 'string',
+        short: 'o',
+        valueName: 'file',
+        description: 'Write to a file instead of stdout',
+      },
+    },
+    run: ([sessionId], values) =>
+      agent_export(sessionId, parseExportFormat(values.format), values.output),
+  }),
+
+  blame: defineCommand({
+    summary: 'Show which agent message last changed each line of a file',
+    usage: 'oc-hist blame <file_path>',
+    description:
+      "Replays the snapshots of the file's project in order. Lines no agent message introduced are shown as human/unknown.",
+    args: ['file_path'],
+    options: {},
+    run: ([filePath]) => agent_blame(filePath),
+  }),
+
+  stats: defineCommand({
+    summary: 'Show messages, changes, tokens and cost per session',
+    usage:
+      'oc-hist stats [session_id [--task]] [--project <id|dir>] [--since <time>] [--until <time>] [--title <text>] [--rollup]',
+    description:
+      'Without a session ID, lists every session started in the date range. --rollup sums them per project and week.',
+    args: ['session_id?'],
+    options: {
+      ...LIST_FILTER_OPTIONS,
+      rollup: {
+        type: 'boolean',
+        short: 'r',
+        description: 'Sum the sessions per project and week',
+      },
+      task: {
+        type: 'boolean',
+        description:
+          'Include the sessions the given session spawned (whole task)',
+      },
+    },
+    run: ([sessionId], values) => {
+      if (
+        sessionId &&
+        (values.project ||
+          values.since ||
+          values.until ||
+          values.title ||
+          values.rollup)
+      ) {
+        throw new UsageError(
+          'A session ID cannot be combined with --project, --since, --until, --title or --rollup',
+        );
+      }
+      if (values.task && !sessionId) {
+        throw new UsageError('--task requires a session ID');
+      }
+      return agent_stats(
+        sessionId,
+        parseListFilter(values),
+        values.rollup ?? false,
+        values.task ?? false,
+      );
+    },
+  }),
+
+  doctor: defineCommand({
+    summary: 'Report storage size and health per project',
+    usage: 'oc-hist doctor',
+    description:
+      'Counts sessions, messages and parts, measures snapshot repos, and lists missing snapshots, deleted project directories and orphaned part directories.',
+    args: [],
+    options: {},
+    run: () => agent_doctor(),
+  }),
+
+  gc: defineCommand({
+    summary: 'Prune orphaned storage and repack snapshot repos',
+    usage:
+      'oc-hist gc [--prune-orphans] [--prune-sessions] [--repack] [--dry-run] [--yes]',
+    description:
+      'Repacking keeps unreachable objects: snapshot trees have no refs, so a plain `git gc` would delete them.',
+    args: [],
+    options: {
+      'prune-orphans': {
+        type: 'boolean',
+        description: 'Remove part directories whose message is gone',
+      },
+      'prune-sessions': {
+        type: 'boolean',
+        description:
+          'Remove sessions whose project directory is gone, with their messages and parts',
+      },
+      repack: {
+        type: 'boolean',
+        description: 'Repack every snapshot repo aggressively',
+      },
+      'dry-run': {
+        type: 'boolean',
+        short: 'n',
+        description: 'Only report what would be removed or repacked',
+      },
+      yes: {
+        type: 'boolean',
+        short: 'y',
+        description: 'Do not ask for confirmation',
+      },
+    },
+    run: (_args, values) =>
+      agent_gc(
+        {
+          pruneOrphans: values['prune-orphans'],
+          pruneSessions: values['prune-sessions'],
+          repackSnapshots: values.repack,
+          dryRun: values['dry-run'],
+        },
+        values.yes ?? false,
+      ),
+  }),
+
+  search: defineCommand({
+    summary: 'Search prompts, assistant text and tool output',
+    usage:
+      'oc-hist search <query> [--regex] [--case-sensitive] [--role <roles>] [--project <id|dir>] [--since <time>] [--until <time>] [--title <text>] [--limit <n>]',
+    description:
+      'Matches a case-insensitive substring unless --regex or --case-sensitive is given.',
+    args: ['query'],
+    options: {
+      regex: {
+        type: 'boolean',
+        short: 'e',
+        description: 'Treat the query as a regular expression',
+      },
+      'case-sensitive': {
+        type: 'boolean',
+        short: 'c',
+        description: 'Match case exactly',
+      },
+      role: {
+        type: 'string',
+        short: 'r',
+        valueName: 'roles',
+        description: `Only match these roles (comma-separated: ${SEARCH_ROLES.join(', ')})`,
+      },
+      ...LIST_FILTER_OPTIONS,
+      limit: {
+        type: 'string',
+        short: 'n',
+        valueName: 'n',
+        description: 'Maximum number of matches (default: 50)',
+      },
+    },
+    run: ([query], values) =>
+      agent_search(
+        query,
+        {
+          regex: values.regex,
+          caseSensitive: values['case-sensitive'],
+          roles: parseRoles(values.role),
+          limit: parseCount(values.limit, 'limit'),
+        },
+        parseListFilter(values),
+      ),
+  }),
+};
+
+function formatOptions(options: OptionSpecs): string[] {
+  const rows = Object.entries(options).map(([name, spec]) => {
+    const flag = `${spec.short ? `-${spec.short}, ` : '    '}--${name}${
+      spec.type === 'string' ? ` <${spec.valueName ?? 'value'}>` : ''
+    }`;
+    return [flag, spec.description];
+  });
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+  return rows.map(
+    ([flag, description]) => `  ${flag.padEnd(width)}  ${description}`,
+  );
+}
+
+function printMainHelp(): void {
+  const width = Math.max(...Object.keys(commands).map((name) => name.length));
+  console.log('Usage: oc-hist [global options] <command> [options]');
+  console.log('');
+  console.log('Explore OpenCode agent session history and file changes.');
+  console.log('');
+  console.log('Commands:');
+  for (const [name, command] of Object.entries(commands)) {
+    console.log(`  ${name.padEnd(width)}  ${command.summary}`);
+  }
+  console.log('');
+  console.log('Global options:');
+  const mainOptions: OptionSpecs = {
+    ...globalOptions,
+    version: { type: 'boolean', description: 'Show version' },
+  };
+  for (const line of formatOptions(mainOptions)) {
+    console.log(line);
+  }
+  console.log('');
+  console.log("Run 'oc-hist <command> --help' for command options.");
+}
+
+function printCommandHelp(command: Command): void {
+  console.log(`Usage: ${command.usage}`);
+  console.log('');
+  console.log(command.summary);
+  if (command.description) {
+    console.log(command.description);
+  }
+  if (Object.keys(command.options).length > 0) {
+    console.log('');
+    console.log('Options:');
+    for (const line of formatOptions(command.options)) {
+      console.log(line);
+    }
+  }
+  console.log('');
+  console.log('Global options:');
+  for (const line of formatOptions(globalOptions)) {
+    console.log(line);
+  }
+}
+
+function readVersion(): string {
+  // dist/cli.js when built, cli.ts when run from source
+  for (const dir of [path.join(__dirname, '..'), __dirname]) {
+    try {
+      const raw = fs.readFileSync(path.join(dir, 'package.json'), 'utf8');
+      return (JSON.parse(raw) as { version?: string }).version ?? 'unknown';
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return 'unknown';
+}
+
+async function runCommand(command: Command, argv: string[]): Promise<void> {
+  const specs: OptionSpecs = { ...globalOptions, ...command.options };
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: Object.fromEntries(
+        Object.entries(specs).map(([name, spec]) => [
+          name,
+          spec.short
+            ? { type: spec.type, short: spec.short }
+            : { type: spec.type },
+        ]),
+      ),
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const values = parsed.values as OptionValues<typeof globalOptions> &
+    Record<string, string | boolean | undefined>;
+  if (values.help) {
+    printCommandHelp(command);
+    return;
+  }
+
+  const required = command.args.filter((arg) => !arg.endsWith('?')).length;
+  if (parsed.positionals.length < required) {
+    const missing = command.args[parsed.positionals.length].replace(/\?$/, '');
+    throw new UsageError(
+      `Missing argument <${missing}>\nUsage: ${command.usage}`,
+    );
+  }
+  if (parsed.positionals.length > command.args.length) {
+    throw new UsageError(
+      `Unexpected argument '${parsed.positionals[command.args.length]}'\nUsage: ${command.usage}`,
+    );
+  }
+
+  if (values.json && values.ndjson) {
+    throw new UsageError('--json and --ndjson cannot be combined');
+  }
+  outputFormat = values.json ? 'json' : values.ndjson ? 'ndjson' : 'text';
+  configureOutputFormat(outputFormat);
+
+  configureHistoryStore({
+    dataDir: values['data-dir'],
+    storageRoot: values['storage-dir'],
+    snapshotRoot: values['snapshot-dir'],
+  });
+
+  await command.run(parsed.positionals, values);
+}
+
+/**
+ * Split the arguments into the options given before the command name, the
+ * command name, and the arguments after it, so global options work on either
+ * side of the command.
+ */
+function splitCommandLine(argv: string[]): {
+  leading: string[];
+  name: string | undefined;
+  rest: string[];
+} {
+  const leading: string[] = [];
+  let i = 0;
+  while (i < argv.length && argv[i].startsWith('-') && argv[i] !== '--') {
+    const arg = argv[i++];
+    leading.push(arg);
+    const spec: OptionSpec | undefined = (globalOptions as OptionSpecs)[
+      arg.replace(/^--/, '')
+    ];
+    if (spec?.type === 'string' && i < argv.length) {
+      leading.push(argv[i++]);
+    }
+  }
+  return { leading, name: argv[i], rest: argv.slice(i + 1) };
+}
+
+/**
+ * Run the oc-hist CLI and resolve to its exit code: 0 on success, 1 when a
+ * lookup or git operation fails, 2 for usage errors.
+ */
+export async function main(argv: string[]): Promise<number> {
+  const { leading, name, rest } = splitCommandLine(argv);
+
+  try {
+    if (!name) {
+      if (leading.includes('--version')) {
+        console.log(readVersion());
+        return 0;
+      }
+      if (
+        leading.length > 0 &&
+        !leading.includes('--help') &&
+        !leading.includes('-h')
+      ) {
+        throw new UsageError(
+          "Missing command. Run 'oc-hist --help' for a list of commands.",
+        );
+      }
+      printMainHelp();
+      return 0;
+    }
+    if (name === 'help') {
+      const command = rest[0] ? commands[rest[0]] : undefined;
+      if (rest[0] && !command) {
+        throw new UsageError(`Unknown command '${rest[0]}'`);
+      }
+      if (command) {
+        printCommandHelp(command);
+      } else {
+        printMainHelp();
+      }
+      return 0;
+    }
+
+    const command = commands[name];
+    if (!command) {
+      throw new UsageError(
+        `Unknown command '${name}'. Run 'oc-hist --help' for a list of commands.`,
+      );
+    }
+
+    await runCommand(command, [...leading, ...rest]);
+    return 0;
+  } catch (error) {
+    if (error instanceof CommandError) {
+      if (outputFormat !== 'text') {
+        writeErrorRecord(outputFormat, {
+          message: error.message,
+          exitCode: error.exitCode,
+        });
+      } else {
+        console.error(
+          error instanceof UsageError
+            ? error.message
+            : `Error: ${error.message}`,
+        );
+      }
+      return error.exitCode;
+    }
+    throw error;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error: unknown) => {
+      console.error(error);
+      process.exitCode = 1;
+    },
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * A failure that should end the command with a non-zero exit code. The CLI
+ * prints the message to stderr; library callers can catch it.
+ */
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number = 1,
+  ) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+/**
+ * Missing or malformed arguments. Exits with code 2.
+ */
+export class UsageError extends CommandError {
+  constructor(message: string) {
+    super(message, 2);
+    this.name = 'UsageError';
+  }
+}
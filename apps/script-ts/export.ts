@@ -0,0 +1,249 @@
+import {
+  MessagePart,
+  SessionTranscript,
+  ToolPart,
+  TranscriptMessage,
+} from '@oc-hist/shared';
+
+export type ExportFormat = 'md' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html'];
+
+function roleLabel(role: string | null): string {
+  if (!role) {
+    return 'Message';
+  }
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+function toolSummary(part: ToolPart): string {
+  const title = part.title ? ` — ${part.title}` : '';
+  return `Tool: ${part.tool}${title} (${part.status})`;
+}
+
+function formatToolInput(part: ToolPart): string {
+  return JSON.stringify(part.input, null, 2);
+}
+
+/** Wrap content in a code fence longer than any backtick run inside it. */
+function fence(content: string, language = ''): string {
+  const longest = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = '`'.repeat(longest + 1);
+  const body = content.endsWith('\n') ? content : `${content}\n`;
+  return `${marker}${language}\n${body}${marker}`;
+}
+
+/** Escape text placed inside an HTML element, including `<summary>`. */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function markdownDetails(summary: string, body: string[]): string[] {
+  return [
+    '<details>',
+    `<summary>${escapeHtml(summary)}</summary>`,
+    '',
+    ...body,
+    '',
+    '</details>',
+    '',
+  ];
+}
+
+function markdownPart(part: MessagePart): string[] {
+  switch (part.type) {
+    case 'text':
+      return [part.text.trim(), ''];
+    case 'reasoning':
+      return markdownDetails('Reasoning', [part.text.trim()]);
+    case 'tool': {
+      const body = ['**Input**', '', fence(formatToolInput(part), 'json')];
+      if (part.output !== null) {
+        body.push('', '**Output**', '', fence(part.output));
+      }
+      if (part.error !== null) {
+        body.push('', '**Error**', '', fence(part.error));
+      }
+      return markdownDetails(toolSummary(part), body);
+    }
+  }
+}
+
+function markdownMessage(message: TranscriptMessage): string[] {
+  const lines = [
+    `## ${roleLabel(message.role)} · ${message.timestamp}`,
+    '',
+    `<sub>\`${message.id}\`</sub>`,
+    '',
+  ];
+  for (const part of message.parts) {
+    lines.push(...markdownPart(part));
+  }
+  if (message.files.length > 0) {
+    lines.push(
+      `**Changed files:** ${message.files.map((file) => `\`${file}\``).join(', ')}`,
+      '',
+    );
+    lines.push(
+      message.diff
+        ? fence(message.diff, 'diff')
+        : '_Diff not available (snapshot missing)._',
+      '',
+    );
+  }
+  return lines;
+}
+
+export function renderMarkdown(transcript: SessionTranscript): string {
+  const lines = [
+    `# ${transcript.title}`,
+    '',
+    `- Session: \`${transcript.id}\``,
+  ];
+  if (transcript.directory) {
+    lines.push(`- Directory: \`${transcript.directory}\``);
+  }
+  lines.push(`- Messages: ${transcript.messages.length}`, '');
+
+  for (const message of transcript.messages) {
+    lines.push('---', '', ...markdownMessage(message));
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+header dt { font-weight: 600; }
+section.message { border-top: 1px solid #d0d7de; padding: 1rem 0; }
+section.message h2 { font-size: 1.1rem; margin: 0 0 0.5rem; }
+section.message .id { color: #656d76; font-size: 0.8rem; font-weight: normal; }
+section.user h2 { color: #0969da; }
+section.assistant h2 { color: #8250df; }
+.text { white-space: pre-wrap; }
+details { border: 1px solid #d0d7de; border-radius: 6px; margin: 0.5rem 0; padding: 0.25rem 0.75rem; }
+summary { cursor: pointer; font-family: ui-monospace, monospace; font-size: 0.9rem; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 0.75rem; overflow-x: auto; font-size: 0.85rem; }
+pre.diff span { display: block; }
+pre.diff .add { background: #dafbe1; }
+pre.diff .del { background: #ffebe9; }
+pre.diff .hunk { color: #0969da; }
+pre.diff .meta { color: #656d76; font-weight: 600; }
+.missing { color: #656d76; font-style: italic; }
+`;
+
+function htmlPre(content: string): string {
+  return `<pre>${escapeHtml(content)}</pre>`;
+}
+
+function htmlDiff(diff: string): string {
+  const lines = diff.replace(/\n$/, '').split('\n');
+  const spans = lines.map((line) => {
+    let kind = '';
+    if (
+      /^(diff |index |--- |\+\+\+ |new file|deleted file|rename )/.test(line)
+    ) {
+      kind = 'meta';
+    } else if (line.startsWith('@@')) {
+      kind = 'hunk';
+    } else if (line.startsWith('+')) {
+      kind = 'add';
+    } else if (line.startsWith('-')) {
+      kind = 'del';
+    }
+    const content = escapeHtml(line) || ' ';
+    return kind
+      ? `<span class="${kind}">${content}</span>`
+      : `<span>${content}</span>`;
+  });
+  return `<pre class="diff">${spans.join('')}</pre>`;
+}
+
+function htmlPart(part: MessagePart): string {
+  switch (part.type) {
+    case 'text':
+      return `<div class="text">${escapeHtml(part.text.trim())}</div>`;
+    case 'reasoning':
+      return `<details><summary>Reasoning</summary><div class="text">${escapeHtml(part.text.trim())}</div></details>`;
+    case 'tool': {
+      const body = [`<h4>Input</h4>${htmlPre(formatToolInput(part))}`];
+      if (part.output !== null) {
+        body.push(`<h4>Output</h4>${htmlPre(part.output)}`);
+      }
+      if (part.error !== null) {
+        body.push(`<h4>Error</h4>${htmlPre(part.error)}`);
+      }
+      return `<details><summary>${escapeHtml(toolSummary(part))}</summary>${body.join('')}</details>`;
+    }
+  }
+}
+
+function htmlMessage(message: TranscriptMessage): string {
+  const role = message.role ?? 'unknown';
+  const body = message.parts.map(htmlPart);
+  if (message.files.length > 0) {
+    const files = message.files
+      .map((file) => `<code>${escapeHtml(file)}</code>`)
+      .join(', ');
+    body.push(`<p><strong>Changed files:</strong> ${files}</p>`);
+    body.push(
+      message.diff
+        ? htmlDiff(message.diff)
+        : '<p class="missing">Diff not available (snapshot missing).</p>',
+    );
+  }
+  return [
+    `<section class="message ${escapeHtml(role)}" id="${escapeHtml(message.id)}">`,
+    `<h2>${escapeHtml(roleLabel(message.role))} · ${escapeHtml(message.timestamp)} <span class="id">${escapeHtml(message.id)}</span></h2>`,
+    ...body,
+    '</section>',
+  ].join('\n');
+}
+
+export function renderHtml(transcript: SessionTranscript): string {
+  const meta = [
+    `<dt>Session</dt><dd><code>${escapeHtml(transcript.id)}</code></dd>`,
+  ];
+  if (transcript.directory) {
+    meta.push(
+      `<dt>Directory</dt><dd><code>${escapeHtml(transcript.directory)}</code></dd>`,
+    );
+  }
+  meta.push(`<dt>Messages</dt><dd>${transcript.messages.length}</dd>`);
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(transcript.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    `<h1>${escapeHtml(transcript.title)}</h1>`,
+    `<dl>${meta.join('')}</dl>`,
+    '</header>',
+    ...transcript.messages.map(htmlMessage),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+export function renderTranscript(
+  transcript: SessionTranscript,
+  format: ExportFormat,
+): string {
+  return format === 'html'
+    ? renderHtml(transcript)
+    : renderMarkdown(transcript);
+}
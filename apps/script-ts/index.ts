@@ -1,32 +1,111 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import * as os from 'node:os';
-import { spawnSync } from 'child_process';
 import * as readline from 'node:readline';
 
 import {
-  listDirectories,
-  listFiles,
-  sortByMtimeDesc,
-  safeReadJson,
-  formatDate,
   formatTimestamp,
   runGit,
   getPatchHash,
-  getSessionTitle,
   getProjectIdFromSession,
   getProjectIdFromMessage,
   getProjectDirectory,
   gitCatFileExists,
+  getMessageSnapshots,
+  getSessionMessageIds,
+  getRecentSessions,
+  getSessionTree,
+  getTaskDiff,
+  diffBetween,
+  SessionNode,
+  listProjects,
+  resolveProjectFilter,
+  SessionFilter,
+  Session,
+  getFileHistory,
+  getIndexedMessage,
+  toProjectRelativePath,
+  getSessionMessages,
+  parseUnifiedDiff,
+  findMessageFile,
+  createHistoryStore,
+  getSnapshotDir,
+  HistoryStore,
+  HistoryStoreOptions,
+  getSessionTranscript,
+  searchHistory,
+  getMessageToolCalls,
+  getToolCallSummary,
+  getRevertRange,
+  revertRange,
+  RevertError,
+  SnapshotReadError,
+  RevertOptions,
+  RevertOutcome,
+  RevertRange,
+  RevertResult,
+  RevertTarget,
+  createRevertBackup,
+  finishRevertBackup,
+  discardRevertBackup,
+  listRevertJournal,
+  undoRevert,
+  UndoRevertOptions,
+  getFileAtMessage,
+  blameFile,
+  getSessionStats,
+  getTaskStats,
+  listSessionStats,
+  rollupSessionStats,
+  UsageTotals,
+  getStorageHealth,
+  collectGarbage,
+  GcOptions,
+  GcResult,
+  getRestoreDiff,
+  isValidFilePath,
+  SnapshotPoint,
+  DiffMode,
+  SearchOptions,
 } from '@oc-hist/shared';
 
-const homeDir = os.homedir();
-const storageRoot = path.join(homeDir, '.local/share/opencode/storage');
-const messageRoot = path.join(storageRoot, 'message');
-const partRoot = path.join(storageRoot, 'part');
-const snapshotRoot = path.join(homeDir, '.local/share/opencode/snapshot');
+import { CommandError, UsageError } from './errors';
+import { OutputFormat, writeRecords } from './output';
+import { ExportFormat, renderTranscript } from './export';
 
+export { CommandError, UsageError } from './errors';
+export * from './output';
+export * from './export';
+
+let store: HistoryStore = createHistoryStore();
+
+/**
+ * Point every agent_* function at a different OpenCode data, storage or
+ * snapshot directory. Defaults come from `OC_HIST_DATA_DIR`,
+ * `OC_HIST_STORAGE_DIR`, `OC_HIST_SNAPSHOT_DIR` and `XDG_DATA_HOME`.
+ */
+export function configureHistoryStore(options: HistoryStoreOptions = {}): void {
+  store = createHistoryStore(options);
+}
+
+let outputFormat: OutputFormat = 'text';
+
+/**
+ * Switch every agent_* function between human-readable text and the
+ * versioned JSON / NDJSON records described in `output.ts`. Machine-readable
+ * modes never prompt.
+ */
+export function configureOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+}
+
+/**
+ * Ask a question on the terminal. Without a TTY on stdin there is nobody to
+ * answer, so the empty (default) answer is returned immediately.
+ */
 function prompt(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.resolve('');
+  }
   return new Promise((resolve) => {
     const rl = readline.createInterface({
       input: process.stdin,
@@ -39,55 +118,48 @@ function prompt(question: string): Promise<string> {
   });
 }
 
-function getMessageTools(msgId: string): string[] {
-  const partDir = path.join(partRoot, msgId);
-  const partFiles = listFiles(partDir).filter((file) =>
-    file.name.endsWith('.json'),
-  );
-  const tools: string[] = [];
-
-  for (const file of partFiles) {
-    const data = safeReadJson(file.path);
-    if (data?.type === 'tool' && typeof data.tool === 'string') {
-      tools.push(data.tool);
-    }
-  }
-
-  return tools;
-}
-
-function getGitProjectId(): string | null {
-  const result = runGit(['rev-list', '--max-parents=0', '--all']);
-  if (result.status !== 0) {
-    return null;
-  }
-
-  const commits = result.stdout.split(/\r?\n/).filter(Boolean).sort();
-  return commits[0] ?? null;
-}
-
 function runGitDiff(
   snapshotDir: string,
-  hash: string,
+  revisions: string[],
   filePath?: string,
   workTree?: string,
-): void {
+): string {
   const args: string[] = ['--git-dir', snapshotDir];
   if (workTree) {
     args.push('--work-tree', workTree);
   }
-  args.push('diff', hash);
+  args.push('diff', ...revisions);
   if (filePath) {
     args.push('--', filePath);
   }
 
   const result = runGit(args);
-  if (result.stdout) {
-    process.stdout.write(result.stdout);
-  }
   if (result.stderr) {
     process.stderr.write(result.stderr);
   }
+  return result.stdout;
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n');
+}
+
+function truncateLines(text: string, maxLines?: number): string {
+  const lines = text.replace(/\n$/, '').split('\n');
+  if (maxLines === undefined || lines.length <= maxLines) {
+    return lines.join('\n');
+  }
+  return [
+    ...lines.slice(0, maxLines),
+    `… (${lines.length - maxLines} more lines)`,
+  ].join('\n');
+}
+
+function formatInputValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
 }
 
 function isValidMessageId(msgId: string): boolean {
@@ -100,139 +172,268 @@ function isValidSessionId(sessionId: string): boolean {
 
 // Re-export with underscore prefix for backward compatibility
 export function _get_project_id_from_session(sessionId: string): string | null {
-  return getProjectIdFromSession(sessionId);
+  return getProjectIdFromSession(sessionId, store);
 }
 
 export function _get_project_id_from_message(msgId: string): string | null {
-  return getProjectIdFromMessage(msgId);
+  return getProjectIdFromMessage(msgId, store);
 }
 
 export async function agent_message_diff(
   msgId: string,
   filePath?: string,
+  mode: DiffMode = 'message',
 ): Promise<void> {
   if (!msgId) {
-    console.log('Usage: agent_message_diff <message_id> [file_path]');
-    return;
+    throw new UsageError(
+      'Usage: agent_message_diff <message_id> [file_path] [message|worktree]',
+    );
   }
 
   if (!isValidMessageId(msgId)) {
-    console.log('Error: Invalid message ID format');
-    return;
+    throw new CommandError('Invalid message ID format');
+  }
+
+  if (!findMessageFile(msgId, store)) {
+    throw new CommandError(`Message not found: ${msgId}`);
   }
 
-  const hash = getPatchHash(msgId);
+  const hash = getPatchHash(msgId, store);
+  if (!hash && outputFormat !== 'text') {
+    writeRecords(outputFormat, 'message-diff', [
+      {
+        messageId: msgId,
+        sessionId: findMessageFile(msgId, store)?.sessionId ?? '',
+        mode,
+        filePath: filePath ?? null,
+        from: null,
+        to: null,
+        files: [],
+      },
+    ]);
+    return;
+  }
   if (!hash) {
     console.log(`No file changes in message: ${msgId}`);
     console.log('');
     console.log('=== Tools Used ===');
-    const tools = getMessageTools(msgId);
-    for (const tool of tools) {
-      console.log(`- ${tool}`);
+    for (const call of getMessageToolCalls(msgId, store)) {
+      console.log(`- ${call.tool}`);
     }
     return;
   }
 
   const projectId = _get_project_id_from_message(msgId);
   if (!projectId) {
-    console.log('Error: Could not determine project ID for message');
-    return;
+    throw new CommandError('Could not determine project ID for message');
   }
 
-  const snapshotDir = path.join(snapshotRoot, projectId);
+  const snapshotDir = getSnapshotDir(projectId, store);
   if (!fs.existsSync(snapshotDir)) {
-    console.log(`Error: Snapshot directory not found: ${snapshotDir}`);
-    return;
+    throw new CommandError(`Snapshot directory not found: ${snapshotDir}`);
   }
 
   if (!gitCatFileExists(snapshotDir, hash)) {
-    console.log(`Snapshot not available for hash: ${hash}`);
-    return;
+    throw new CommandError(`Snapshot not available for hash: ${hash}`);
   }
 
-  const projectDir = getProjectDirectory(projectId);
-  if (projectDir && fs.existsSync(projectDir)) {
-    runGitDiff(snapshotDir, hash, filePath, projectDir);
+  let after: string | null = null;
+  let diff: string;
+  if (mode === 'message') {
+    after = getMessageSnapshots(msgId, store)?.after ?? null;
+    if (!after || !gitCatFileExists(snapshotDir, after)) {
+      throw new CommandError(
+        `No later snapshot to compare against for: ${msgId} (try worktree mode)`,
+      );
+    }
+    diff = runGitDiff(snapshotDir, [hash, after], filePath);
   } else {
-    runGitDiff(snapshotDir, hash, filePath);
+    const projectDir = getProjectDirectory(projectId, store);
+    if (projectDir && fs.existsSync(projectDir)) {
+      diff = runGitDiff(snapshotDir, [hash], filePath, projectDir);
+    } else {
+      diff = runGitDiff(snapshotDir, [hash], filePath);
+    }
   }
+
+  if (outputFormat === 'text') {
+    process.stdout.write(diff);
+    return;
+  }
+
+  writeRecords(outputFormat, 'message-diff', [
+    {
+      messageId: msgId,
+      sessionId: findMessageFile(msgId, store)?.sessionId ?? '',
+      mode,
+      filePath: filePath ?? null,
+      from: hash,
+      to: after,
+      files: parseUnifiedDiff(diff),
+    },
+  ]);
 }
 
 export async function agent_session_diff(
   sessionId: string,
   filePath?: string,
+  mode: DiffMode = 'message',
 ): Promise<void> {
   if (!sessionId) {
-    console.log('Usage: agent_session_diff <session_id> [file_path]');
-    return;
+    throw new UsageError(
+      'Usage: agent_session_diff <session_id> [file_path] [message|worktree]',
+    );
   }
 
   // Validate sessionId to prevent path traversal and enforce expected format.
   // Session IDs must start with "ses_" and contain only safe characters.
   if (!isValidSessionId(sessionId)) {
-    console.log('Error: Invalid session ID format');
-    return;
+    throw new CommandError('Invalid session ID format');
   }
 
-  const sessionDir = path.join(messageRoot, sessionId);
-  const messageFiles = sortByMtimeDesc(
-    listFiles(sessionDir).filter((file) => file.name.endsWith('.json')),
-  );
+  const messageIds = getSessionMessageIds(sessionId, store);
 
-  if (messageFiles.length === 0) {
-    console.log(`No messages found in session: ${sessionId}`);
-    return;
+  if (messageIds.length === 0) {
+    throw new CommandError(`No messages found in session: ${sessionId}`);
   }
 
-  const latestMessage = messageFiles[0];
-  const msgId = latestMessage.name.replace(/\.json$/, '');
+  const msgId = messageIds[messageIds.length - 1];
 
-  console.log(`Latest message: ${msgId}`);
-  console.log('');
+  if (outputFormat === 'text') {
+    console.log(`Latest message: ${msgId}`);
+    console.log('');
+  }
 
-  await agent_message_diff(msgId, filePath);
+  await agent_message_diff(msgId, filePath, mode);
 }
 
-export async function agent_diff_latest(filePath?: string): Promise<void> {
-  const sessionDirs = sortByMtimeDesc(
-    listDirectories(messageRoot).filter((dir) => dir.name.startsWith('ses_')),
-  );
+export async function agent_diff_latest(
+  filePath?: string,
+  mode: DiffMode = 'message',
+): Promise<void> {
+  const [latestSession] = getRecentSessions(1, {}, store);
 
-  if (sessionDirs.length === 0) {
-    console.log('No sessions found');
-    return;
+  if (!latestSession) {
+    throw new CommandError('No sessions found');
   }
 
-  const sessionId = sessionDirs[0].name;
-  console.log(`Using session: ${sessionId}`);
-  console.log('');
+  const sessionId = latestSession.id;
+  if (outputFormat === 'text') {
+    console.log(`Using session: ${sessionId}`);
+    console.log('');
+  }
+
+  await agent_session_diff(sessionId, filePath, mode);
+}
+
+export interface ListFilterOptions {
+  /** Project ID, or a directory of the project's work tree. */
+  project?: string;
+  /** Only activity at or after this time (ms since epoch). */
+  since?: number;
+  /** Only activity at or before this time (ms since epoch). */
+  until?: number;
+  /** Only sessions whose title contains this text, ignoring case. */
+  title?: string;
+}
+
+function toSessionFilter(options: ListFilterOptions): SessionFilter {
+  let projectFilter: SessionFilter = {};
+  if (options.project) {
+    const resolved = resolveProjectFilter(options.project, store);
+    if (!resolved) {
+      throw new CommandError(
+        `Not a known project ID or a directory: ${options.project}`,
+      );
+    }
+    projectFilter = resolved;
+  }
+  return {
+    ...projectFilter,
+    since: options.since,
+    until: options.until,
+    title: options.title,
+  };
+}
 
-  await agent_session_diff(sessionId, filePath);
+function printSessionChildren(children: SessionNode[], prefix: string): void {
+  children.forEach((child, i) => {
+    const last = i === children.length - 1;
+    console.log(
+      `${prefix}${last ? '└─' : '├─'} [${child.id}] ${child.title} (${child.messageCount} messages)`,
+    );
+    printSessionChildren(child.children, `${prefix}${last ? '   ' : '│  '}`);
+  });
 }
 
-export async function agent_sessions(limit = 5): Promise<void> {
+/**
+ * List recent sessions, with the sessions they spawned (subagents, tasks)
+ * nested below them unless `flat` is set.
+ */
+export async function agent_sessions(
+  limit = 5,
+  options: ListFilterOptions = {},
+  flat = false,
+): Promise<void> {
   const parsedLimit = Number.isFinite(Number(limit)) ? Number(limit) : 5;
-  const sessionDirs = sortByMtimeDesc(
-    listDirectories(messageRoot).filter((dir) => dir.name.startsWith('ses_')),
-  ).slice(0, parsedLimit);
+  const filter = toSessionFilter(options);
+  const sessions: (Session | SessionNode)[] = flat
+    ? getRecentSessions(parsedLimit, filter, store)
+    : getSessionTree(parsedLimit, filter, store);
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'session', sessions);
+    return;
+  }
+
+  if (sessions.length === 0) {
+    console.log('No sessions found');
+    return;
+  }
 
   console.log('Recent sessions:');
   console.log('');
 
-  for (const sessionDir of sessionDirs) {
-    const sessionId = sessionDir.name;
-    const messageFiles = listFiles(sessionDir.path).filter((file) =>
-      file.name.endsWith('.json'),
+  for (const session of sessions) {
+    console.log(`[${session.id}]`);
+    console.log(`  Title: ${session.title}`);
+    console.log(
+      `  Modified: ${session.modified} | Messages: ${session.messageCount}`,
     );
-    const msgCount = messageFiles.length;
-    const modified = formatDate(sessionDir.stat.mtime);
-    const title = getSessionTitle(sessionId);
+    if ('children' in session && session.children.length > 0) {
+      console.log('  Subagent sessions:');
+      printSessionChildren(session.children, '  ');
+    }
+    console.log('');
+  }
+}
+
+export async function agent_projects(): Promise<void> {
+  const projects = listProjects(store);
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'project', projects);
+    return;
+  }
+
+  if (projects.length === 0) {
+    console.log('No projects found');
+    return;
+  }
 
-    console.log(`[${sessionId}]`);
-    console.log(`  Title: ${title}`);
-    console.log(`  Modified: ${modified} | Messages: ${msgCount}`);
+  for (const project of projects) {
+    const missing = project.directoryExists ? '' : ' (missing)';
+    console.log(`[${project.id}]`);
+    console.log(`  Directory: ${project.directory ?? '(unknown)'}${missing}`);
+    console.log(
+      `  Sessions: ${project.sessionCount} | Last activity: ${project.lastActivity}`,
+    );
+    console.log(
+      `  Snapshot repo: ${project.snapshotBytes === null ? 'none' : formatBytes(project.snapshotBytes)}`,
+    );
     console.log('');
   }
+  console.log('List sessions with: oc-hist sessions --project <id|dir>');
 }
 
 export async function agent_session_changes(
@@ -240,19 +441,26 @@ export async function agent_session_changes(
   pageSize = 10,
 ): Promise<void> {
   if (!sessionId) {
-    console.log('Usage: agent_session_changes <session_id> [page_size]');
-    return;
+    throw new UsageError(
+      'Usage: agent_session_changes <session_id> [page_size]',
+    );
   }
 
   // Validate sessionId to prevent path traversal and enforce expected format.
   // Session IDs must start with "ses_" and contain only safe characters.
   if (!isValidSessionId(sessionId)) {
-    console.log('Error: Invalid session ID format');
-    return;
+    throw new CommandError('Invalid session ID format');
   }
-  const sessionDir = path.join(messageRoot, sessionId);
+  const sessionDir = path.join(store.messageRoot, sessionId);
   if (!fs.existsSync(sessionDir)) {
-    console.log(`Session not found: ${sessionId}`);
+    throw new CommandError(`Session not found: ${sessionId}`);
+  }
+
+  // Both modes list the same messages, checked against the session's own
+  // project rather than whatever repository the command runs in
+  const messages = getSessionMessages(sessionId, store);
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'message', messages);
     return;
   }
 
@@ -265,49 +473,27 @@ export async function agent_session_changes(
 
   let count = 0;
 
-  const projectId = getGitProjectId();
-  const snapshotDir = projectId ? path.join(snapshotRoot, projectId) : '';
-
-  const messageFiles = sortByMtimeDesc(
-    listFiles(sessionDir).filter((file) => file.name.endsWith('.json')),
-  );
+  for (const message of messages) {
+    console.log(`[${message.id}]`);
+    console.log(`  Time: ${message.timestamp}`);
+    console.log(`  Hash: ${message.hash}`);
+    console.log(
+      message.hasSnapshot
+        ? '  Status: ✓ snapshot available'
+        : '  Status: ✗ snapshot missing',
+    );
 
-  for (const msgFile of messageFiles) {
-    const msgId = msgFile.name.replace(/\.json$/, '');
-    const hash = getPatchHash(msgId);
-
-    if (hash) {
-      const data = safeReadJson(msgFile.path);
-      const timestamp =
-        data?.time && typeof data.time === 'object'
-          ? (data.time as { created?: number }).created
-          : undefined;
-      const date = formatTimestamp(timestamp);
-
-      console.log(`[${msgId}]`);
-      console.log(`  Time: ${date}`);
-      console.log(`  Hash: ${hash}`);
-
-      if (snapshotDir) {
-        if (gitCatFileExists(snapshotDir, hash)) {
-          console.log('  Status: ✓ snapshot available');
-        } else {
-          console.log('  Status: ✗ snapshot missing');
-        }
-      }
+    console.log('');
+    count += 1;
 
+    if (count % parsedPageSize === 0) {
+      const response = await prompt(
+        `--- Showing ${count} so far. Press Enter to continue (or 'q' to quit): `,
+      );
       console.log('');
-      count += 1;
-
-      if (count % parsedPageSize === 0) {
-        const response = await prompt(
-          `--- Showing ${count} so far. Press Enter to continue (or 'q' to quit): `,
-        );
-        console.log('');
-        if (response === 'q') {
-          console.log(`Stopped at ${count} message(s)`);
-          return;
-        }
+      if (response === 'q') {
+        console.log(`Stopped at ${count} message(s)`);
+        return;
       }
     }
   }
@@ -322,13 +508,24 @@ export async function agent_session_changes(
 export async function agent_file_history(
   filePath: string,
   limit = 10,
+  options: ListFilterOptions = {},
 ): Promise<void> {
   if (!filePath) {
-    console.log('Usage: agent_file_history <file_path> [limit]');
-    return;
+    throw new UsageError('Usage: agent_file_history <file_path> [limit]');
   }
 
   const parsedLimit = Number.isFinite(Number(limit)) ? Number(limit) : 10;
+  const history = getFileHistory(
+    filePath,
+    parsedLimit,
+    toSessionFilter(options),
+    store,
+  );
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'file-history-entry', history);
+    return;
+  }
 
   console.log(`File history for: ${filePath}`);
   console.log(`Searching last ${parsedLimit} sessions...`);
@@ -336,82 +533,39 @@ export async function agent_file_history(
 
   let count = 0;
 
-  const sessionDirs = sortByMtimeDesc(
-    listDirectories(messageRoot).filter((dir) => dir.name.startsWith('ses_')),
-  ).slice(0, parsedLimit);
-
-  for (const sessionDir of sessionDirs) {
-    const sessionId = sessionDir.name;
-    const title = getSessionTitle(sessionId);
-
-    const messageFiles = sortByMtimeDesc(
-      listFiles(sessionDir.path).filter((file) => file.name.endsWith('.json')),
-    );
-
-    for (const msgFile of messageFiles) {
-      const msgId = msgFile.name.replace(/\.json$/, '');
-      const hash = getPatchHash(msgId);
-
-      if (!hash) {
-        continue;
-      }
-
-      const projectId = _get_project_id_from_message(msgId);
-      if (!projectId) {
-        continue;
-      }
-
-      const snapshotDir = path.join(snapshotRoot, projectId);
-      if (!gitCatFileExists(snapshotDir, hash)) {
-        continue;
-      }
-
-      const diffResult = runGit([
-        '--git-dir',
-        snapshotDir,
-        'diff',
-        '--name-only',
-        hash,
-      ]);
+  for (const entry of history) {
+    const msgId = entry.messageId;
 
-      const filesChanged = diffResult.stdout.split(/\r?\n/).filter(Boolean);
+    console.log(`[${msgId}]`);
+    console.log(`  Session: ${entry.sessionId}`);
+    console.log(`  Title: ${entry.sessionTitle}`);
+    console.log(`  Time: ${entry.timestamp}`);
+    console.log('');
 
-      if (!filesChanged.includes(filePath)) {
-        continue;
-      }
+    const response = await prompt('  Show diff? (Enter/s to skip/q to quit): ');
 
-      const data = safeReadJson(msgFile.path);
-      const timestamp =
-        data?.time && typeof data.time === 'object'
-          ? (data.time as { created?: number }).created
-          : undefined;
-      const date = formatTimestamp(timestamp);
-
-      console.log(`[${msgId}]`);
-      console.log(`  Session: ${sessionId}`);
-      console.log(`  Title: ${title}`);
-      console.log(`  Time: ${date}`);
+    if (response === 'q') {
       console.log('');
+      console.log(`Stopped at ${count} change(s)`);
+      return;
+    }
 
-      const response = await prompt(
-        '  Show diff? (Enter/s to skip/q to quit): ',
-      );
-
-      if (response === 'q') {
-        console.log('');
-        console.log(`Stopped at ${count} change(s)`);
-        return;
-      }
-
-      if (response !== 's') {
-        console.log('');
+    if (response !== 's') {
+      console.log('');
+      try {
         await agent_message_diff(msgId, filePath);
-        console.log('');
+      } catch (error) {
+        // One unavailable diff should not end the whole listing
+        if (!(error instanceof CommandError)) {
+          throw error;
+        }
+        console.log(`  ${error.message}`);
       }
-
-      count += 1;
       console.log('');
     }
+
+    count += 1;
+    console.log('');
   }
 
   if (count === 0) {
@@ -421,130 +575,1153 @@ export async function agent_file_history(
   }
 }
 
+/**
+ * Revert one file's part of a message's change: only the hunks the message
+ * itself wrote are reversed, so later agent changes and edits by hand to the
+ * same file stay.
+ */
 export async function agent_revert_file(
   msgId: string,
   filePath: string,
+  assumeYes = false,
 ): Promise<void> {
   if (!msgId || !filePath) {
-    console.log('Usage: agent_revert_file <message_id> <file_path>');
-    return;
+    throw new UsageError('Usage: agent_revert_file <message_id> <file_path>');
   }
 
   if (!isValidMessageId(msgId)) {
-    console.log('Error: Invalid message ID format');
-    return;
+    throw new CommandError('Invalid message ID format');
   }
 
-  const hash = getPatchHash(msgId);
-  if (!hash) {
-    console.log(`No file changes in message: ${msgId}`);
-    return;
+  if (!findMessageFile(msgId, store)) {
+    throw new CommandError(`Message not found: ${msgId}`);
   }
 
-  const projectId = _get_project_id_from_message(msgId);
-  if (!projectId) {
-    console.log('Error: Could not determine project ID for message');
-    return;
+  let range: RevertRange;
+  try {
+    range = getRevertRange({ messageId: msgId }, store);
+  } catch (error) {
+    if (error instanceof RevertError) {
+      throw new CommandError(error.message);
+    }
+    throw error;
   }
 
-  const snapshotDir = path.join(snapshotRoot, projectId);
-  if (!fs.existsSync(snapshotDir)) {
+  // Match the index's spelling: project-relative with `/` separators
+  const relativePath = toProjectRelativePath(filePath, range.projectDir);
+  if (!relativePath || !isValidFilePath(relativePath)) {
+    throw new CommandError(`Invalid file path: ${filePath}`);
+  }
+
+  const notModified = () =>
+    new CommandError(
+      `File '${relativePath}' was not modified in message ${msgId}`,
+    );
+  const files = getIndexedMessage(msgId, store)?.files ?? null;
+  if (files !== null && !files.includes(relativePath)) {
+    throw notModified();
+  }
+
+  const options: RevertOptions = { paths: [relativePath] };
+  let plan: RevertResult;
+  try {
+    plan = revertRange(range, { ...options, dryRun: true }, store);
+  } catch (error) {
+    if (error instanceof RevertError) {
+      throw new CommandError(error.message);
+    }
+    throw error;
+  }
+
+  const [planned] = plan.files;
+  if (!planned) {
+    throw notModified();
+  }
+  if (planned.outcome === 'already-reverted') {
+    throw new CommandError('No changes found to revert for this file.');
+  }
+
+  if (outputFormat === 'text') {
+    console.log(`Changes to revert in: ${relativePath}`);
+    console.log('');
+    process.stdout.write(
+      runGitDiff(range.snapshotDir, [range.before, range.after], relativePath),
+    );
+    console.log('');
+  } else if (!assumeYes) {
+    throw new UsageError(
+      'Reverting with machine-readable output requires confirmation up front (--yes)',
+    );
+  }
+
+  const printHints = () => {
+    if (planned.message) {
+      process.stderr.write(`${planned.message}\n`);
+    }
+    if (outputFormat !== 'text') {
+      return;
+    }
+    console.log('Try one of these:');
+    console.log('  1. Resolve conflicts manually');
     console.log(
-      `Error: Snapshot directory not found for project: ${projectId}`,
+      `  2. Use: git --git-dir "${range.snapshotDir}" diff "${range.before}" "${range.after}" -- "${relativePath}" | git apply -R --reject`,
     );
-    return;
+    console.log('     (Creates .rej files for conflicts)');
+    console.log(`  3. Merge instead: oc-hist revert --message ${msgId} --3way`);
+    console.log(
+      `  4. Restore the whole file as it was: oc-hist restore-file ${msgId} "${relativePath}" --before`,
+    );
+    console.log('');
+  };
+  if (planned.outcome !== 'reverted') {
+    printHints();
+    throw new CommandError('Failed to apply reverse patch cleanly');
   }
 
-  const projectDir = getProjectDirectory(projectId);
-  if (!projectDir || !fs.existsSync(projectDir)) {
-    console.log('Error: Could not find project directory');
-    return;
+  if (!assumeYes) {
+    const response = await prompt('Revert these changes? (y/N): ');
+    if (!['y', 'Y'].includes(response)) {
+      console.log('Cancelled');
+      return;
+    }
   }
 
-  if (!gitCatFileExists(snapshotDir, hash)) {
-    console.log(`Error: Snapshot does not contain hash: ${hash}`);
+  const result = revertRange(range, options, store);
+  const [reverted] = result.files;
+  if (reverted?.outcome !== 'reverted') {
+    printHints();
+    throw new CommandError('Failed to apply reverse patch cleanly');
+  }
+
+  if (outputFormat === 'text') {
+    console.log(`✓ Successfully reverted changes to ${relativePath}`);
+    if (result.journalId) {
+      console.log(`  Undo with: oc-hist undo-revert ${result.journalId}`);
+    }
+  } else {
+    writeRecords(outputFormat, 'revert-result', [
+      {
+        messageId: msgId,
+        filePath: relativePath,
+        reverted: true,
+        journalId: result.journalId,
+      },
+    ]);
+  }
+}
+
+export async function agent_export(
+  sessionId: string,
+  format: ExportFormat = 'md',
+  outputPath?: string,
+): Promise<void> {
+  if (!sessionId) {
+    throw new UsageError(
+      'Usage: agent_export <session_id> [md|html] [output_path]',
+    );
+  }
+
+  if (!isValidSessionId(sessionId)) {
+    throw new CommandError('Invalid session ID format');
+  }
+
+  const transcript = getSessionTranscript(sessionId, store);
+  if (!transcript) {
+    throw new CommandError(`Session not found: ${sessionId}`);
+  }
+
+  const rendered = renderTranscript(transcript, format);
+  if (outputPath) {
+    try {
+      fs.writeFileSync(outputPath, rendered);
+    } catch (error) {
+      throw new CommandError(
+        `Could not write ${outputPath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'transcript', [transcript]);
     return;
   }
 
-  const filesChanged = runGit([
-    '--git-dir',
-    snapshotDir,
-    '--work-tree',
-    projectDir,
-    'diff',
-    '--name-only',
-    hash,
-  ])
-    .stdout.split(/\r?\n/)
-    .filter(Boolean);
-
-  if (!filesChanged.includes(filePath)) {
+  if (outputPath) {
     console.log(
-      `Error: File '${filePath}' was not modified in message ${msgId}`,
+      `Exported ${transcript.messages.length} message(s) to ${outputPath}`,
     );
     return;
   }
 
-  const diffResult = runGit([
-    '--git-dir',
-    snapshotDir,
-    '--work-tree',
-    projectDir,
-    'diff',
-    hash,
-    '--',
-    filePath,
-  ]);
+  process.stdout.write(rendered);
+}
+
+export async function agent_search(
+  query: string,
+  options: Pick<
+    SearchOptions,
+    'regex' | 'caseSensitive' | 'roles' | 'limit'
+  > = {},
+  filter: ListFilterOptions = {},
+): Promise<void> {
+  if (!query) {
+    throw new UsageError('Usage: agent_search <query>');
+  }
 
-  // Fail fast if the diff command failed or produced no patch.
-  if ((diffResult.status ?? 1) !== 0) {
-    console.log('Error: Failed to compute diff for file revert.');
-    if (diffResult.stderr) {
-      process.stderr.write(diffResult.stderr);
+  let hits;
+  try {
+    hits = searchHistory(
+      query,
+      { ...options, ...toSessionFilter(filter) },
+      store,
+    );
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new UsageError(error.message);
     }
+    throw error;
+  }
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'search-hit', hits);
     return;
   }
 
-  if (!diffResult.stdout || !diffResult.stdout.trim()) {
-    console.log('Error: No changes found to revert for this file.');
+  if (hits.length === 0) {
+    console.log(`No matches for: ${query}`);
     return;
   }
-  console.log(`Changes to revert in: ${filePath}`);
+
+  let sessionId: string | null = null;
+  for (const hit of hits) {
+    if (hit.sessionId !== sessionId) {
+      if (sessionId) {
+        console.log('');
+      }
+      sessionId = hit.sessionId;
+      console.log(`[${hit.sessionId}] ${hit.sessionTitle}`);
+    }
+    const source = hit.tool ? `tool: ${hit.tool}` : hit.role;
+    console.log(`  [${hit.messageId}] ${hit.timestamp} (${source})`);
+    console.log(`    ${hit.snippet}`);
+  }
+
   console.log('');
-  if (diffResult.stdout) {
-    process.stdout.write(diffResult.stdout);
+  console.log(`Total: ${hits.length} match(es)`);
+}
+
+/**
+ * Resolve a `diff` endpoint: a message ID, or a session ID standing for its
+ * first (`from`) or last (`to`) message.
+ */
+function resolveDiffEndpoint(id: string, side: 'from' | 'to'): string {
+  if (isValidSessionId(id)) {
+    const messageIds = getSessionMessageIds(id, store);
+    if (messageIds.length === 0) {
+      throw new CommandError(`No messages found in session: ${id}`);
+    }
+    return side === 'from' ? messageIds[0] : messageIds[messageIds.length - 1];
   }
-  if (diffResult.stderr) {
-    process.stderr.write(diffResult.stderr);
+  if (!isValidMessageId(id)) {
+    throw new CommandError('Invalid message ID format');
   }
-  console.log('');
+  if (!findMessageFile(id, store)) {
+    throw new CommandError(`Message not found: ${id}`);
+  }
+  return id;
+}
 
-  const response = await prompt('Revert these changes? (y/N): ');
-  if (!['y', 'Y'].includes(response)) {
-    console.log('Cancelled');
-    return;
+/**
+ * Show what changed between two messages: from the snapshot before the first
+ * one's change to the snapshot after the second one's. A session ID stands
+ * for its first or last message.
+ */
+export async function agent_diff(
+  from: string,
+  to: string,
+  filePath?: string,
+): Promise<void> {
+  if (!from || !to) {
+    throw new UsageError('Usage: agent_diff <from> <to> [file_path]');
   }
 
-  const applyResult = spawnSync('git', ['apply', '-R'], {
-    encoding: 'utf8',
-    cwd: projectDir,
-    input: diffResult.stdout,
-  });
+  const fromMessageId = resolveDiffEndpoint(from, 'from');
+  const toMessageId = resolveDiffEndpoint(to, 'to');
+  const range = diffBetween(
+    fromMessageId,
+    toMessageId,
+    filePath ? [filePath] : [],
+    store,
+  );
+  if (!range) {
+    throw new CommandError(
+      `Cannot diff ${fromMessageId}..${toMessageId}: messages are in different projects or their snapshots are not available`,
+    );
+  }
 
-  if ((applyResult.status ?? 1) === 0) {
-    console.log(`✓ Successfully reverted changes to ${filePath}`);
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'range-diff', [
+      {
+        fromMessageId: range.fromMessageId,
+        toMessageId: range.toMessageId,
+        filePath: filePath ?? null,
+        from: range.before,
+        to: range.after,
+        files: parseUnifiedDiff(range.diff),
+      },
+    ]);
     return;
   }
 
-  console.log('✗ Failed to apply reverse patch cleanly');
-  console.log('');
-  if (applyResult.stderr) {
-    process.stderr.write(applyResult.stderr);
-  }
-  console.log('Try one of these:');
-  console.log('  1. Resolve conflicts manually');
+  console.log(`Messages: ${range.fromMessageId}..${range.toMessageId}`);
   console.log(
-    `  2. Use: git --git-dir "${snapshotDir}" --work-tree "${projectDir}" diff "${hash}" -- "${filePath}" | git apply -R --reject`,
+    `Snapshots: ${range.before.slice(0, 12)}..${range.after.slice(0, 12)}`,
   );
-  console.log('     (Creates .rej files for conflicts)');
+  console.log('');
+  process.stdout.write(range.diff || 'No changes\n');
+}
+
+/**
+ * Show everything a task changed: the session plus the sessions it spawned,
+ * from the snapshot before their first change to the one after their last.
+ */
+export async function agent_task_diff(
+  sessionId: string,
+  filePath?: string,
+): Promise<void> {
+  if (!sessionId) {
+    throw new UsageError('Usage: agent_task_diff <session_id> [file_path]');
+  }
+  if (!isValidSessionId(sessionId)) {
+    throw new CommandError('Invalid session ID format');
+  }
+  if (getSessionMessageIds(sessionId, store).length === 0) {
+    throw new CommandError(`No messages found in session: ${sessionId}`);
+  }
+
+  const task = getTaskDiff(sessionId, filePath, store);
+  if (!task) {
+    throw new CommandError(
+      `No file changes with available snapshots in task: ${sessionId}`,
+    );
+  }
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'task-diff', [
+      {
+        sessionId,
+        sessionIds: task.sessionIds,
+        messageIds: task.messageIds,
+        filePath: filePath ?? null,
+        from: task.before,
+        to: task.after,
+        files: parseUnifiedDiff(task.diff),
+      },
+    ]);
+    return;
+  }
+
+  console.log(`Sessions: ${task.sessionIds.join(', ')}`);
+  console.log(`Messages with changes: ${task.messageIds.length}`);
+  console.log(
+    `Snapshots: ${task.before.slice(0, 12)}..${task.after.slice(0, 12)}`,
+  );
+  console.log('');
+  process.stdout.write(task.diff);
+}
+
+export async function agent_message_tools(
+  msgId: string,
+  maxOutputLines: number | undefined = 20,
+): Promise<void> {
+  if (!msgId) {
+    throw new UsageError('Usage: agent_message_tools <message_id> [max_lines]');
+  }
+
+  if (!isValidMessageId(msgId)) {
+    throw new CommandError('Invalid message ID format');
+  }
+
+  if (!findMessageFile(msgId, store)) {
+    throw new CommandError(`Message not found: ${msgId}`);
+  }
+
+  const calls = getMessageToolCalls(msgId, store);
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'tool-call', calls);
+    return;
+  }
+
+  if (calls.length === 0) {
+    console.log(`No tool calls in message: ${msgId}`);
+    return;
+  }
+
+  console.log(`Tool calls in message: ${msgId}`);
+  console.log('');
+
+  calls.forEach((call, i) => {
+    const summary = getToolCallSummary(call);
+    console.log(
+      `[${i + 1}] ${call.tool} (${call.status})${summary ? ` ${summary}` : ''}`,
+    );
+    if (call.callId) {
+      console.log(`  Call: ${call.callId}`);
+    }
+    if (call.start !== null) {
+      const duration =
+        call.end !== null ? ` (${call.end - call.start} ms)` : '';
+      console.log(`  Time: ${formatTimestamp(call.start)}${duration}`);
+    }
+
+    const inputs = Object.entries(call.input);
+    if (inputs.length > 0) {
+      console.log('  Input:');
+      for (const [key, value] of inputs) {
+        const formatted = formatInputValue(value);
+        if (formatted.includes('\n')) {
+          console.log(`    ${key}:`);
+          console.log(
+            indent(truncateLines(formatted, maxOutputLines), '      '),
+          );
+        } else {
+          console.log(`    ${key}: ${formatted}`);
+        }
+      }
+    }
+
+    if (call.output) {
+      console.log('  Output:');
+      console.log(indent(truncateLines(call.output, maxOutputLines), '    '));
+    }
+    if (call.error) {
+      console.log('  Error:');
+      console.log(indent(truncateLines(call.error, maxOutputLines), '    '));
+    }
+    console.log('');
+  });
+
+  console.log(`Total: ${calls.length} tool call(s)`);
+}
+
+const REVERT_LABELS: Record<RevertOutcome, [dryRun: string, done: string]> = {
+  reverted: ['would revert', 'reverted'],
+  merged: ['would merge', 'merged'],
+  conflict: ['would conflict', 'conflict'],
+  'already-reverted': ['already reverted', 'already reverted'],
+  failed: ['cannot revert', 'failed'],
+};
+
+function printRevertResult(result: RevertResult): void {
+  const width = Math.max(
+    ...Object.values(REVERT_LABELS).map(([a, b]) =>
+      Math.max(a.length, b.length),
+    ),
+  );
+  for (const file of result.files) {
+    const label = REVERT_LABELS[file.outcome][result.dryRun ? 0 : 1];
+    const reason = file.message ? ` (${file.message})` : '';
+    console.log(`  ${label.padEnd(width)}  ${file.path}${reason}`);
+  }
+  console.log('');
+
+  const counts = (outcome: RevertOutcome) =>
+    result.files.filter((file) => file.outcome === outcome).length;
+  console.log(
+    `${result.dryRun ? 'Would revert' : 'Reverted'} ${counts('reverted')}, ` +
+      `merged ${counts('merged')}, conflicts ${counts('conflict')}, ` +
+      `already reverted ${counts('already-reverted')}, failed ${counts('failed')}`,
+  );
+}
+
+/**
+ * Revert every file changed by a message, or by a range of messages in a
+ * session. A dry run is always computed first and shown before asking for
+ * confirmation.
+ */
+export async function agent_revert(
+  target: RevertTarget,
+  options: Pick<RevertOptions, 'dryRun' | 'threeWay' | 'paths'> = {},
+  assumeYes = false,
+): Promise<void> {
+  if ('messageId' in target) {
+    if (!isValidMessageId(target.messageId)) {
+      throw new CommandError('Invalid message ID format');
+    }
+  } else {
+    if (!isValidSessionId(target.sessionId)) {
+      throw new CommandError('Invalid session ID format');
+    }
+    for (const msgId of [target.fromMessageId, target.toMessageId]) {
+      if (msgId && !isValidMessageId(msgId)) {
+        throw new CommandError('Invalid message ID format');
+      }
+    }
+  }
+
+  let plan: RevertResult;
+  let range;
+  try {
+    range = getRevertRange(target, store);
+    plan = revertRange(range, { ...options, dryRun: true }, store);
+  } catch (error) {
+    if (error instanceof RevertError) {
+      throw new CommandError(error.message);
+    }
+    throw error;
+  }
+
+  if (plan.files.length === 0) {
+    throw new CommandError(
+      options.paths?.length
+        ? `No changes found to revert in: ${options.paths.join(', ')}`
+        : 'No changes found to revert',
+    );
+  }
+
+  if (outputFormat !== 'text' && !options.dryRun && !assumeYes) {
+    throw new UsageError(
+      'Reverting with machine-readable output requires confirmation up front (--yes)',
+    );
+  }
+
+  if (outputFormat === 'text') {
+    console.log(`Messages: ${range.messageIds.join(', ')}`);
+    console.log(
+      `Snapshots: ${range.before.slice(0, 12)}..${range.after.slice(0, 12)}`,
+    );
+    console.log('');
+    printRevertResult(plan);
+  }
+
+  if (options.dryRun) {
+    if (outputFormat !== 'text') {
+      writeRecords(outputFormat, 'revert-summary', [plan]);
+    }
+    return;
+  }
+
+  const pending = plan.files.filter(
+    (file) => file.outcome !== 'already-reverted' && file.outcome !== 'failed',
+  );
+  if (pending.length === 0) {
+    if (outputFormat !== 'text') {
+      writeRecords(outputFormat, 'revert-summary', [plan]);
+    }
+    if (plan.files.some((file) => file.outcome === 'failed')) {
+      throw new CommandError(
+        options.threeWay
+          ? 'Nothing could be reverted'
+          : 'Nothing could be reverted cleanly (try --3way)',
+      );
+    }
+    return;
+  }
+
+  if (!assumeYes) {
+    console.log('');
+    const response = await prompt(`Revert ${pending.length} file(s)? (y/N): `);
+    if (!['y', 'Y'].includes(response)) {
+      console.log('Cancelled');
+      return;
+    }
+  }
+
+  const result = revertRange(range, options, store);
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'revert-summary', [result]);
+  } else {
+    console.log('');
+    printRevertResult(result);
+    if (result.journalId) {
+      console.log(`Undo with: oc-hist undo-revert ${result.journalId}`);
+    }
+  }
+
+  const unresolved = result.files.filter(
+    (file) => file.outcome === 'conflict' || file.outcome === 'failed',
+  ).length;
+  if (unresolved > 0) {
+    throw new CommandError(`${unresolved} file(s) were not reverted cleanly`);
+  }
+}
+
+export async function agent_reverts(limit = 10): Promise<void> {
+  const entries = listRevertJournal(store).slice(0, limit);
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'revert-journal-entry', entries);
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log('No reverts recorded');
+    return;
+  }
+
+  console.log('Recent reverts:');
+  console.log('');
+
+  for (const entry of entries) {
+    const state = entry.undoneAt
+      ? `undone ${formatTimestamp(entry.undoneAt)}`
+      : 'in effect';
+    console.log(`[${entry.id}]`);
+    console.log(`  Time: ${formatTimestamp(entry.createdAt)} | ${state}`);
+    console.log(`  Project: ${entry.projectDir}`);
+    console.log(`  Messages: ${entry.messageIds.join(', ')}`);
+    console.log(`  Files: ${entry.files.map((file) => file.path).join(', ')}`);
+    console.log('');
+  }
+}
+
+/**
+ * Restore the files overwritten by a revert (the latest one still in effect
+ * unless an ID from `agent_reverts` is given).
+ */
+export async function agent_undo_revert(
+  revertId?: string,
+  options: UndoRevertOptions = {},
+): Promise<void> {
+  let result;
+  try {
+    result = undoRevert(revertId, options, store);
+  } catch (error) {
+    if (error instanceof RevertError) {
+      throw new CommandError(error.message);
+    }
+    throw error;
+  }
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'undo-revert-result', [result]);
+    return;
+  }
+
+  const verb = result.dryRun ? 'Would undo' : 'Undid';
+  console.log(
+    `${verb} revert ${result.entry.id} (${formatTimestamp(result.entry.createdAt)})`,
+  );
+  console.log('');
+  for (const file of result.files) {
+    console.log(`  ${file.action.padEnd(9)}  ${file.path}`);
+  }
+}
+
+export interface RestoreFileOptions {
+  /** Restore the file as it was before the message (default: after). */
+  at?: SnapshotPoint;
+  /** Print the content instead of writing it. */
+  stdout?: boolean;
+  /** Write to this path instead of the project work tree. */
+  outputPath?: string;
+}
+
+/**
+ * Restore a file exactly as it was at a message, from the snapshot tree.
+ * Writing to the work tree shows a diff preview first and backs the current
+ * file up to the revert log.
+ */
+export async function agent_restore_file(
+  msgId: string,
+  filePath: string,
+  options: RestoreFileOptions = {},
+  assumeYes = false,
+): Promise<void> {
+  if (!msgId || !filePath) {
+    throw new UsageError('Usage: agent_restore_file <message_id> <file_path>');
+  }
+
+  if (!isValidMessageId(msgId)) {
+    throw new CommandError('Invalid message ID format');
+  }
+
+  if (!isValidFilePath(filePath)) {
+    throw new CommandError(`Invalid file path: ${filePath}`);
+  }
+
+  if (!findMessageFile(msgId, store)) {
+    throw new CommandError(`Message not found: ${msgId}`);
+  }
+
+  const at = options.at ?? 'after';
+  let file;
+  try {
+    file = getFileAtMessage(msgId, filePath, at, store);
+  } catch (error) {
+    if (error instanceof SnapshotReadError) {
+      throw new CommandError(error.message);
+    }
+    throw error;
+  }
+  if (!file) {
+    throw new CommandError(`Snapshot not available for message: ${msgId}`);
+  }
+  if (!file.content) {
+    throw new CommandError(
+      `File '${filePath}' did not exist ${at} message ${msgId}`,
+    );
+  }
+
+  const record = {
+    messageId: msgId,
+    filePath: file.filePath,
+    at,
+    snapshot: file.snapshot,
+  };
+
+  if (options.stdout) {
+    process.stdout.write(file.content);
+    return;
+  }
+
+  if (options.outputPath) {
+    try {
+      fs.writeFileSync(options.outputPath, file.content);
+    } catch (error) {
+      throw new CommandError(
+        `Could not write ${options.outputPath}: ${(error as Error).message}`,
+      );
+    }
+    if (outputFormat === 'text') {
+      console.log(
+        `Wrote ${file.filePath} (${at} ${msgId}) to ${options.outputPath}`,
+      );
+    } else {
+      writeRecords(outputFormat, 'restore-result', [
+        {
+          ...record,
+          destination: options.outputPath,
+          written: true,
+          journalId: null,
+        },
+      ]);
+    }
+    return;
+  }
+
+  const projectDir = file.projectDir;
+  if (!projectDir || !fs.existsSync(projectDir)) {
+    throw new CommandError('Could not find project directory');
+  }
+
+  const preview = getRestoreDiff(file);
+  if (preview === null) {
+    throw new CommandError('Failed to compute diff against the current file');
+  }
+
+  if (!preview.trim()) {
+    if (outputFormat === 'text') {
+      console.log(`${file.filePath} already matches ${at} ${msgId}`);
+    } else {
+      writeRecords(outputFormat, 'restore-result', [
+        { ...record, destination: 'worktree', written: false, journalId: null },
+      ]);
+    }
+    return;
+  }
+
+  if (outputFormat === 'text') {
+    console.log(`Changes to restore ${file.filePath} to ${at} ${msgId}:`);
+    console.log('');
+    process.stdout.write(preview);
+    console.log('');
+  } else if (!assumeYes) {
+    throw new UsageError(
+      'Restoring with machine-readable output requires confirmation up front (--yes)',
+    );
+  }
+
+  if (!assumeYes) {
+    const response = await prompt('Restore this file? (y/N): ');
+    if (!['y', 'Y'].includes(response)) {
+      console.log('Cancelled');
+      return;
+    }
+  }
+
+  const target = path.join(projectDir, file.filePath);
+  const backup = createRevertBackup(
+    projectDir,
+    [msgId],
+    [file.filePath],
+    store,
+  );
+  try {
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.content);
+  } catch (error) {
+    discardRevertBackup(backup, store);
+    throw new CommandError(
+      `Could not write ${target}: ${(error as Error).message}`,
+    );
+  }
+  const journal = finishRevertBackup(backup, [file.filePath], store);
+
+  if (outputFormat === 'text') {
+    console.log(`✓ Restored ${file.filePath} to ${at} ${msgId}`);
+    if (journal) {
+      console.log(`  Undo with: oc-hist undo-revert ${journal.id}`);
+    }
+  } else {
+    writeRecords(outputFormat, 'restore-result', [
+      {
+        ...record,
+        destination: 'worktree',
+        written: true,
+        journalId: journal?.id ?? null,
+      },
+    ]);
+  }
+}
+
+/** Width of the session title column in `blame` output. */
+const BLAME_TITLE_WIDTH = 24;
+
+export async function agent_blame(filePath: string): Promise<void> {
+  if (!filePath) {
+    throw new UsageError('Usage: agent_blame <file_path>');
+  }
+
+  if (!fs.existsSync(filePath)) {
+    throw new CommandError(`File not found: ${filePath}`);
+  }
+
+  let blame;
+  try {
+    blame = blameFile(filePath, store);
+  } catch (error) {
+    if (error instanceof SnapshotReadError) {
+      throw new CommandError(error.message);
+    }
+    throw error;
+  }
+  if (!blame) {
+    throw new CommandError(
+      `File is not in a known OpenCode project: ${filePath}`,
+    );
+  }
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'blame', [blame]);
+    return;
+  }
+
+  const idWidth = Math.max(
+    'human/unknown'.length,
+    ...blame.lines.map((line) => line.messageId?.length ?? 0),
+  );
+  const numberWidth = String(blame.lines.length).length;
+
+  for (const line of blame.lines) {
+    let title = line.sessionTitle ?? '';
+    if (title.length > BLAME_TITLE_WIDTH) {
+      title = `${title.slice(0, BLAME_TITLE_WIDTH - 1)}…`;
+    }
+    console.log(
+      [
+        (line.messageId ?? 'human/unknown').padEnd(idWidth),
+        title.padEnd(BLAME_TITLE_WIDTH),
+        (line.timestamp ?? '').padEnd(16),
+        `${String(line.line).padStart(numberWidth)})`,
+        line.content,
+      ].join(' '),
+    );
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function printUsageTotals(totals: UsageTotals, filesTouched: number): void {
+  const { tokens } = totals;
+  console.log(
+    `  Messages: ${totals.messages} (${totals.assistantTurns} assistant turns)`,
+  );
+  console.log(
+    `  Changes: ${filesTouched} file(s), +${totals.insertions} -${totals.deletions}`,
+  );
+  console.log(
+    `  Tokens: ${tokens.input} input, ${tokens.output} output, ${tokens.reasoning} reasoning, ${tokens.cacheRead} cache read, ${tokens.cacheWrite} cache write`,
+  );
+  console.log(`  Cost: $${totals.cost.toFixed(4)}`);
+  console.log(`  Duration: ${formatDuration(totals.durationMs)}`);
+  if (totals.models.length > 0) {
+    console.log(`  Models: ${totals.models.join(', ')}`);
+  }
+}
+
+/**
+ * Print usage stats for one session (with `task`, summed with the sessions it
+ * spawned), for every session matching `options`, or (with `rollup`) for
+ * those sessions summed per project and week.
+ */
+export async function agent_stats(
+  sessionId?: string,
+  filter: ListFilterOptions = {},
+  rollup = false,
+  task = false,
+): Promise<void> {
+  if (sessionId && task) {
+    if (!isValidSessionId(sessionId)) {
+      throw new CommandError('Invalid session ID format');
+    }
+    const stats = getTaskStats(sessionId, store);
+    if (!stats) {
+      throw new CommandError(`Session not found: ${sessionId}`);
+    }
+    if (outputFormat !== 'text') {
+      writeRecords(outputFormat, 'task-stats', [stats]);
+      return;
+    }
+    console.log(`[${stats.sessionId}] ${stats.title} (whole task)`);
+    console.log(`  Sessions: ${stats.sessionIds.join(', ')}`);
+    printUsageTotals(stats, stats.filesTouched.length);
+    if (stats.missingDiffs > 0) {
+      console.log(
+        `  (${stats.missingDiffs} message(s) without snapshots not counted in changes)`,
+      );
+    }
+    return;
+  }
+
+  if (sessionId) {
+    if (!isValidSessionId(sessionId)) {
+      throw new CommandError('Invalid session ID format');
+    }
+    const stats = getSessionStats(sessionId, store);
+    if (!stats) {
+      throw new CommandError(`Session not found: ${sessionId}`);
+    }
+    if (outputFormat !== 'text') {
+      writeRecords(outputFormat, 'session-stats', [stats]);
+      return;
+    }
+    console.log(`[${stats.sessionId}] ${stats.title}`);
+    printUsageTotals(stats, stats.filesTouched.length);
+    if (stats.missingDiffs > 0) {
+      console.log(
+        `  (${stats.missingDiffs} message(s) without snapshots not counted in changes)`,
+      );
+    }
+    return;
+  }
+
+  const sessions = listSessionStats(toSessionFilter(filter), store);
+
+  if (rollup) {
+    const rows = rollupSessionStats(sessions);
+    if (outputFormat !== 'text') {
+      writeRecords(outputFormat, 'stats-rollup', rows);
+      return;
+    }
+    if (rows.length === 0) {
+      console.log('No sessions found');
+      return;
+    }
+    for (const row of rows) {
+      const project = row.projectId
+        ? (getProjectDirectory(row.projectId, store) ?? row.projectId)
+        : '(no project)';
+      console.log(`[week of ${row.week}] ${project}`);
+      console.log(`  Sessions: ${row.sessions}`);
+      printUsageTotals(row, row.filesTouched);
+      console.log('');
+    }
+    return;
+  }
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'session-stats', sessions);
+    return;
+  }
+  if (sessions.length === 0) {
+    console.log('No sessions found');
+    return;
+  }
+  for (const stats of sessions) {
+    console.log(`[${stats.sessionId}] ${stats.title}`);
+    console.log(`  Started: ${formatTimestamp(stats.start)}`);
+    printUsageTotals(stats, stats.filesTouched.length);
+    console.log('');
+  }
+  console.log(`Total: ${sessions.length} session(s)`);
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KiB', 'MiB', 'GiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Report per-project storage counts and sizes, and what is broken: missing
+ * snapshot objects, deleted work trees and orphaned part directories.
+ */
+export async function agent_doctor(): Promise<void> {
+  const health = getStorageHealth(store);
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'storage-health', [health]);
+    return;
+  }
+
+  console.log(`Storage: ${health.storageRoot}`);
+  console.log(`Snapshots: ${health.snapshotRoot}`);
+  console.log('');
+
+  for (const project of health.projects) {
+    console.log(`[${project.projectId ?? '(no project)'}]`);
+    if (project.directory) {
+      const missing = project.directoryExists ? '' : ' (missing)';
+      console.log(`  Directory: ${project.directory}${missing}`);
+    }
+    console.log(
+      `  Sessions: ${project.sessions} | Messages: ${project.messages} | Parts: ${project.parts}`,
+    );
+    console.log(
+      `  Snapshot repo: ${project.snapshotBytes === null ? 'none' : formatBytes(project.snapshotBytes)}`,
+    );
+    if (project.missingSnapshots.length > 0) {
+      console.log(
+        `  ✗ ${project.missingSnapshots.length} message(s) with missing snapshots: ${project.missingSnapshots.join(', ')}`,
+      );
+    }
+    if (project.sessionsWithoutDirectory.length > 0) {
+      console.log(
+        `  ✗ ${project.sessionsWithoutDirectory.length} session(s) whose directory is gone: ${project.sessionsWithoutDirectory.join(', ')}`,
+      );
+    }
+    console.log('');
+  }
+
+  if (health.orphanedPartDirs.length > 0) {
+    console.log(
+      `✗ ${health.orphanedPartDirs.length} orphaned part dir(s) with no message: ${health.orphanedPartDirs.join(', ')}`,
+    );
+    console.log('  Remove with: oc-hist gc --prune-orphans');
+  } else {
+    console.log('No orphaned part dirs');
+  }
+
+  if (health.orphanedSessions.length > 0) {
+    console.log(
+      `✗ ${health.orphanedSessions.length} session(s) whose project directory is gone`,
+    );
+    console.log('  Remove with: oc-hist gc --prune-sessions');
+  } else {
+    console.log('No sessions without a project directory');
+  }
+}
+
+/**
+ * Prune orphaned part directories and sessions and/or repack snapshot repos.
+ * A dry run is shown before asking for confirmation.
+ */
+export async function agent_gc(
+  options: GcOptions = {},
+  assumeYes = false,
+): Promise<void> {
+  if (
+    !options.pruneOrphans &&
+    !options.pruneSessions &&
+    !options.repackSnapshots
+  ) {
+    throw new UsageError(
+      'Nothing to do: pass --prune-orphans, --prune-sessions and/or --repack',
+    );
+  }
+
+  if (outputFormat !== 'text' && !options.dryRun && !assumeYes) {
+    throw new UsageError(
+      'Cleaning up with machine-readable output requires confirmation up front (--yes)',
+    );
+  }
+
+  const plan = collectGarbage({ ...options, dryRun: true }, store);
+  if (outputFormat === 'text') {
+    printGcResult(plan);
+  }
+
+  if (options.dryRun) {
+    if (outputFormat !== 'text') {
+      writeRecords(outputFormat, 'gc-result', [plan]);
+    }
+    return;
+  }
+
+  if (
+    plan.removedPartDirs.length === 0 &&
+    plan.removedSessions.length === 0 &&
+    plan.snapshots.length === 0
+  ) {
+    if (outputFormat !== 'text') {
+      writeRecords(outputFormat, 'gc-result', [plan]);
+    }
+    return;
+  }
+
+  if (!assumeYes) {
+    console.log('');
+    const response = await prompt('Proceed? (y/N): ');
+    if (!['y', 'Y'].includes(response)) {
+      console.log('Cancelled');
+      return;
+    }
+  }
+
+  const result = collectGarbage(options, store);
+
+  if (outputFormat !== 'text') {
+    writeRecords(outputFormat, 'gc-result', [result]);
+  } else {
+    console.log('');
+    printGcResult(result);
+  }
+
+  const failed = result.snapshots.filter((repack) => repack.error).length;
+  if (failed > 0) {
+    throw new CommandError(`${failed} snapshot repo(s) could not be repacked`);
+  }
+}
+
+function printGcResult(result: GcResult): void {
+  const verb = result.dryRun ? 'Would remove' : 'Removed';
+  if (result.removedPartDirs.length > 0) {
+    console.log(
+      `${verb} ${result.removedPartDirs.length} orphaned part dir(s) (${formatBytes(result.partBytes)})`,
+    );
+  }
+  if (result.removedSessions.length > 0) {
+    console.log(
+      `${verb} ${result.removedSessions.length} session(s) whose project directory is gone (${formatBytes(result.sessionBytes)}): ${result.removedSessions.join(', ')}`,
+    );
+  }
+  for (const repack of result.snapshots) {
+    if (repack.error) {
+      console.log(`  ✗ ${repack.projectId}: ${repack.error}`);
+    } else if (repack.bytesAfter === null) {
+      console.log(
+        `  Would repack ${repack.projectId} (${formatBytes(repack.bytesBefore)})`,
+      );
+    } else {
+      console.log(
+        `  Repacked ${repack.projectId}: ${formatBytes(repack.bytesBefore)} → ${formatBytes(repack.bytesAfter)}`,
+      );
+    }
+  }
 }
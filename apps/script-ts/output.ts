@@ -0,0 +1,177 @@
+import {
+  DiffFile,
+  DiffMode,
+  FileBlame,
+  FileHistoryEntry,
+  GcResult,
+  Message,
+  Project,
+  RevertJournalEntry,
+  RevertResult,
+  SearchHit,
+  Session,
+  SessionNode,
+  SessionStats,
+  SessionTranscript,
+  SnapshotPoint,
+  StatsRollup,
+  StorageHealth,
+  TaskStats,
+  ToolPart,
+  UndoRevertResult,
+} from '@oc-hist/shared';
+
+/**
+ * Version of the machine-readable output schema. Bumped only for breaking
+ * changes (removed or retyped fields); new fields may appear at any time.
+ */
+export const OUTPUT_SCHEMA_VERSION = 1;
+
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+export interface MessageDiffRecord {
+  messageId: string;
+  sessionId: string;
+  mode: DiffMode;
+  filePath: string | null;
+  /** Snapshot the diff starts from; null when the message changed no files. */
+  from: string | null;
+  /** Snapshot the diff ends at; null when compared with the work tree. */
+  to: string | null;
+  files: DiffFile[];
+}
+
+export interface RangeDiffRecord {
+  /** The earlier message; its `before` snapshot starts the diff. */
+  fromMessageId: string;
+  /** The later message; its `after` snapshot ends the diff. */
+  toMessageId: string;
+  filePath: string | null;
+  from: string;
+  to: string;
+  files: DiffFile[];
+}
+
+export interface TaskDiffRecord {
+  /** The task's top session. */
+  sessionId: string;
+  /** The session and its descendants, parents before children. */
+  sessionIds: string[];
+  /** Messages with changes across those sessions, oldest first. */
+  messageIds: string[];
+  filePath: string | null;
+  from: string;
+  to: string;
+  files: DiffFile[];
+}
+
+export interface RevertRecord {
+  messageId: string;
+  filePath: string;
+  reverted: boolean;
+  /** Revert log entry to pass to `undo-revert`. */
+  journalId: string | null;
+}
+
+export interface RestoreRecord {
+  messageId: string;
+  filePath: string;
+  at: SnapshotPoint;
+  /** Snapshot tree the content came from. */
+  snapshot: string;
+  /** `worktree`, or the path given with `--output`. */
+  destination: string;
+  /** False when the work tree file already matched. */
+  written: boolean;
+  /** Revert log entry to pass to `undo-revert`. */
+  journalId: string | null;
+}
+
+export interface ErrorRecord {
+  message: string;
+  exitCode: number;
+}
+
+/** Payload type of each record kind. */
+export interface OutputRecords {
+  /** `SessionNode` unless listed with `--flat`. */
+  session: Session | SessionNode;
+  project: Project;
+  message: Message;
+  'file-history-entry': FileHistoryEntry;
+  'message-diff': MessageDiffRecord;
+  'task-diff': TaskDiffRecord;
+  'range-diff': RangeDiffRecord;
+  'revert-result': RevertRecord;
+  transcript: SessionTranscript;
+  'search-hit': SearchHit;
+  'tool-call': ToolPart;
+  'revert-summary': RevertResult;
+  'revert-journal-entry': RevertJournalEntry;
+  'undo-revert-result': UndoRevertResult;
+  'restore-result': RestoreRecord;
+  blame: FileBlame;
+  'session-stats': SessionStats;
+  'task-stats': TaskStats;
+  'stats-rollup': StatsRollup;
+  'storage-health': StorageHealth;
+  'gc-result': GcResult;
+  error: ErrorRecord;
+}
+
+export type OutputKind = keyof OutputRecords;
+
+/** `--json` output: one document holding every record. */
+export interface JsonOutput<K extends OutputKind> {
+  schemaVersion: number;
+  kind: K;
+  data: OutputRecords[K][];
+}
+
+/** `--ndjson` output: one line per record. */
+export interface NdjsonOutputLine<K extends OutputKind> {
+  schemaVersion: number;
+  kind: K;
+  data: OutputRecords[K];
+}
+
+function formatRecords<K extends OutputKind>(
+  format: Exclude<OutputFormat, 'text'>,
+  kind: K,
+  records: OutputRecords[K][],
+): string {
+  if (format === 'json') {
+    const output: JsonOutput<K> = {
+      schemaVersion: OUTPUT_SCHEMA_VERSION,
+      kind,
+      data: records,
+    };
+    return `${JSON.stringify(output, null, 2)}\n`;
+  }
+
+  return records
+    .map((data) => {
+      const line: NdjsonOutputLine<K> = {
+        schemaVersion: OUTPUT_SCHEMA_VERSION,
+        kind,
+        data,
+      };
+      return `${JSON.stringify(line)}\n`;
+    })
+    .join('');
+}
+
+export function writeRecords<K extends OutputKind>(
+  format: Exclude<OutputFormat, 'text'>,
+  kind: K,
+  records: OutputRecords[K][],
+): void {
+  process.stdout.write(formatRecords(format, kind, records));
+}
+
+export function writeErrorRecord(
+  format: Exclude<OutputFormat, 'text'>,
+  error: ErrorRecord,
+): void {
+  process.stderr.write(formatRecords(format, 'error', [error]));
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture, runCli } from './fixture';
+
+describe('oc-hist', () => {
+  let fixture: CliFixture;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'user',
+      time: { created: Date.now() },
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('prints help and the version', async () => {
+    for (const args of [[], ['--help'], ['-h'], ['help']]) {
+      const result = await runCli(args);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Commands:');
+      expect(result.stdout).toContain('--data-dir <dir>');
+    }
+
+    const version = await runCli(['--version']);
+    expect(version.exitCode).toBe(0);
+    expect(version.stdout).toMatch(/^\d+\.\d+\.\d+\n$/);
+  });
+
+  it('prints the usage of a command', async () => {
+    for (const args of [
+      ['help', 'search'],
+      ['search', '--help'],
+    ]) {
+      const result = await runCli(args);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Usage: oc-hist search <query>');
+      for (const option of [
+        '--case-sensitive',
+        '--until <time>',
+        '--limit <n>',
+      ]) {
+        expect(result.stdout).toContain(option);
+      }
+    }
+  });
+
+  it('accepts global options before and after the command', async () => {
+    for (const args of [
+      ['--data-dir', fixture.dataDir, 'sessions'],
+      [`--data-dir=${fixture.dataDir}`, '--json', 'sessions'],
+      ['sessions', '--data-dir', fixture.dataDir],
+    ]) {
+      const result = await runCli(args);
+      expect(result.stderr).toBe('');
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('ses_1');
+    }
+  });
+
+  it('exits 2 on usage errors', async () => {
+    const cases: [string[], string][] = [
+      [['frobnicate'], "Unknown command 'frobnicate'"],
+      [['help', 'frobnicate'], "Unknown command 'frobnicate'"],
+      [['--json'], 'Missing command'],
+      [['sessions', '--bogus'], "Unknown option '--bogus'"],
+      [['message-diff'], 'Missing argument <message_id>'],
+      [['projects', 'extra'], "Unexpected argument 'extra'"],
+      [['sessions', '--limit', '0'], '--limit must be a positive integer'],
+      [['sessions', '--since', 'someday'], '--since must be a date'],
+      [['sessions', '--json', '--ndjson'], 'cannot be combined'],
+      [['search', 'x', '--role', 'robot'], '--role must be'],
+    ];
+    for (const [args, message] of cases) {
+      const result = await runCli([...args, '--data-dir', fixture.dataDir]);
+      expect(result.exitCode, args.join(' ')).toBe(2);
+      expect(result.stderr).toContain(message);
+    }
+  });
+
+  it('exits 1 when a lookup fails', async () => {
+    const result = await fixture.run('message-diff', 'msg_missing');
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toBe('Error: Message not found: msg_missing\n');
+  });
+
+  it('reports failures as error records in JSON modes', async () => {
+    const result = await fixture.run('message-diff', 'msg_missing', '--json');
+    expect(result.exitCode).toBe(1);
+    expect(JSON.parse(result.stderr)).toEqual({
+      schemaVersion: 1,
+      kind: 'error',
+      data: [{ message: 'Message not found: msg_missing', exitCode: 1 }],
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+const START = Date.UTC(2024, 0, 1);
+
+describe('diff command', () => {
+  let fixture: CliFixture;
+
+  const writeSession = (id: string, projectId = fixture.projectId) => {
+    fixture.writeStorage(`session/${projectId}/${id}.json`, {
+      id,
+      projectID: projectId,
+      directory: fixture.projectDir,
+      title: id,
+    });
+  };
+
+  const writeChange = (
+    sessionId: string,
+    msgId: string,
+    created: number,
+    file: string,
+    before: string,
+    after: string,
+  ) => {
+    fixture.writeStorage(`message/${sessionId}/${msgId}.json`, {
+      id: msgId,
+      sessionID: sessionId,
+      role: 'assistant',
+      time: { created },
+    });
+    fixture.writeStorage(`part/${msgId}/prt_${msgId}_1.json`, {
+      id: `prt_${msgId}_1`,
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, file)],
+    });
+    fixture.writeStorage(`part/${msgId}/prt_${msgId}_2.json`, {
+      id: `prt_${msgId}_2`,
+      type: 'step-finish',
+      snapshot: after,
+    });
+  };
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeFile('a.txt', 'one\n');
+    const first = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\n');
+    const second = fixture.snapshot();
+    fixture.writeFile('b.txt', 'new\n');
+    const third = fixture.snapshot();
+
+    writeSession('ses_1');
+    writeChange('ses_1', 'msg_1', START, 'a.txt', first, second);
+    writeSession('ses_2');
+    writeChange('ses_2', 'msg_2', START + 1000, 'b.txt', second, third);
+    writeSession('ses_3', 'proj2');
+    fixture.writeStorage('message/ses_3/msg_3.json', {
+      id: 'msg_3',
+      sessionID: 'ses_3',
+      role: 'user',
+      time: { created: START + 2000 },
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('diffs from one message to another', async () => {
+    const result = await fixture.run('diff', 'msg_1', 'msg_2');
+    expect(result.exitCode).toBe(0);
+    const lines = result.stdout.split('\n');
+    expect(lines[0]).toBe('Messages: msg_1..msg_2');
+    expect(lines[1]).toMatch(/^Snapshots: [0-9a-f]{12}\.\.[0-9a-f]{12}$/);
+    expect(result.stdout).toContain('-one\n+two');
+    expect(result.stdout).toContain('+new');
+  });
+
+  it("resolves session IDs to the session's first and last message", async () => {
+    const result = await fixture.run('diff', 'ses_2', 'ses_1', '--json');
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('range-diff');
+    const [record] = output.data;
+    expect(record).toMatchObject({
+      fromMessageId: 'msg_1',
+      toMessageId: 'msg_2',
+      filePath: null,
+    });
+    expect(
+      record.files.map((file: { newPath: string }) => file.newPath),
+    ).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('limits the diff to a file', async () => {
+    const result = await fixture.run('diff', 'msg_1', 'msg_2', 'a.txt');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('-one\n+two');
+    expect(result.stdout).not.toContain('b.txt');
+  });
+
+  it('fails for messages in different projects or that do not exist', async () => {
+    const crossProject = await fixture.run('diff', 'msg_1', 'msg_3');
+    expect(crossProject.exitCode).toBe(1);
+    expect(crossProject.stderr).toContain(
+      'Cannot diff msg_1..msg_3: messages are in different projects',
+    );
+
+    const missing = await fixture.run('diff', 'msg_1', 'msg_9');
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr).toContain('Message not found: msg_9');
+
+    const emptySession = await fixture.run('diff', 'ses_9', 'msg_1');
+    expect(emptySession.exitCode).toBe(1);
+    expect(emptySession.stderr).toContain(
+      'No messages found in session: ses_9',
+    );
+  });
+
+  it('requires both endpoints', async () => {
+    const result = await fixture.run('diff', 'msg_1');
+    expect(result.exitCode).toBe(2);
+  });
+});
@@ -0,0 +1,237 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { SessionTranscript } from '@oc-hist/shared';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { renderTranscript } from '../export';
+import { CliFixture, createCliFixture } from './fixture';
+
+const DIFF = [
+  'diff --git a/a.txt b/a.txt',
+  '--- a/a.txt',
+  '+++ b/a.txt',
+  '@@ -1 +1 @@',
+  '-one',
+  '+two',
+  '',
+].join('\n');
+
+function transcript(): SessionTranscript {
+  return {
+    id: 'ses_1',
+    title: 'Fix <b>bold</b> & more',
+    directory: '/work/project',
+    messages: [
+      {
+        id: 'msg_1',
+        role: 'user',
+        timestamp: '2024-01-01 10:00:00',
+        parts: [
+          {
+            type: 'text',
+            id: 'prt_1',
+            messageId: 'msg_1',
+            text: 'Change <script>alert(1)</script>\n',
+            synthetic: false,
+          },
+        ],
+        files: [],
+        diff: null,
+      },
+      {
+        id: 'msg_2',
+        role: 'assistant',
+        timestamp: '2024-01-01 10:00:05',
+        parts: [
+          {
+            type: 'reasoning',
+            id: 'prt_2',
+            messageId: 'msg_2',
+            text: 'Thinking it over',
+          },
+          {
+            type: 'tool',
+            id: 'prt_3',
+            messageId: 'msg_2',
+            tool: 'bash',
+            callId: 'call_1',
+            status: 'completed',
+            title: 'cat README',
+            input: { command: 'cat README' },
+            output: 'Use ```fences``` like this',
+            error: null,
+            start: null,
+            end: null,
+          },
+        ],
+        files: ['a.txt'],
+        diff: DIFF,
+      },
+      {
+        id: 'msg_3',
+        role: 'assistant',
+        timestamp: '2024-01-01 10:00:09',
+        parts: [],
+        files: ['b.txt'],
+        diff: null,
+      },
+    ],
+  };
+}
+
+describe('renderTranscript', () => {
+  it('renders Markdown with a header, one section per message and diffs', () => {
+    const output = renderTranscript(transcript(), 'md');
+    expect(output.startsWith('# Fix <b>bold</b> & more\n')).toBe(true);
+    expect(output).toContain('- Session: `ses_1`');
+    expect(output).toContain('- Directory: `/work/project`');
+    expect(output).toContain('- Messages: 3');
+    expect(output).toContain('## User · 2024-01-01 10:00:00');
+    expect(output).toContain('## Assistant · 2024-01-01 10:00:05');
+    expect(output).toContain('<summary>Reasoning</summary>');
+    expect(output).toContain(
+      '<summary>Tool: bash — cat README (completed)</summary>',
+    );
+    expect(output).toContain(`**Changed files:** \`a.txt\``);
+    expect(output).toContain(`\`\`\`diff\n${DIFF}\`\`\``);
+    expect(output).toContain('_Diff not available (snapshot missing)._');
+    expect(output.endsWith('\n')).toBe(true);
+  });
+
+  it('fences tool output with more backticks than it contains', () => {
+    const output = renderTranscript(transcript(), 'md');
+    expect(output).toContain('````\nUse ```fences``` like this\n````');
+  });
+
+  it('escapes HTML in the title, text, tool output and diff', () => {
+    const output = renderTranscript(transcript(), 'html');
+    expect(output.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(output).toContain(
+      '<title>Fix &lt;b&gt;bold&lt;/b&gt; &amp; more</title>',
+    );
+    expect(output).toContain(
+      '<div class="text">Change &lt;script&gt;alert(1)&lt;/script&gt;</div>',
+    );
+    expect(output).not.toContain('<script>');
+    expect(output).toContain('<section class="message assistant" id="msg_2">');
+    expect(output).toContain('<span class="meta">--- a/a.txt</span>');
+    expect(output).toContain('<span class="hunk">@@ -1 +1 @@</span>');
+    expect(output).toContain('<span class="del">-one</span>');
+    expect(output).toContain('<span class="add">+two</span>');
+    expect(output).toContain(
+      '<p class="missing">Diff not available (snapshot missing).</p>',
+    );
+  });
+});
+
+describe('export command', () => {
+  let fixture: CliFixture;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Export me',
+    });
+
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\n');
+    const after = fixture.snapshot();
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'user',
+      time: { created: 1000 },
+    });
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'text',
+      text: 'Please change a.txt',
+    });
+    fixture.writeStorage('message/ses_1/msg_2.json', {
+      id: 'msg_2',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created: 2000 },
+    });
+    fixture.writeStorage('part/msg_2/prt_2.json', {
+      id: 'prt_2',
+      type: 'tool',
+      tool: 'edit',
+      callID: 'call_1',
+      state: { status: 'completed', input: { filePath: 'a.txt' } },
+    });
+    fixture.writeStorage('part/msg_2/prt_3.json', {
+      id: 'prt_3',
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, 'a.txt')],
+    });
+    fixture.writeStorage('part/msg_2/prt_4.json', {
+      id: 'prt_4',
+      type: 'step-finish',
+      snapshot: after,
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('writes Markdown to stdout by default', async () => {
+    const result = await fixture.run('export', 'ses_1');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('# Export me');
+    expect(result.stdout).toContain('Please change a.txt');
+    expect(result.stdout).toContain(
+      '<summary>Tool: edit (completed)</summary>',
+    );
+    expect(result.stdout).toContain('-one\n+two');
+  });
+
+  it('writes HTML to --output and reports the message count', async () => {
+    const output = path.join(fixture.root, 'out.html');
+    const result = await fixture.run(
+      'export',
+      'ses_1',
+      '--format',
+      'html',
+      '--output',
+      output,
+    );
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe(`Exported 2 message(s) to ${output}`);
+    const html = fs.readFileSync(output, 'utf8');
+    expect(html).toContain('<title>Export me</title>');
+    expect(html).toContain('<span class="add">+two</span>');
+  });
+
+  it('writes the transcript record with --json', async () => {
+    const result = await fixture.run('export', 'ses_1', '--json');
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output).toMatchObject({ schemaVersion: 1, kind: 'transcript' });
+    expect(output.data).toHaveLength(1);
+    const [record] = output.data;
+    expect(record).toMatchObject({ id: 'ses_1', title: 'Export me' });
+    expect(
+      record.messages.map((message: { id: string; files: string[] }) => [
+        message.id,
+        message.files,
+      ]),
+    ).toEqual([
+      ['msg_1', []],
+      ['msg_2', ['a.txt']],
+    ]);
+    expect(record.messages[1].diff).toContain('+two');
+  });
+
+  it('rejects an unknown format with exit code 2', async () => {
+    const result = await fixture.run('export', 'ses_1', '--format', 'pdf');
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr).toContain('--format must be one of: md, html');
+  });
+});
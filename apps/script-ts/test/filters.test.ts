@@ -0,0 +1,108 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+describe('list filters', () => {
+  let fixture: CliFixture;
+  let otherDir: string;
+
+  const writeSession = (
+    id: string,
+    title: string,
+    projectId: string,
+    directory: string,
+    created: number,
+  ) => {
+    fixture.writeStorage(`session/${projectId}/${id}.json`, {
+      id,
+      projectID: projectId,
+      directory,
+      title,
+    });
+    fixture.writeStorage(`message/${id}/msg_${id}.json`, {
+      id: `msg_${id}`,
+      sessionID: id,
+      role: 'user',
+      time: { created },
+    });
+  };
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    otherDir = path.join(fixture.root, 'other');
+    fs.mkdirSync(otherDir);
+    writeSession(
+      'ses_1',
+      'Fix login',
+      fixture.projectId,
+      fixture.projectDir,
+      new Date(2024, 0, 1, 12).getTime(),
+    );
+    writeSession(
+      'ses_2',
+      'Write docs',
+      fixture.projectId,
+      fixture.projectDir,
+      new Date(2024, 0, 5, 12).getTime(),
+    );
+    writeSession(
+      'ses_3',
+      'Fix docs build',
+      'proj2',
+      otherDir,
+      new Date(2024, 0, 9, 12).getTime(),
+    );
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  const sessionIds = async (...args: string[]) => {
+    const result = await fixture.run('sessions', '--flat', '--json', ...args);
+    expect(result.exitCode).toBe(0);
+    return JSON.parse(result.stdout).data.map(
+      (session: { id: string }) => session.id,
+    );
+  };
+
+  it('lists sessions by their last message time', async () => {
+    expect(await sessionIds()).toEqual(['ses_3', 'ses_2', 'ses_1']);
+  });
+
+  it('filters on dates, including the whole --until day', async () => {
+    expect(await sessionIds('--since', '2024-01-05')).toEqual([
+      'ses_3',
+      'ses_2',
+    ]);
+    expect(await sessionIds('--until', '2024-01-05')).toEqual([
+      'ses_2',
+      'ses_1',
+    ]);
+  });
+
+  it('filters on a project ID or directory and on the title', async () => {
+    expect(await sessionIds('--project', 'proj2')).toEqual(['ses_3']);
+    expect(await sessionIds('--project', fixture.projectDir)).toEqual([
+      'ses_2',
+      'ses_1',
+    ]);
+    expect(await sessionIds('--title', 'FIX')).toEqual(['ses_3', 'ses_1']);
+  });
+
+  it('rejects bad filter values', async () => {
+    const badTime = await fixture.run('sessions', '--since', 'yesterday');
+    expect(badTime.exitCode).toBe(2);
+    expect(badTime.stderr).toContain('--since must be a date');
+
+    const unknown = await fixture.run(
+      'sessions',
+      '--project',
+      path.join(fixture.root, 'missing'),
+    );
+    expect(unknown.exitCode).toBe(1);
+    expect(unknown.stderr).toContain('Not a known project ID or a directory');
+  });
+});
@@ -0,0 +1,130 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { format } from 'node:util';
+import { execFileSync } from 'node:child_process';
+import { vi } from 'vitest';
+
+import { main } from '../cli';
+
+export interface CliResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run the CLI with these arguments, capturing what it prints.
+ */
+export async function runCli(args: string[]): Promise<CliResult> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const spies = [
+    vi.spyOn(console, 'log').mockImplementation((...values) => {
+      stdout.push(`${format(...values)}\n`);
+    }),
+    vi.spyOn(console, 'error').mockImplementation((...values) => {
+      stderr.push(`${format(...values)}\n`);
+    }),
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      stdout.push(String(chunk));
+      return true;
+    }),
+    vi.spyOn(process.stderr, 'write').mockImplementation((chunk) => {
+      stderr.push(String(chunk));
+      return true;
+    }),
+  ];
+  try {
+    const exitCode = await main(args);
+    return { exitCode, stdout: stdout.join(''), stderr: stderr.join('') };
+  } finally {
+    spies.forEach((spy) => spy.mockRestore());
+  }
+}
+
+/**
+ * A throwaway OpenCode data directory with one project, plus a way to run
+ * `oc-hist` against it.
+ */
+export interface CliFixture {
+  root: string;
+  dataDir: string;
+  stateDir: string;
+  projectId: string;
+  projectDir: string;
+  /** Write a project file (project-relative path). */
+  writeFile(filePath: string, content: string): void;
+  readFile(filePath: string): string | null;
+  /** Snapshot the project work tree the way OpenCode does; returns the tree hash. */
+  snapshot(): string;
+  /** Write a JSON file under the storage root. */
+  writeStorage(relativePath: string, data: Record<string, unknown>): void;
+  /** Run the CLI with `--data-dir` pointing at the fixture. */
+  run(...args: string[]): Promise<CliResult>;
+  cleanup(): void;
+}
+
+export function createCliFixture(projectId = 'proj1'): CliFixture {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'oc-hist-cli-test-'));
+  const dataDir = path.join(root, 'data');
+  const stateDir = path.join(root, 'state');
+  const projectDir = path.join(root, 'project');
+  const snapshotDir = path.join(dataDir, 'snapshot', projectId);
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.mkdirSync(snapshotDir, { recursive: true });
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, {
+      env: { ...process.env, GIT_DIR: snapshotDir, GIT_WORK_TREE: projectDir },
+      encoding: 'utf8',
+    }).trim();
+  git('init', '-q');
+
+  // Keep the index cache and revert log out of the user's directories
+  const env = {
+    OC_HIST_CACHE_DIR: process.env.OC_HIST_CACHE_DIR,
+    OC_HIST_STATE_DIR: process.env.OC_HIST_STATE_DIR,
+  };
+  process.env.OC_HIST_CACHE_DIR = path.join(root, 'cache');
+  process.env.OC_HIST_STATE_DIR = stateDir;
+
+  return {
+    root,
+    dataDir,
+    stateDir,
+    projectId,
+    projectDir,
+    writeFile(filePath, content) {
+      const target = path.join(projectDir, filePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+    },
+    readFile(filePath) {
+      const target = path.join(projectDir, filePath);
+      return fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : null;
+    },
+    snapshot() {
+      git('add', '--all', '.');
+      return git('write-tree');
+    },
+    writeStorage(relativePath, data) {
+      const target = path.join(dataDir, 'storage', relativePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, JSON.stringify(data));
+    },
+    run(...args) {
+      return runCli([...args, '--data-dir', dataDir]);
+    },
+    cleanup() {
+      for (const [name, value] of Object.entries(env)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+      fs.rmSync(root, { recursive: true, force: true });
+    },
+  };
+}
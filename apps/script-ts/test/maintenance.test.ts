@@ -0,0 +1,109 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+describe('doctor and gc', () => {
+  let fixture: CliFixture;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Kept',
+    });
+    fixture.writeStorage(`session/${fixture.projectId}/ses_2.json`, {
+      id: 'ses_2',
+      projectID: fixture.projectId,
+      directory: path.join(fixture.root, 'deleted-worktree'),
+      title: 'Work tree deleted',
+    });
+    fixture.writeFile('a.txt', 'one\n');
+    const snapshot = fixture.snapshot();
+    for (const [id, sessionId] of [
+      ['msg_1', 'ses_1'],
+      ['msg_2', 'ses_2'],
+    ]) {
+      fixture.writeStorage(`message/${sessionId}/${id}.json`, {
+        id,
+        sessionID: sessionId,
+        role: 'assistant',
+        time: { created: 1000 },
+      });
+      fixture.writeStorage(`part/${id}/prt_${id}.json`, {
+        id: `prt_${id}`,
+        type: 'patch',
+        hash: snapshot,
+      });
+    }
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  const messageDir = (sessionId: string) =>
+    path.join(fixture.dataDir, 'storage', 'message', sessionId);
+
+  it('reports the storage per project', async () => {
+    const result = await fixture.run('doctor');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(`[${fixture.projectId}]`);
+    expect(result.stdout).toContain(`  Directory: ${fixture.projectDir}`);
+    expect(result.stdout).toContain('  Sessions: 2 | Messages: 2 | Parts: 2');
+    expect(result.stdout).toContain(
+      '  ✗ 1 session(s) whose directory is gone: ses_2',
+    );
+    expect(result.stdout).toContain('No orphaned part dirs');
+    expect(result.stdout).toContain('Remove with: oc-hist gc --prune-sessions');
+
+    const json = await fixture.run('doctor', '--json');
+    const output = JSON.parse(json.stdout);
+    expect(output.kind).toBe('storage-health');
+    expect(output.data[0].orphanedSessions).toEqual(['ses_2']);
+  });
+
+  it('prunes sessions whose work tree is gone', async () => {
+    const dryRun = await fixture.run('gc', '--prune-sessions', '--dry-run');
+    expect(dryRun.exitCode).toBe(0);
+    expect(dryRun.stdout).toMatch(
+      /^Would remove 1 session\(s\) whose project directory is gone \(.*\): ses_2$/m,
+    );
+    expect(fs.existsSync(messageDir('ses_2'))).toBe(true);
+
+    const result = await fixture.run(
+      'gc',
+      '--prune-sessions',
+      '--yes',
+      '--json',
+    );
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('gc-result');
+    expect(output.data[0]).toMatchObject({
+      dryRun: false,
+      removedSessions: ['ses_2'],
+    });
+    expect(fs.existsSync(messageDir('ses_2'))).toBe(false);
+    expect(fs.existsSync(messageDir('ses_1'))).toBe(true);
+  });
+
+  it('repacks snapshot repos', async () => {
+    const result = await fixture.run('gc', '--repack', '--yes');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(`  Repacked ${fixture.projectId}: `);
+  });
+
+  it('needs a step, and --yes with machine-readable output', async () => {
+    const nothing = await fixture.run('gc');
+    expect(nothing.exitCode).toBe(2);
+    expect(nothing.stderr).toContain('Nothing to do');
+
+    const unconfirmed = await fixture.run('gc', '--prune-sessions', '--json');
+    expect(unconfirmed.exitCode).toBe(2);
+    expect(fs.existsSync(messageDir('ses_2'))).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+describe('message-tools command', () => {
+  let fixture: CliFixture;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+    for (const id of ['msg_1', 'msg_2']) {
+      fixture.writeStorage(`message/ses_1/${id}.json`, {
+        id,
+        sessionID: 'ses_1',
+        role: 'assistant',
+        time: { created: 1000 },
+      });
+    }
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'tool',
+      tool: 'bash',
+      callID: 'call_1',
+      state: {
+        status: 'completed',
+        input: { command: 'seq 5' },
+        output: '1\n2\n3\n4\n5\n',
+        time: { start: 1000, end: 1250 },
+      },
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'tool',
+      tool: 'edit',
+      callID: 'call_2',
+      state: {
+        status: 'error',
+        input: { filePath: 'a.txt', oldString: 'x' },
+        error: 'oldString not found',
+      },
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('lists each call with its input, output and error', async () => {
+    const result = await fixture.run('message-tools', 'msg_1');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Tool calls in message: msg_1');
+    expect(result.stdout).toContain('[1] bash (completed) seq 5');
+    expect(result.stdout).toContain('  Call: call_1');
+    expect(result.stdout).toContain('(250 ms)');
+    expect(result.stdout).toContain('    command: seq 5');
+    expect(result.stdout).toContain(
+      '  Output:\n    1\n    2\n    3\n    4\n    5',
+    );
+    expect(result.stdout).toContain('[2] edit (error) a.txt');
+    expect(result.stdout).toContain('  Error:\n    oldString not found');
+    expect(result.stdout).toContain('Total: 2 tool call(s)');
+  });
+
+  it('truncates output to --lines', async () => {
+    const result = await fixture.run('message-tools', 'msg_1', '--lines', '2');
+    expect(result.stdout).toContain('    1\n    2\n    … (3 more lines)');
+  });
+
+  it('writes tool-call records with --json', async () => {
+    const result = await fixture.run('message-tools', 'msg_1', '--json');
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('tool-call');
+    expect(
+      output.data.map((call: { tool: string; status: string }) => [
+        call.tool,
+        call.status,
+      ]),
+    ).toEqual([
+      ['bash', 'completed'],
+      ['edit', 'error'],
+    ]);
+  });
+
+  it('reports a message without tool calls', async () => {
+    const result = await fixture.run('message-tools', 'msg_2');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('No tool calls in message: msg_2');
+  });
+
+  it('fails for an unknown message', async () => {
+    const result = await fixture.run('message-tools', 'msg_9');
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('Message not found: msg_9');
+  });
+});
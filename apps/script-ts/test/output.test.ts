@@ -0,0 +1,152 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+describe('machine-readable output', () => {
+  let fixture: CliFixture;
+  let before: string;
+  let after: string;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    for (const [id, title] of [
+      ['ses_1', 'Session one'],
+      ['ses_2', 'Session two'],
+    ]) {
+      fixture.writeStorage(`session/${fixture.projectId}/${id}.json`, {
+        id,
+        projectID: fixture.projectId,
+        directory: fixture.projectDir,
+        title,
+      });
+    }
+
+    fixture.writeFile('a.txt', 'one\n');
+    before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\n');
+    after = fixture.snapshot();
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created: 1000 },
+    });
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, 'a.txt')],
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+    fixture.writeStorage('message/ses_2/msg_2.json', {
+      id: 'msg_2',
+      sessionID: 'ses_2',
+      role: 'user',
+      time: { created: 2000 },
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('wraps every record of a --json run in one versioned document', async () => {
+    const result = await fixture.run('sessions', '--json');
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output).toMatchObject({ schemaVersion: 1, kind: 'session' });
+    expect(
+      output.data.map((session: { id: string; title: string }) => [
+        session.id,
+        session.title,
+      ]),
+    ).toEqual([
+      ['ses_2', 'Session two'],
+      ['ses_1', 'Session one'],
+    ]);
+    expect(output.data[1]).toMatchObject({
+      messageCount: 1,
+      parentId: null,
+      children: [],
+    });
+  });
+
+  it('writes one versioned record per line with --ndjson', async () => {
+    const result = await fixture.run('sessions', '--ndjson', '--flat');
+    expect(result.exitCode).toBe(0);
+    const lines = result.stdout
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    for (const line of lines) {
+      expect(Object.keys(line)).toEqual(['schemaVersion', 'kind', 'data']);
+      expect(line).toMatchObject({ schemaVersion: 1, kind: 'session' });
+      expect(line.data).not.toHaveProperty('children');
+    }
+  });
+
+  it('writes nothing with --ndjson and an empty document with --json when nothing matches', async () => {
+    const ndjson = await fixture.run('search', 'nowhere', '--ndjson');
+    expect(ndjson.exitCode).toBe(0);
+    expect(ndjson.stdout).toBe('');
+
+    const json = await fixture.run('search', 'nowhere', '--json');
+    expect(JSON.parse(json.stdout)).toEqual({
+      schemaVersion: 1,
+      kind: 'search-hit',
+      data: [],
+    });
+  });
+
+  it('parses diffs into files and hunks', async () => {
+    const result = await fixture.run('message-diff', 'msg_1', '--json');
+    expect(result.exitCode).toBe(0);
+    const [record] = JSON.parse(result.stdout).data;
+    expect(record).toMatchObject({
+      messageId: 'msg_1',
+      sessionId: 'ses_1',
+      mode: 'message',
+      filePath: null,
+      from: before,
+      to: after,
+    });
+    expect(record.files).toHaveLength(1);
+    expect(record.files[0]).toMatchObject({
+      oldPath: 'a.txt',
+      newPath: 'a.txt',
+      status: 'modified',
+      additions: 1,
+      deletions: 1,
+    });
+    expect(record.files[0].hunks[0].lines).toEqual([
+      { type: 'delete', content: 'one' },
+      { type: 'add', content: 'two' },
+    ]);
+  });
+
+  it("lists a session's changes against its own project in both modes", async () => {
+    // The tests run inside this repository, which is not the session's project
+    const text = await fixture.run('session-changes', 'ses_1');
+    expect(text.exitCode).toBe(0);
+    expect(text.stdout).toContain('[msg_1]');
+    expect(text.stdout).toContain(`Hash: ${before}`);
+    expect(text.stdout).toContain('✓ snapshot available');
+    expect(text.stdout).toContain('Total: 1 message(s) with file changes');
+
+    const json = await fixture.run('session-changes', 'ses_1', '--json');
+    expect(JSON.parse(json.stdout).data).toEqual([
+      {
+        id: 'msg_1',
+        timestamp: expect.any(String),
+        hash: before,
+        hasSnapshot: true,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+describe('projects command', () => {
+  let fixture: CliFixture;
+
+  const writeSession = (id: string, projectId: string, directory: string) => {
+    fixture.writeStorage(`session/${projectId}/${id}.json`, {
+      id,
+      projectID: projectId,
+      directory,
+      title: id,
+    });
+    fixture.writeStorage(`message/${id}/msg_${id.slice(4)}.json`, {
+      id: `msg_${id.slice(4)}`,
+      sessionID: id,
+      role: 'user',
+      time: { created: Date.UTC(2024, 0, 1) },
+    });
+  };
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('prints each project with its directory, sessions and snapshot repo', async () => {
+    writeSession('ses_1', fixture.projectId, fixture.projectDir);
+    writeSession('ses_2', 'proj2', path.join(fixture.root, 'gone'));
+
+    const result = await fixture.run('projects');
+    expect(result.exitCode).toBe(0);
+    const blocks = result.stdout.trim().split('\n\n');
+    expect(blocks).toHaveLength(3);
+    expect(blocks[0]).toMatch(
+      new RegExp(
+        `^\\[${fixture.projectId}\\]\\n {2}Directory: ${fixture.projectDir}\\n` +
+          ' {2}Sessions: 1 \\| Last activity: .+\\n' +
+          ' {2}Snapshot repo: (?!none).+$',
+      ),
+    );
+    expect(blocks[1]).toContain(
+      `  Directory: ${path.join(fixture.root, 'gone')} (missing)`,
+    );
+    expect(blocks[1]).toContain('  Snapshot repo: none');
+    expect(blocks[2]).toBe(
+      'List sessions with: oc-hist sessions --project <id|dir>',
+    );
+  });
+
+  it('writes project records with --json', async () => {
+    writeSession('ses_1', fixture.projectId, fixture.projectDir);
+
+    const result = await fixture.run('projects', '--json');
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output).toMatchObject({ schemaVersion: 1, kind: 'project' });
+    expect(output.data).toEqual([
+      expect.objectContaining({
+        id: fixture.projectId,
+        directory: fixture.projectDir,
+        directoryExists: true,
+        sessionCount: 1,
+      }),
+    ]);
+  });
+
+  it('reports when there are no projects', async () => {
+    const result = await fixture.run('projects');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('No projects found');
+  });
+});
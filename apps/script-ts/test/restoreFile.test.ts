@@ -0,0 +1,152 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+describe('restore-file', () => {
+  let fixture: CliFixture;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\n');
+    const after = fixture.snapshot();
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created: 1000 },
+    });
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, 'a.txt')],
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+    // Later edits on top of the message's change
+    fixture.writeFile('a.txt', 'three\n');
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('restores the file before the message and can be undone', async () => {
+    const result = await fixture.run(
+      'restore-file',
+      'msg_1',
+      'a.txt',
+      '--before',
+      '--yes',
+    );
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(
+      'Changes to restore a.txt to before msg_1:',
+    );
+    expect(result.stdout).toContain('-three\n+one');
+    expect(result.stdout).toContain('✓ Restored a.txt to before msg_1');
+    expect(fixture.readFile('a.txt')).toBe('one\n');
+
+    const undone = await fixture.run('undo-revert');
+    expect(undone.exitCode).toBe(0);
+    expect(fixture.readFile('a.txt')).toBe('three\n');
+  });
+
+  it('reports a file that already matches', async () => {
+    fixture.writeFile('a.txt', 'two\n');
+    const result = await fixture.run('restore-file', 'msg_1', 'a.txt');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('a.txt already matches after msg_1');
+  });
+
+  it('prints the file with --stdout or writes it to --output', async () => {
+    const printed = await fixture.run(
+      'restore-file',
+      'msg_1',
+      'a.txt',
+      '--stdout',
+    );
+    expect(printed.stdout).toBe('two\n');
+
+    const output = path.join(fixture.root, 'a.old');
+    const written = await fixture.run(
+      'restore-file',
+      'msg_1',
+      'a.txt',
+      '--before',
+      '--output',
+      output,
+      '--json',
+    );
+    expect(written.exitCode).toBe(0);
+    expect(JSON.parse(written.stdout).data[0]).toMatchObject({
+      messageId: 'msg_1',
+      filePath: 'a.txt',
+      at: 'before',
+      destination: output,
+      written: true,
+    });
+    expect(fs.readFileSync(output, 'utf8')).toBe('one\n');
+    expect(fixture.readFile('a.txt')).toBe('three\n');
+  });
+
+  it('writes a restore-result record with --json --yes', async () => {
+    const result = await fixture.run(
+      'restore-file',
+      'msg_1',
+      'a.txt',
+      '--json',
+      '--yes',
+    );
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('restore-result');
+    expect(output.data[0]).toMatchObject({
+      at: 'after',
+      destination: 'worktree',
+      written: true,
+    });
+    expect(output.data[0].journalId).toEqual(expect.any(String));
+    expect(fixture.readFile('a.txt')).toBe('two\n');
+  });
+
+  it('rejects bad combinations and missing files', async () => {
+    const unconfirmed = await fixture.run(
+      'restore-file',
+      'msg_1',
+      'a.txt',
+      '--json',
+    );
+    expect(unconfirmed.exitCode).toBe(2);
+
+    const both = await fixture.run(
+      'restore-file',
+      'msg_1',
+      'a.txt',
+      '--stdout',
+      '--output',
+      'x',
+    );
+    expect(both.exitCode).toBe(2);
+
+    const missing = await fixture.run('restore-file', 'msg_1', 'b.txt');
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr).toContain(
+      "File 'b.txt' did not exist after message msg_1",
+    );
+    expect(fixture.readFile('a.txt')).toBe('three\n');
+  });
+});
@@ -0,0 +1,141 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+const ORIGINAL = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\n';
+const CHANGED = 'one\nTWO\nthree\nfour\nfive\nsix\nseven\neight\n';
+
+describe('revert-file', () => {
+  let fixture: CliFixture;
+
+  const addMessage = (id: string, created: number) =>
+    fixture.writeStorage(`message/ses_1/${id}.json`, {
+      id,
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created },
+    });
+
+  /** Record msg_1 changing line two of a.txt, with or without its file list. */
+  const recordChange = (recordFiles: boolean) => {
+    fixture.writeFile('a.txt', ORIGINAL);
+    fixture.writeFile('b.txt', 'untouched\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', CHANGED);
+    const after = fixture.snapshot();
+
+    addMessage('msg_1', 1000);
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      ...(recordFiles
+        ? { files: [path.join(fixture.projectDir, 'a.txt')] }
+        : {}),
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+  };
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('reverts only the message’s hunks, keeping later edits by hand', async () => {
+    recordChange(true);
+    fixture.writeFile('a.txt', CHANGED.replace('eight', 'EIGHT'));
+
+    const result = await fixture.run('revert-file', 'msg_1', 'a.txt', '--yes');
+    expect(result.stderr).toBe('');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('-two\n+TWO');
+    expect(result.stdout).not.toContain('EIGHT');
+    expect(fixture.readFile('a.txt')).toBe(ORIGINAL.replace('eight', 'EIGHT'));
+  });
+
+  it('behaves the same when the message did not record its files', async () => {
+    recordChange(false);
+    fixture.writeFile('a.txt', CHANGED.replace('eight', 'EIGHT'));
+
+    const result = await fixture.run(
+      'revert-file',
+      'msg_1',
+      './a.txt',
+      '--yes',
+      '--json',
+    );
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('revert-result');
+    expect(output.data).toEqual([
+      {
+        messageId: 'msg_1',
+        filePath: 'a.txt',
+        reverted: true,
+        journalId: expect.any(String),
+      },
+    ]);
+    expect(fixture.readFile('a.txt')).toBe(ORIGINAL.replace('eight', 'EIGHT'));
+  });
+
+  it('accepts absolute paths and can be undone', async () => {
+    recordChange(true);
+
+    const reverted = await fixture.run(
+      'revert-file',
+      'msg_1',
+      path.join(fixture.projectDir, 'a.txt'),
+      '--yes',
+    );
+    expect(reverted.exitCode).toBe(0);
+    expect(fixture.readFile('a.txt')).toBe(ORIGINAL);
+
+    const undone = await fixture.run('undo-revert');
+    expect(undone.exitCode).toBe(0);
+    expect(fixture.readFile('a.txt')).toBe(CHANGED);
+  });
+
+  it('leaves the file alone when the change no longer applies', async () => {
+    recordChange(true);
+    fixture.writeFile('a.txt', CHANGED.replace('TWO', 'TWO, edited again'));
+
+    const result = await fixture.run('revert-file', 'msg_1', 'a.txt', '--yes');
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('Failed to apply reverse patch cleanly');
+    expect(fixture.readFile('a.txt')).toBe(
+      CHANGED.replace('TWO', 'TWO, edited again'),
+    );
+  });
+
+  it('rejects files the message did not change', async () => {
+    recordChange(true);
+
+    const result = await fixture.run('revert-file', 'msg_1', 'b.txt', '--yes');
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain(
+      "File 'b.txt' was not modified in message msg_1",
+    );
+  });
+
+  it('asks for --yes with machine-readable output', async () => {
+    recordChange(true);
+
+    const result = await fixture.run('revert-file', 'msg_1', 'a.txt', '--json');
+    expect(result.exitCode).toBe(2);
+    expect(fixture.readFile('a.txt')).toBe(CHANGED);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+describe('search command', () => {
+  let fixture: CliFixture;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'user',
+      time: { created: 1000 },
+    });
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'text',
+      text: 'Rename the config loader',
+    });
+    fixture.writeStorage('message/ses_1/msg_2.json', {
+      id: 'msg_2',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created: 2000 },
+    });
+    fixture.writeStorage('part/msg_2/prt_2.json', {
+      id: 'prt_2',
+      type: 'tool',
+      tool: 'grep',
+      callID: 'call_1',
+      state: {
+        status: 'completed',
+        input: { pattern: 'loadConfig' },
+        output: 'src/config.ts:3',
+      },
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('groups matches under their session', async () => {
+    const result = await fixture.run('search', 'config');
+    expect(result.exitCode).toBe(0);
+    const lines = result.stdout.split('\n');
+    expect(lines[0]).toBe('[ses_1] Session one');
+    expect(lines[1]).toMatch(/^ {2}\[msg_1\] .* \(user\)$/);
+    expect(lines[2]).toBe('    Rename the config loader');
+    expect(lines[3]).toMatch(/^ {2}\[msg_2\] .* \(tool: grep\)$/);
+    expect(result.stdout).toContain('Total: 2 match(es)');
+  });
+
+  it('writes search-hit records with --json', async () => {
+    const result = await fixture.run(
+      'search',
+      'config',
+      '--role',
+      'tool',
+      '--json',
+    );
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('search-hit');
+    expect(output.data).toHaveLength(1);
+    expect(output.data[0]).toMatchObject({
+      messageId: 'msg_2',
+      role: 'tool',
+      tool: 'grep',
+    });
+  });
+
+  it('reports no matches', async () => {
+    const result = await fixture.run('search', 'missing');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('No matches for: missing');
+  });
+
+  it('rejects an invalid regular expression with exit code 2', async () => {
+    const result = await fixture.run('search', '(', '--regex');
+    expect(result.exitCode).toBe(2);
+    expect(result.stderr).toContain('Invalid regular expression');
+  });
+
+  it('rejects an unknown role with exit code 2', async () => {
+    const result = await fixture.run('search', 'config', '--role', 'robot');
+    expect(result.exitCode).toBe(2);
+  });
+});
@@ -0,0 +1,119 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+const START = new Date(2024, 0, 3, 10).getTime();
+
+describe('stats command', () => {
+  let fixture: CliFixture;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    for (const [id, title, parentID] of [
+      ['ses_1', 'Parent', undefined],
+      ['ses_2', 'Subagent', 'ses_1'],
+    ]) {
+      fixture.writeStorage(`session/${fixture.projectId}/${id}.json`, {
+        id,
+        projectID: fixture.projectId,
+        directory: fixture.projectDir,
+        title,
+        ...(parentID ? { parentID } : {}),
+      });
+    }
+
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\nthree\n');
+    const after = fixture.snapshot();
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      providerID: 'anthropic',
+      modelID: 'model-a',
+      cost: 0.5,
+      tokens: { input: 100, output: 20 },
+      time: { created: START, completed: START + 90000 },
+    });
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, 'a.txt')],
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+    fixture.writeStorage('message/ses_2/msg_2.json', {
+      id: 'msg_2',
+      sessionID: 'ses_2',
+      role: 'assistant',
+      cost: 0.25,
+      time: { created: START + 1000, completed: START + 2000 },
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('prints the totals of one session', async () => {
+    const result = await fixture.run('stats', 'ses_1');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.split('\n')).toEqual([
+      '[ses_1] Parent',
+      '  Messages: 1 (1 assistant turns)',
+      '  Changes: 1 file(s), +2 -1',
+      '  Tokens: 100 input, 20 output, 0 reasoning, 0 cache read, 0 cache write',
+      '  Cost: $0.5000',
+      '  Duration: 1m 30s',
+      '  Models: anthropic/model-a',
+      '',
+    ]);
+  });
+
+  it('adds spawned sessions with --task', async () => {
+    const result = await fixture.run('stats', 'ses_1', '--task', '--json');
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('task-stats');
+    expect(output.data[0]).toMatchObject({
+      sessionIds: ['ses_1', 'ses_2'],
+      messages: 2,
+      cost: 0.75,
+    });
+  });
+
+  it('lists every session and rolls them up per week', async () => {
+    const listed = await fixture.run('stats');
+    expect(listed.stdout).toContain('[ses_2] Subagent');
+    expect(listed.stdout).toContain('Total: 2 session(s)');
+
+    const rollup = await fixture.run('stats', '--rollup', '--json');
+    const output = JSON.parse(rollup.stdout);
+    expect(output.kind).toBe('stats-rollup');
+    expect(output.data).toEqual([
+      expect.objectContaining({
+        projectId: fixture.projectId,
+        week: '2024-01-01',
+        sessions: 2,
+        filesTouched: 1,
+        cost: 0.75,
+      }),
+    ]);
+  });
+
+  it('rejects filters combined with a session ID', async () => {
+    const combined = await fixture.run('stats', 'ses_1', '--rollup');
+    expect(combined.exitCode).toBe(2);
+    const task = await fixture.run('stats', '--task');
+    expect(task.exitCode).toBe(2);
+    const missing = await fixture.run('stats', 'ses_9');
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr).toContain('Session not found: ses_9');
+  });
+});
@@ -0,0 +1,149 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+const START = Date.UTC(2024, 0, 1);
+
+describe('task commands', () => {
+  let fixture: CliFixture;
+
+  const writeSession = (id: string, title: string, parentId?: string) => {
+    fixture.writeStorage(`session/${fixture.projectId}/${id}.json`, {
+      id,
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title,
+      ...(parentId ? { parentID: parentId } : {}),
+    });
+  };
+
+  const writeChange = (
+    sessionId: string,
+    msgId: string,
+    created: number,
+    file: string,
+    before: string,
+    after: string,
+  ) => {
+    fixture.writeStorage(`message/${sessionId}/${msgId}.json`, {
+      id: msgId,
+      sessionID: sessionId,
+      role: 'assistant',
+      time: { created },
+    });
+    fixture.writeStorage(`part/${msgId}/prt_${msgId}_1.json`, {
+      id: `prt_${msgId}_1`,
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, file)],
+    });
+    fixture.writeStorage(`part/${msgId}/prt_${msgId}_2.json`, {
+      id: `prt_${msgId}_2`,
+      type: 'step-finish',
+      snapshot: after,
+    });
+  };
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeFile('a.txt', 'one\n');
+    const first = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\n');
+    const second = fixture.snapshot();
+    fixture.writeFile('b.txt', 'new\n');
+    const third = fixture.snapshot();
+
+    writeSession('ses_1', 'Build the feature');
+    writeChange('ses_1', 'msg_1', START, 'a.txt', first, second);
+    writeSession('ses_2', 'Write the tests', 'ses_1');
+    writeChange('ses_2', 'msg_2', START + 1000, 'b.txt', second, third);
+    writeSession('ses_3', 'Check coverage', 'ses_2');
+    fixture.writeStorage('message/ses_3/msg_3.json', {
+      id: 'msg_3',
+      sessionID: 'ses_3',
+      role: 'user',
+      time: { created: START + 2000 },
+    });
+    writeSession('ses_4', 'Review', 'ses_1');
+    fixture.writeStorage('message/ses_4/msg_4.json', {
+      id: 'msg_4',
+      sessionID: 'ses_4',
+      role: 'user',
+      time: { created: START + 3000 },
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('nests spawned sessions under the session that started them', async () => {
+    const result = await fixture.run('sessions');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('[ses_1]\n  Title: Build the feature\n');
+    expect(result.stdout).toContain(
+      [
+        '  Subagent sessions:',
+        '  ├─ [ses_2] Write the tests (1 messages)',
+        '  │  └─ [ses_3] Check coverage (1 messages)',
+        '  └─ [ses_4] Review (1 messages)',
+      ].join('\n'),
+    );
+    expect(result.stdout).not.toContain('\n[ses_2]');
+  });
+
+  it('lists every session on its own with --flat', async () => {
+    const result = await fixture.run('sessions', '--flat', '--json');
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('session');
+    expect(output.data.map((session: { id: string }) => session.id)).toEqual([
+      'ses_4',
+      'ses_3',
+      'ses_2',
+      'ses_1',
+    ]);
+    expect(output.data[0]).toMatchObject({ parentId: 'ses_1' });
+    expect(output.data[0]).not.toHaveProperty('children');
+  });
+
+  it('diffs a whole task', async () => {
+    const result = await fixture.run('task-diff', 'ses_1');
+    expect(result.exitCode).toBe(0);
+    const lines = result.stdout.split('\n');
+    expect(lines[0]).toBe('Sessions: ses_1, ses_2, ses_3, ses_4');
+    expect(lines[1]).toBe('Messages with changes: 2');
+    expect(lines[2]).toMatch(/^Snapshots: [0-9a-f]{12}\.\.[0-9a-f]{12}$/);
+    expect(result.stdout).toContain('-one\n+two');
+    expect(result.stdout).toContain('+new');
+  });
+
+  it('writes a task-diff record for one file with --json', async () => {
+    const result = await fixture.run('task-diff', 'ses_1', 'b.txt', '--json');
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output.kind).toBe('task-diff');
+    const [record] = output.data;
+    expect(record).toMatchObject({
+      sessionId: 'ses_1',
+      messageIds: ['msg_1', 'msg_2'],
+      filePath: 'b.txt',
+    });
+    expect(
+      record.files.map((file: { newPath: string }) => file.newPath),
+    ).toEqual(['b.txt']);
+  });
+
+  it('fails for a task without changes or an unknown session', async () => {
+    const empty = await fixture.run('task-diff', 'ses_4');
+    expect(empty.exitCode).toBe(1);
+    expect(empty.stderr).toContain(
+      'No file changes with available snapshots in task: ses_4',
+    );
+
+    const unknown = await fixture.run('task-diff', 'ses_9');
+    expect(unknown.exitCode).toBe(1);
+    expect(unknown.stderr).toContain('No messages found in session: ses_9');
+  });
+});
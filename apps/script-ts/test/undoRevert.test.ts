@@ -0,0 +1,111 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { CliFixture, createCliFixture } from './fixture';
+
+describe('reverts and undo-revert', () => {
+  let fixture: CliFixture;
+
+  beforeEach(() => {
+    fixture = createCliFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\n');
+    const after = fixture.snapshot();
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created: 1000 },
+    });
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, 'a.txt')],
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  const revert = async () => {
+    const result = await fixture.run(
+      'revert',
+      '--message',
+      'msg_1',
+      '--yes',
+      '--json',
+    );
+    expect(result.exitCode).toBe(0);
+    return JSON.parse(result.stdout).data[0].journalId as string;
+  };
+
+  it('lists reverts until there are none', async () => {
+    const empty = await fixture.run('reverts');
+    expect(empty.stdout.trim()).toBe('No reverts recorded');
+
+    const journalId = await revert();
+    const listed = await fixture.run('reverts');
+    expect(listed.exitCode).toBe(0);
+    expect(listed.stdout).toContain(`[${journalId}]`);
+    expect(listed.stdout).toContain('in effect');
+    expect(listed.stdout).toContain('  Messages: msg_1');
+    expect(listed.stdout).toContain('  Files: a.txt');
+  });
+
+  it('undoes the latest revert and reports each file', async () => {
+    const journalId = await revert();
+    expect(fixture.readFile('a.txt')).toBe('one\n');
+
+    const dryRun = await fixture.run('undo-revert', '--dry-run');
+    expect(dryRun.stdout).toContain(`Would undo revert ${journalId}`);
+    expect(fixture.readFile('a.txt')).toBe('one\n');
+
+    const undone = await fixture.run('undo-revert', '--json');
+    expect(undone.exitCode).toBe(0);
+    const output = JSON.parse(undone.stdout);
+    expect(output.kind).toBe('undo-revert-result');
+    expect(output.data[0]).toMatchObject({
+      entry: { id: journalId },
+      dryRun: false,
+      files: [{ path: 'a.txt', action: 'restored' }],
+    });
+    expect(fixture.readFile('a.txt')).toBe('two\n');
+
+    const listed = await fixture.run('reverts', '--json');
+    expect(JSON.parse(listed.stdout).data[0].undoneAt).not.toBeNull();
+  });
+
+  it('fails over later edits unless forced', async () => {
+    const journalId = await revert();
+    fixture.writeFile('a.txt', 'mine\n');
+
+    const refused = await fixture.run('undo-revert', journalId);
+    expect(refused.exitCode).toBe(1);
+    expect(refused.stderr).toContain('Files changed since revert');
+    expect(fixture.readFile('a.txt')).toBe('mine\n');
+
+    const forced = await fixture.run('undo-revert', journalId, '--force');
+    expect(forced.exitCode).toBe(0);
+    expect(fixture.readFile('a.txt')).toBe('two\n');
+  });
+
+  it('fails when there is nothing to undo', async () => {
+    const result = await fixture.run('undo-revert');
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('No reverts left to undo');
+  });
+});
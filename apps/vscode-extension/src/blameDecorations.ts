@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import { blameFile, BlameLine, FileBlame } from '@oc-hist/shared';
+import { getHistoryStore } from './store';
+
+const ENABLED_KEY = 'opencodeHistory.blameEnabled';
+
+/** Gutter marker for agent-written lines: a thin bar. */
+const GUTTER_ICON = vscode.Uri.parse(
+  "data:image/svg+xml;utf8,<svg xmlns='http://www.w3.org/2000/svg' width='16' height='16'><rect x='5' width='3' height='16' fill='%238250df' fill-opacity='0.6'/></svg>",
+);
+
+function commandLink(command: string, messageId: string): string {
+  return `command:${command}?${encodeURIComponent(JSON.stringify([messageId]))}`;
+}
+
+function hoverMessage(line: BlameLine): vscode.MarkdownString {
+  const hover = new vscode.MarkdownString();
+  hover.isTrusted = true;
+  hover.appendMarkdown(`**${line.sessionTitle ?? '(no title)'}**\n\n`);
+  hover.appendMarkdown(
+    `Agent message \`${line.messageId}\` · ${line.timestamp}\n\n`,
+  );
+  hover.appendMarkdown(
+    `[Show message diff](${commandLink('opencode-history.showMessageDiff', line.messageId as string)})` +
+      ` · [Revert this message](${commandLink('opencode-history.revertMessage', line.messageId as string)})`,
+  );
+  return hover;
+}
+
+/**
+ * Group consecutive lines from the same message into one decoration so each
+ * block gets a single hover.
+ */
+function toDecorations(blame: FileBlame): vscode.DecorationOptions[] {
+  const decorations: vscode.DecorationOptions[] = [];
+  let block: BlameLine[] = [];
+  const flush = () => {
+    if (block.length > 0 && block[0].messageId) {
+      decorations.push({
+        range: new vscode.Range(
+          block[0].line - 1,
+          0,
+          block[block.length - 1].line - 1,
+          0,
+        ),
+        hoverMessage: hoverMessage(block[0]),
+      });
+    }
+    block = [];
+  };
+  for (const line of blame.lines) {
+    if (block.length > 0 && block[0].messageId !== line.messageId) {
+      flush();
+    }
+    block.push(line);
+  }
+  flush();
+  return decorations;
+}
+
+/**
+ * Marks agent-written lines of the active editor in the gutter, with a hover
+ * naming the session and message. Toggled from a command or the status bar;
+ * the on/off state is remembered across windows.
+ */
+export class BlameDecorations implements vscode.Disposable {
+  private readonly decorationType =
+    vscode.window.createTextEditorDecorationType({
+      gutterIconPath: GUTTER_ICON,
+      gutterIconSize: 'contain',
+      isWholeLine: true,
+      overviewRulerColor: 'rgba(130, 80, 223, 0.6)',
+      overviewRulerLane: vscode.OverviewRulerLane.Left,
+    });
+  private readonly statusBarItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    100,
+  );
+  private readonly disposables: vscode.Disposable[] = [];
+  /** Blame per file path; dropped when the file or the history changes. */
+  private readonly cache = new Map<string, FileBlame | null>();
+
+  constructor(private readonly state: vscode.Memento) {
+    this.statusBarItem.command = 'opencode-history.toggleBlame';
+    this.disposables.push(
+      this.decorationType,
+      this.statusBarItem,
+      vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        this.cache.delete(document.uri.fsPath);
+        if (document === vscode.window.activeTextEditor?.document) {
+          this.update();
+        }
+      }),
+    );
+    this.update();
+  }
+
+  get enabled(): boolean {
+    return this.state.get(ENABLED_KEY, false);
+  }
+
+  toggle(): void {
+    void this.state.update(ENABLED_KEY, !this.enabled);
+    this.update();
+  }
+
+  /** Recompute after OpenCode recorded new changes. */
+  refresh(): void {
+    this.cache.clear();
+    this.update();
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private update(): void {
+    const editor = vscode.window.activeTextEditor;
+    const blame =
+      this.enabled && editor?.document.uri.scheme === 'file'
+        ? this.getBlame(editor.document.uri.fsPath)
+        : null;
+
+    if (editor) {
+      editor.setDecorations(
+        this.decorationType,
+        blame ? toDecorations(blame) : [],
+      );
+    }
+    this.updateStatusBar(blame);
+  }
+
+  private getBlame(filePath: string): FileBlame | null {
+    if (!this.cache.has(filePath)) {
+      let blame: FileBlame | null;
+      try {
+        blame = blameFile(filePath, getHistoryStore());
+      } catch (error) {
+        // An unreadable snapshot leaves the file without annotations
+        console.error(`Agent blame failed for ${filePath}:`, error);
+        blame = null;
+      }
+      this.cache.set(filePath, blame);
+    }
+    return this.cache.get(filePath) ?? null;
+  }
+
+  private updateStatusBar(blame: FileBlame | null): void {
+    if (!this.enabled) {
+      this.statusBarItem.text = '$(hubot)';
+      this.statusBarItem.tooltip = 'Show agent blame annotations';
+    } else {
+      const agentLines =
+        blame?.lines.filter((line) => line.messageId).length ?? 0;
+      this.statusBarItem.text = `$(hubot) ${agentLines}`;
+      this.statusBarItem.tooltip = blame
+        ? `${agentLines} line(s) in this file last changed by an agent. Click to hide agent blame.`
+        : 'This file is not in an OpenCode project. Click to hide agent blame.';
+    }
+    this.statusBarItem.show();
+  }
+}
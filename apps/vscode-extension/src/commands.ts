@@ -1,30 +1,136 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
 import * as vscode from 'vscode';
 import {
   getMessageDiff,
   getSessionMessages,
   getFileHistory,
+  getPatchHash,
+  getSessionMessageIds,
+  getMessageFiles,
+  getMessageSnapshots,
+  getProjectDirectory,
+  gitCatFileExists,
+  getFileAtMessage,
+  getRestoreDiff,
+  getRevertRange,
+  revertRange,
+  undoRevert,
+  createRevertBackup,
+  finishRevertBackup,
+  discardRevertBackup,
+  searchHistory,
+  getTaskDiff,
+  getTaskStats,
+  parseUnifiedDiff,
+  diffBetween,
+  getIndexedMessage,
+  getMessageSummary,
+  parseTime,
+  resolveProjectFilter,
+  DiffMode,
+  Message,
+  RevertResult,
+  SearchHit,
+  ToolPart,
 } from '@oc-hist/shared';
+import { getHistoryStore } from './store';
+import { toEmptySnapshotUri, toSnapshotUri } from './snapshotContentProvider';
+import { SessionFilterInput } from './historyTreeProvider';
 
 interface MessageQuickPickItem extends vscode.QuickPickItem {
   messageId: string;
 }
 
-export async function showMessageDiff(messageId?: string) {
-  if (!messageId) {
-    messageId = await vscode.window.showInputBox({
-      prompt: 'Enter message ID',
-      placeHolder: 'msg_...',
-    });
+interface FileQuickPickItem extends vscode.QuickPickItem {
+  /** Null for the unified diff of every file. */
+  filePath: string | null;
+}
+
+interface SearchQuickPickItem extends vscode.QuickPickItem {
+  hit: SearchHit;
+}
+
+interface FilterQuickPickItem extends vscode.QuickPickItem {
+  /** Null to clear every field. */
+  field: keyof SessionFilterInput | null;
+}
+
+/**
+ * Commands invoked from a tree item's context menu receive the item itself
+ * rather than the arguments of its click command.
+ */
+function resolveMessageId(
+  arg: string | { message: Message } | undefined,
+): string | undefined {
+  return typeof arg === 'object' ? arg.message.id : arg;
+}
+
+/**
+ * Open one file of a message in VSCode's diff editor: the snapshot before the
+ * message against the snapshot after it (`message`) or the file as it is now
+ * (`worktree`). Returns false when the snapshots needed are not available.
+ */
+async function openSnapshotDiff(
+  messageId: string,
+  filePath: string,
+  mode: DiffMode,
+): Promise<boolean> {
+  const store = getHistoryStore();
+  const snapshots = getMessageSnapshots(messageId, store);
+  if (
+    !snapshots ||
+    !fs.existsSync(snapshots.snapshotDir) ||
+    !gitCatFileExists(snapshots.snapshotDir, snapshots.before)
+  ) {
+    return false;
   }
 
-  if (!messageId) {
-    return;
+  const { projectId, before, after } = snapshots;
+  let right: vscode.Uri;
+  if (mode === 'message') {
+    if (!after) {
+      return false;
+    }
+    right = toSnapshotUri(projectId, after, filePath);
+  } else {
+    const projectDir = getProjectDirectory(projectId, store);
+    if (!projectDir) {
+      return false;
+    }
+    const target = path.join(projectDir, filePath);
+    // A file deleted since shows up as empty rather than as an error
+    right = fs.existsSync(target)
+      ? vscode.Uri.file(target)
+      : toEmptySnapshotUri(filePath);
   }
 
-  const diff = await getMessageDiff(messageId);
+  const label = mode === 'message' ? messageId : `${messageId} ↔ working tree`;
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    toSnapshotUri(projectId, before, filePath),
+    right,
+    `${path.basename(filePath)} (${label})`,
+  );
+  return true;
+}
+
+async function showUnifiedDiff(
+  messageId: string,
+  mode: DiffMode,
+  filePath?: string,
+) {
+  const diff = await getMessageDiff(
+    messageId,
+    filePath,
+    mode,
+    getHistoryStore(),
+  );
   if (!diff) {
     vscode.window.showInformationMessage(
-      'No file changes found for this message',
+      mode === 'message'
+        ? 'No isolated changes found for this message (try comparing with the working tree)'
+        : 'No file changes found for this message',
     );
     return;
   }
@@ -37,6 +143,264 @@ export async function showMessageDiff(messageId?: string) {
   await vscode.window.showTextDocument(doc);
 }
 
+export async function showMessageDiff(
+  messageArg?: string | { message: Message },
+  mode: DiffMode = 'message',
+) {
+  let messageId = resolveMessageId(messageArg);
+  if (!messageId) {
+    messageId = await vscode.window.showInputBox({
+      prompt: 'Enter message ID',
+      placeHolder: 'msg_...',
+    });
+  }
+
+  if (!messageId) {
+    return;
+  }
+
+  const files = getMessageFiles(messageId, getHistoryStore());
+  if (files.length === 0) {
+    await showUnifiedDiff(messageId, mode);
+    return;
+  }
+
+  let filePath: string | null = files[0];
+  if (files.length > 1) {
+    const selected = await vscode.window.showQuickPick<FileQuickPickItem>(
+      [
+        ...files.map((file) => ({
+          label: path.basename(file),
+          description: file,
+          filePath: file,
+        })),
+        {
+          label: '$(diff) All Files as Unified Diff',
+          filePath: null,
+        },
+      ],
+      { placeHolder: `Select a file changed by ${messageId}` },
+    );
+    if (!selected) {
+      return;
+    }
+    filePath = selected.filePath;
+  }
+
+  if (!filePath || !(await openSnapshotDiff(messageId, filePath, mode))) {
+    await showUnifiedDiff(messageId, mode, filePath ?? undefined);
+  }
+}
+
+/**
+ * Let the user pick a file from a snapshot-to-snapshot diff and open it in
+ * the diff editor, or open the whole diff as a unified diff document.
+ */
+async function pickSnapshotFileDiff(
+  projectId: string,
+  before: string,
+  after: string,
+  diff: string,
+  { title, label }: { title: string; label: string },
+) {
+  const files = parseUnifiedDiff(diff);
+  if (files.length === 0) {
+    vscode.window.showInformationMessage('No file changes in this range');
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick<FileQuickPickItem>(
+    [
+      ...files.map((file) => {
+        const filePath = file.newPath ?? file.oldPath ?? '';
+        return {
+          label: path.basename(filePath),
+          description: filePath,
+          filePath,
+        };
+      }),
+      {
+        label: '$(diff) All Files as Unified Diff',
+        filePath: null,
+      },
+    ],
+    { title, placeHolder: 'Select a file to compare' },
+  );
+  if (!selected) {
+    return;
+  }
+
+  if (selected.filePath === null) {
+    const doc = await vscode.workspace.openTextDocument({
+      content: diff,
+      language: 'diff',
+    });
+    await vscode.window.showTextDocument(doc);
+    return;
+  }
+
+  // A renamed file is read under its old name on the left
+  const file = files.find(
+    (item) => (item.newPath ?? item.oldPath) === selected.filePath,
+  );
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    toSnapshotUri(projectId, before, file?.oldPath ?? selected.filePath),
+    toSnapshotUri(projectId, after, selected.filePath),
+    `${path.basename(selected.filePath)} (${label})`,
+  );
+}
+
+/**
+ * Show everything a task changed: a session plus the sessions it spawned.
+ * Takes a session ID or a history tree session item.
+ */
+export async function showTaskChanges(
+  sessionArg?: string | { sessionId: string },
+) {
+  let sessionId =
+    typeof sessionArg === 'object' ? sessionArg.sessionId : sessionArg;
+  if (!sessionId) {
+    sessionId = await vscode.window.showInputBox({
+      prompt: 'Enter session ID',
+      placeHolder: 'ses_...',
+    });
+  }
+
+  if (!sessionId) {
+    return;
+  }
+
+  const store = getHistoryStore();
+  const task = getTaskDiff(sessionId, undefined, store);
+  if (!task) {
+    vscode.window.showInformationMessage(
+      'No file changes with available snapshots in this task',
+    );
+    return;
+  }
+
+  const files = parseUnifiedDiff(task.diff);
+  const stats = getTaskStats(sessionId, store);
+  const summary = stats
+    ? `${task.sessionIds.length} session(s) · ${stats.messages} messages · ${files.length} file(s) · +${stats.insertions} −${stats.deletions} · $${stats.cost.toFixed(2)}`
+    : `${task.sessionIds.length} session(s) · ${files.length} file(s)`;
+  await pickSnapshotFileDiff(
+    task.projectId,
+    task.before,
+    task.after,
+    task.diff,
+    {
+      title: `Task ${stats?.title ?? sessionId}: ${summary}`,
+      label: `task ${sessionId}`,
+    },
+  );
+}
+
+/**
+ * Compare a message with a second one picked from its session (or entered by
+ * ID): everything that changed from before the earlier message to after the
+ * later one.
+ */
+export async function compareMessages(
+  messageArg?: string | { message: Message },
+) {
+  let messageId = resolveMessageId(messageArg);
+  if (!messageId) {
+    messageId = await vscode.window.showInputBox({
+      prompt: 'Enter message ID',
+      placeHolder: 'msg_...',
+    });
+  }
+
+  if (!messageId) {
+    return;
+  }
+
+  const store = getHistoryStore();
+  const sessionId = getIndexedMessage(messageId, store)?.sessionId;
+  const others = sessionId
+    ? getSessionMessages(sessionId, store).filter(
+        (message) => message.id !== messageId,
+      )
+    : [];
+  const selected = await vscode.window.showQuickPick<MessageQuickPickItem>(
+    [
+      ...others.map((message) => ({
+        label: getMessageSummary(message.id, store) ?? message.id,
+        description: message.timestamp,
+        detail: message.id,
+        messageId: message.id,
+      })),
+      { label: '$(edit) Enter a Message ID...', messageId: '' },
+    ],
+    {
+      placeHolder: `Compare ${messageId} with`,
+      matchOnDetail: true,
+    },
+  );
+  if (!selected) {
+    return;
+  }
+
+  let otherId: string | undefined = selected.messageId;
+  if (!otherId) {
+    otherId = await vscode.window.showInputBox({
+      prompt: `Compare ${messageId} with message`,
+      placeHolder: 'msg_...',
+    });
+  }
+  if (!otherId) {
+    return;
+  }
+
+  const range = diffBetween(messageId, otherId.trim(), [], store);
+  if (!range) {
+    vscode.window.showErrorMessage(
+      'Cannot compare these messages: they are in different projects or their snapshots are not available',
+    );
+    return;
+  }
+
+  await pickSnapshotFileDiff(
+    range.projectId,
+    range.before,
+    range.after,
+    range.diff,
+    {
+      title: `${range.fromMessageId} → ${range.toMessageId}`,
+      label: `${range.fromMessageId} → ${range.toMessageId}`,
+    },
+  );
+}
+
+export async function showMessageFileDiff(messageId: string, filePath: string) {
+  if (!(await openSnapshotDiff(messageId, filePath, 'message'))) {
+    await showUnifiedDiff(messageId, 'message', filePath);
+  }
+}
+
+/**
+ * Reveal a history tree file in the Explorer. Takes the tree item, whose
+ * `resourceUri` points into the project's work tree.
+ */
+export async function revealMessageFile(item?: { resourceUri?: vscode.Uri }) {
+  const uri = item?.resourceUri;
+  if (!uri || !fs.existsSync(uri.fsPath)) {
+    vscode.window.showInformationMessage(
+      'This file does not exist in the working tree',
+    );
+    return;
+  }
+  await vscode.commands.executeCommand('revealInExplorer', uri);
+}
+
+export async function showMessageDiffWorktree(
+  messageArg?: string | { message: Message },
+) {
+  await showMessageDiff(messageArg, 'worktree');
+}
+
 export async function showSessionChanges(sessionId?: string) {
   if (!sessionId) {
     sessionId = await vscode.window.showInputBox({
@@ -49,7 +413,7 @@ export async function showSessionChanges(sessionId?: string) {
     return;
   }
 
-  const changes = await getSessionMessages(sessionId);
+  const changes = await getSessionMessages(sessionId, getHistoryStore());
   if (!changes || changes.length === 0) {
     vscode.window.showInformationMessage(
       'No file changes found for this session',
@@ -90,7 +454,7 @@ export async function showFileHistory(filePath?: string) {
     return;
   }
 
-  const history = await getFileHistory(filePath, 20);
+  const history = await getFileHistory(filePath, 20, {}, getHistoryStore());
   if (!history || history.length === 0) {
     vscode.window.showInformationMessage(`No history found for: ${filePath}`);
     return;
@@ -107,14 +471,519 @@ export async function showFileHistory(filePath?: string) {
     { placeHolder: `Select a change to view for ${filePath}` },
   );
 
-  if (selected) {
-    const diff = await getMessageDiff(selected.messageId, filePath);
-    if (diff) {
-      const doc = await vscode.workspace.openTextDocument({
-        content: diff,
-        language: 'diff',
-      });
-      await vscode.window.showTextDocument(doc);
+  if (!selected) {
+    return;
+  }
+
+  const action = await vscode.window.showQuickPick(
+    [
+      { label: '$(diff) View Changes', action: 'view' },
+      { label: '$(discard) Revert This File', action: 'revert' },
+      { label: '$(history) Restore File to This Point', action: 'restore' },
+    ],
+    { placeHolder: `${selected.label} · ${selected.description}` },
+  );
+
+  if (action?.action === 'revert') {
+    await revertFile(selected.messageId, filePath);
+  } else if (action?.action === 'restore') {
+    await restoreFile(selected.messageId, filePath);
+  } else if (action?.action === 'view') {
+    await showMessageFileDiff(selected.messageId, filePath);
+  }
+}
+
+/**
+ * Prompts and other messages without changes have no diff of their own, so
+ * fall back to the first later message in the session that changed files.
+ */
+function findDiffMessageId(hit: SearchHit): string | undefined {
+  const store = getHistoryStore();
+  const messageIds = getSessionMessageIds(hit.sessionId, store);
+  const start = Math.max(0, messageIds.indexOf(hit.messageId));
+  return messageIds
+    .slice(start)
+    .find((messageId) => getPatchHash(messageId, store) !== null);
+}
+
+export async function searchMessages(query?: string) {
+  if (!query) {
+    query = await vscode.window.showInputBox({
+      prompt:
+        'Search prompts, assistant text and tool output (wrap in /.../ for a regular expression)',
+      placeHolder: 'auth middleware',
+    });
+  }
+
+  if (!query) {
+    return;
+  }
+
+  const pattern = /^\/(.+)\/$/.exec(query);
+  let hits: SearchHit[];
+  try {
+    hits = searchHistory(
+      pattern ? pattern[1] : query,
+      { regex: pattern !== null, limit: 200 },
+      getHistoryStore(),
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage((error as Error).message);
+    return;
+  }
+
+  if (hits.length === 0) {
+    vscode.window.showInformationMessage(`No matches for: ${query}`);
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick<SearchQuickPickItem>(
+    hits.map((hit) => ({
+      label: hit.sessionTitle,
+      description: `${hit.tool ? `tool: ${hit.tool}` : hit.role} · ${hit.timestamp}`,
+      detail: hit.snippet,
+      hit,
+    })),
+    {
+      placeHolder: 'Select a match to view its changes',
+      matchOnDescription: true,
+      matchOnDetail: true,
+    },
+  );
+
+  if (!selected) {
+    return;
+  }
+
+  const messageId = findDiffMessageId(selected.hit);
+  if (!messageId) {
+    vscode.window.showInformationMessage(
+      'No file changes found after this message',
+    );
+    return;
+  }
+  await showMessageDiff(messageId);
+}
+
+const FILTER_FIELDS: {
+  field: keyof SessionFilterInput;
+  label: string;
+  prompt: string;
+  placeHolder: string;
+}[] = [
+  {
+    field: 'since',
+    label: '$(calendar) Active Since',
+    prompt:
+      'Only sessions active on or after (YYYY-MM-DD, ISO time, or 30m/12h/3d/2w ago)',
+    placeHolder: '3d',
+  },
+  {
+    field: 'until',
+    label: '$(calendar) Active Until',
+    prompt:
+      'Only sessions active on or before (YYYY-MM-DD, ISO time, or 30m/12h/3d/2w ago)',
+    placeHolder: '2025-01-31',
+  },
+  {
+    field: 'project',
+    label: '$(project) Project',
+    prompt:
+      'Only sessions of this project ID or project directory (replaces the workspace scoping)',
+    placeHolder: '/path/to/project',
+  },
+  {
+    field: 'title',
+    label: '$(whole-word) Title Contains',
+    prompt: 'Only sessions whose title contains this text',
+    placeHolder: 'auth',
+  },
+];
+
+/**
+ * Ask which filter field to change and its new value. An empty value clears
+ * the field.
+ *
+ * @returns The updated filter, or undefined if cancelled
+ */
+export async function editSessionFilter(
+  current: SessionFilterInput,
+): Promise<SessionFilterInput | undefined> {
+  const items: FilterQuickPickItem[] = FILTER_FIELDS.map((spec) => ({
+    label: spec.label,
+    description: current[spec.field] ?? '',
+    field: spec.field,
+  }));
+  items.push({ label: '$(clear-all) Clear All Filters', field: null });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Filter sessions by',
+  });
+  if (!selected) {
+    return undefined;
+  }
+  if (!selected.field) {
+    return {};
+  }
+
+  const spec = FILTER_FIELDS.find((item) => item.field === selected.field);
+  if (!spec) {
+    return undefined;
+  }
+  const value = await vscode.window.showInputBox({
+    prompt: spec.prompt,
+    placeHolder: spec.placeHolder,
+    value: current[spec.field],
+    validateInput: (text) => {
+      const trimmed = text.trim();
+      if (!trimmed) {
+        return null;
+      }
+      if (
+        (spec.field === 'since' || spec.field === 'until') &&
+        parseTime(trimmed) === null
+      ) {
+        return 'Enter a date (YYYY-MM-DD), an ISO time or a relative time such as 3d';
+      }
+      if (
+        spec.field === 'project' &&
+        !resolveProjectFilter(trimmed, getHistoryStore())
+      ) {
+        return 'Not a known project ID or a directory';
+      }
+      return null;
+    },
+  });
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const updated = { ...current };
+  if (value.trim()) {
+    updated[spec.field] = value.trim();
+  } else {
+    delete updated[spec.field];
+  }
+  return updated;
+}
+
+export async function showToolCall(call: ToolPart) {
+  // Show the untruncated call; the tree tooltip only has room for a preview
+  const doc = await vscode.workspace.openTextDocument({
+    content: JSON.stringify(call, null, 2),
+    language: 'json',
+  });
+  await vscode.window.showTextDocument(doc);
+}
+
+let conflictDiagnostics: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Diagnostics marking conflicts left in files by three-way reverts. Created
+ * on first use; the extension disposes of it on deactivation.
+ */
+export function getConflictDiagnostics(): vscode.DiagnosticCollection {
+  if (!conflictDiagnostics) {
+    conflictDiagnostics =
+      vscode.languages.createDiagnosticCollection('opencode-history');
+  }
+  return conflictDiagnostics;
+}
+
+/**
+ * Mark each `<<<<<<<` conflict block in a document. Clears the file's
+ * diagnostics once no markers are left.
+ */
+export function updateConflictDiagnostics(
+  document: vscode.TextDocument,
+  source = 'Revert left a merge conflict',
+) {
+  const diagnostics: vscode.Diagnostic[] = [];
+  for (let line = 0; line < document.lineCount; line++) {
+    if (document.lineAt(line).text.startsWith('<<<<<<< ')) {
+      const diagnostic = new vscode.Diagnostic(
+        document.lineAt(line).range,
+        source,
+        vscode.DiagnosticSeverity.Error,
+      );
+      diagnostic.source = 'OpenCode History';
+      diagnostics.push(diagnostic);
+    }
+  }
+  getConflictDiagnostics().set(document.uri, diagnostics);
+}
+
+async function showDiffPreview(diff: string) {
+  const doc = await vscode.workspace.openTextDocument({
+    content: diff,
+    language: 'diff',
+  });
+  await vscode.window.showTextDocument(doc, {
+    preview: true,
+    preserveFocus: true,
+    viewColumn: vscode.ViewColumn.Beside,
+  });
+}
+
+async function confirm(message: string, detail: string, action: string) {
+  const choice = await vscode.window.showWarningMessage(
+    message,
+    { modal: true, detail },
+    action,
+  );
+  return choice === action;
+}
+
+async function offerUndo(message: string, journalId: string | null) {
+  if (!journalId) {
+    vscode.window.showInformationMessage(message);
+    return;
+  }
+  const choice = await vscode.window.showInformationMessage(message, 'Undo');
+  if (choice !== 'Undo') {
+    return;
+  }
+  try {
+    const undone = undoRevert(journalId, {}, getHistoryStore());
+    vscode.window.showInformationMessage(
+      `Restored ${undone.files.length} file(s)`,
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage((error as Error).message);
+  }
+}
+
+async function reportRevertResult(result: RevertResult) {
+  const conflicts = result.files.filter((file) => file.outcome === 'conflict');
+  const failed = result.files.filter((file) => file.outcome === 'failed');
+  const done = result.files.filter(
+    (file) => file.outcome === 'reverted' || file.outcome === 'merged',
+  );
+
+  for (const file of conflicts) {
+    const document = await vscode.workspace.openTextDocument(
+      vscode.Uri.file(path.join(result.projectDir, file.path)),
+    );
+    updateConflictDiagnostics(
+      document,
+      `Merge conflict from reverting ${result.messageIds.join(', ')}`,
+    );
+  }
+
+  if (failed.length > 0) {
+    vscode.window.showErrorMessage(
+      `Could not revert ${failed.length} file(s): ${failed
+        .map((file) => `${file.path} (${file.message ?? 'failed'})`)
+        .join(', ')}`,
+    );
+  }
+
+  if (conflicts.length > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `${conflicts.length} file(s) have merge conflicts: ${conflicts
+        .map((file) => file.path)
+        .join(', ')}`,
+      'Open',
+    );
+    if (choice === 'Open') {
+      await vscode.window.showTextDocument(
+        vscode.Uri.file(path.join(result.projectDir, conflicts[0].path)),
+      );
     }
   }
+
+  if (done.length > 0 && conflicts.length === 0) {
+    await offerUndo(`Reverted ${done.length} file(s)`, result.journalId);
+  }
+}
+
+function describePlan(plan: RevertResult): string {
+  return plan.files
+    .map((file) => {
+      const outcome = {
+        reverted: 'revert',
+        merged: 'merge',
+        conflict: 'conflict',
+        'already-reverted': 'already reverted',
+        failed: `cannot revert${file.message ? `: ${file.message}` : ''}`,
+      }[file.outcome];
+      return `${file.path} — ${outcome}`;
+    })
+    .join('\n');
+}
+
+async function revertWithPreview(
+  messageId: string,
+  filePath: string | undefined,
+  title: string,
+) {
+  const store = getHistoryStore();
+  const paths = filePath ? [filePath] : undefined;
+
+  let range;
+  let plan: RevertResult;
+  try {
+    range = getRevertRange({ messageId }, store);
+    plan = revertRange(range, { dryRun: true, threeWay: true, paths }, store);
+  } catch (error) {
+    vscode.window.showErrorMessage((error as Error).message);
+    return;
+  }
+
+  if (plan.files.length === 0) {
+    vscode.window.showInformationMessage(
+      'No changes to revert for this message',
+    );
+    return;
+  }
+  if (plan.files.every((file) => file.outcome === 'already-reverted')) {
+    vscode.window.showInformationMessage('These changes are already reverted');
+    return;
+  }
+
+  const diff = getMessageDiff(messageId, filePath, 'message', store);
+  if (diff) {
+    await showDiffPreview(diff);
+  }
+
+  const confirmed = await confirm(
+    title,
+    `The shown changes will be undone in your work tree:\n\n${describePlan(plan)}\n\nCurrent contents are backed up and can be restored with Undo.`,
+    'Revert',
+  );
+  if (!confirmed) {
+    return;
+  }
+
+  try {
+    await reportRevertResult(
+      revertRange(range, { threeWay: true, paths }, store),
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage((error as Error).message);
+  }
+}
+
+async function pickMessageFile(
+  messageId: string,
+  placeHolder: string,
+): Promise<string | undefined> {
+  const files = getMessageFiles(messageId, getHistoryStore());
+  if (files.length === 0) {
+    vscode.window.showInformationMessage(
+      'No file changes found for this message',
+    );
+    return undefined;
+  }
+  if (files.length === 1) {
+    return files[0];
+  }
+  return vscode.window.showQuickPick(files, { placeHolder });
+}
+
+export async function revertMessage(
+  messageArg?: string | { message: Message },
+) {
+  const messageId = resolveMessageId(messageArg);
+  if (!messageId) {
+    return;
+  }
+  await revertWithPreview(
+    messageId,
+    undefined,
+    `Revert all changes made by ${messageId}?`,
+  );
+}
+
+export async function revertFile(
+  messageArg?: string | { message: Message },
+  filePath?: string,
+) {
+  const messageId = resolveMessageId(messageArg);
+  if (!messageId) {
+    return;
+  }
+  filePath ??= await pickMessageFile(messageId, 'Select a file to revert');
+  if (!filePath) {
+    return;
+  }
+  await revertWithPreview(
+    messageId,
+    filePath,
+    `Revert ${messageId}'s changes to ${filePath}?`,
+  );
+}
+
+export async function restoreFile(
+  messageArg?: string | { message: Message },
+  filePath?: string,
+) {
+  const messageId = resolveMessageId(messageArg);
+  if (!messageId) {
+    return;
+  }
+  filePath ??= await pickMessageFile(messageId, 'Select a file to restore');
+  if (!filePath) {
+    return;
+  }
+
+  const store = getHistoryStore();
+  let file;
+  try {
+    file = getFileAtMessage(messageId, filePath, 'after', store);
+  } catch (error) {
+    vscode.window.showErrorMessage((error as Error).message);
+    return;
+  }
+  if (!file?.content || !file.projectDir) {
+    vscode.window.showErrorMessage(
+      file
+        ? `${filePath} did not exist at ${messageId}`
+        : `Snapshot not available for message: ${messageId}`,
+    );
+    return;
+  }
+
+  const diff = getRestoreDiff(file);
+  if (diff === null) {
+    vscode.window.showErrorMessage(
+      'Failed to compute diff against the current file',
+    );
+    return;
+  }
+  if (!diff.trim()) {
+    vscode.window.showInformationMessage(
+      `${filePath} already matches ${messageId}`,
+    );
+    return;
+  }
+
+  await showDiffPreview(diff);
+  const confirmed = await confirm(
+    `Restore ${filePath} to its state after ${messageId}?`,
+    'The file will be overwritten with its snapshot content. The current contents are backed up and can be restored with Undo.',
+    'Restore',
+  );
+  if (!confirmed) {
+    return;
+  }
+
+  const target = vscode.Uri.file(path.join(file.projectDir, file.filePath));
+  const backup = createRevertBackup(
+    file.projectDir,
+    [messageId],
+    [file.filePath],
+    store,
+  );
+  try {
+    await vscode.workspace.fs.writeFile(target, file.content);
+  } catch (error) {
+    discardRevertBackup(backup, store);
+    vscode.window.showErrorMessage(
+      `Could not write ${filePath}: ${(error as Error).message}`,
+    );
+    return;
+  }
+  const journal = finishRevertBackup(backup, [file.filePath], store);
+  await offerUndo(`Restored ${filePath}`, journal?.id ?? null);
 }
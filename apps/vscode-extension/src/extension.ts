@@ -1,32 +1,210 @@
 import * as vscode from 'vscode';
-import { HistoryTreeDataProvider } from './historyTreeProvider';
-import { showMessageDiff, showSessionChanges, showFileHistory } from './commands';
+import { HistoryTreeDataProvider, SessionFilterInput, describeSessionFilter } from './historyTreeProvider';
+import {
+  showMessageDiff,
+  showMessageDiffWorktree,
+  showMessageFileDiff,
+  revealMessageFile,
+  showSessionChanges,
+  showTaskChanges,
+  compareMessages,
+  showFileHistory,
+  searchMessages,
+  editSessionFilter,
+  showToolCall,
+  revertMessage,
+  revertFile,
+  restoreFile,
+  getConflictDiagnostics,
+  updateConflictDiagnostics,
+} from './commands';
+import { resetHistoryStore } from './store';
+import { StorageWatcher } from './storageWatcher';
+import { BlameDecorations } from './blameDecorations';
+import { SNAPSHOT_SCHEME, SnapshotContentProvider } from './snapshotContentProvider';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('OpenCode History Viewer extension is now active');
 
   // Register tree view
   const historyProvider = new HistoryTreeDataProvider();
-  vscode.window.registerTreeDataProvider('opencodeHistory', historyProvider);
+  const treeView = vscode.window.createTreeView('opencodeHistory', { treeDataProvider: historyProvider });
+  context.subscriptions.push(treeView);
+
+  // Scope the view to the workspace's projects unless the user asked for all of them
+  const setAllProjects = (allProjects: boolean) => {
+    void context.workspaceState.update('opencodeHistory.allProjects', allProjects);
+    historyProvider.setAllProjects(allProjects);
+  };
+  historyProvider.setAllProjects(context.workspaceState.get('opencodeHistory.allProjects', false));
+
+  // Optionally list projects at the root, each expanding into its sessions
+  const setGroupByProject = (groupByProject: boolean) => {
+    void context.workspaceState.update('opencodeHistory.groupByProject', groupByProject);
+    historyProvider.setGroupByProject(groupByProject);
+  };
+  historyProvider.setGroupByProject(context.workspaceState.get('opencodeHistory.groupByProject', false));
+
+  // Filter by time, project and title; the view's description shows the active filter
+  let sessionFilter = context.workspaceState.get<SessionFilterInput>('opencodeHistory.sessionFilter', {});
+  const setSessionFilter = (filter: SessionFilterInput) => {
+    sessionFilter = filter;
+    void context.workspaceState.update('opencodeHistory.sessionFilter', filter);
+    treeView.description = describeSessionFilter(filter);
+    historyProvider.setFilter(filter);
+  };
+  setSessionFilter(sessionFilter);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => historyProvider.refresh())
+  );
+
+  // Refresh sessions as agents write to storage; count the ones changed while the view is hidden
+  const unseenSessions = new Set<string>();
+  const updateBadge = () => {
+    treeView.badge = unseenSessions.size > 0
+      ? { value: unseenSessions.size, tooltip: `${unseenSessions.size} session(s) with new agent activity` }
+      : undefined;
+  };
+  // Gutter annotations for agent-written lines, recomputed as history grows
+  const blameDecorations = new BlameDecorations(context.globalState);
+  context.subscriptions.push(blameDecorations);
+
+  const storageWatcher = new StorageWatcher((sessionIds) => {
+    historyProvider.refreshSessions(sessionIds);
+    blameDecorations.refresh();
+    if (!treeView.visible) {
+      sessionIds.forEach((id) => unseenSessions.add(id));
+      updateBadge();
+    }
+  });
+  context.subscriptions.push(storageWatcher);
+  context.subscriptions.push(
+    treeView.onDidChangeVisibility((event) => {
+      if (event.visible) {
+        unseenSessions.clear();
+        updateBadge();
+      }
+    })
+  );
+
+  // Serve snapshot file contents for the diff editor
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(SNAPSHOT_SCHEME, new SnapshotContentProvider())
+  );
 
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand('opencode-history.showMessageDiff', showMessageDiff)
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.showMessageDiffWorktree', showMessageDiffWorktree)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.showMessageFileDiff', showMessageFileDiff)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.revealMessageFile', revealMessageFile)
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('opencode-history.showSessionChanges', showSessionChanges)
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.showTaskChanges', showTaskChanges)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.compareMessages', compareMessages)
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('opencode-history.showFileHistory', showFileHistory)
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.search', searchMessages)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.showToolCall', showToolCall)
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('opencode-history.refresh', () => {
       historyProvider.refresh();
     })
   );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.showAllProjects', () => setAllProjects(true))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.showWorkspaceProjects', () => setAllProjects(false))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.groupByProject', () => setGroupByProject(true))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.ungroupByProject', () => setGroupByProject(false))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.filterSessions', async () => {
+      const filter = await editSessionFilter(sessionFilter);
+      if (filter) {
+        setSessionFilter(filter);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.clearSessionFilter', () => setSessionFilter({}))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.toggleBlame', () => blameDecorations.toggle())
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.revertMessage', revertMessage)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.revertFile', revertFile)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('opencode-history.restoreFile', restoreFile)
+  );
+
+  // Keep conflict diagnostics in sync as the user resolves them
+  context.subscriptions.push(getConflictDiagnostics());
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      if (getConflictDiagnostics().has(document.uri)) {
+        updateConflictDiagnostics(document);
+      }
+    })
+  );
+
+  // Re-resolve storage roots when the user points the extension elsewhere
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('opencodeHistory')) {
+        resetHistoryStore();
+        storageWatcher.watch();
+        historyProvider.refresh();
+        blameDecorations.refresh();
+      }
+    })
+  );
 }
 
 export function deactivate() {}
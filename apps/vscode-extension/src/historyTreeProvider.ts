@@ -1,10 +1,60 @@
+import * as path from 'node:path';
 import * as vscode from 'vscode';
 import {
   getRecentSessions,
+  getSessionTree,
   getSessionMessages,
-  Session,
+  getMessageDiff,
+  getMessageFiles,
+  getMessageSummary,
+  getMessageToolCalls,
+  getProjectDirectory,
+  getProjectIdFromMessage,
+  getDirectoryFilter,
+  isInDirectory,
+  listProjects,
+  parseTime,
+  resolveProjectFilter,
+  getToolCallSummary,
+  parseUnifiedDiff,
+  DiffFile,
+  DiffFileStatus,
+  SessionFilter,
+  SessionNode,
   Message,
+  Project,
+  ToolPart,
 } from '@oc-hist/shared';
+import { getHistoryStore } from './store';
+
+/** Sessions listed per workspace folder (or for all projects). */
+const RECENT_SESSION_LIMIT = 10;
+
+/**
+ * Session filter as the user entered it. Kept as text so relative times such
+ * as `3d` stay relative to each refresh.
+ */
+export interface SessionFilterInput {
+  /** Date, ISO time or relative time. */
+  since?: string;
+  until?: string;
+  /** Project ID or project directory. */
+  project?: string;
+  title?: string;
+}
+
+/** Short description of the active filter, or undefined if there is none. */
+export function describeSessionFilter(
+  input: SessionFilterInput,
+): string | undefined {
+  const parts = [
+    input.project && `project: ${input.project}`,
+    input.since && `since ${input.since}`,
+    input.until && `until ${input.until}`,
+    input.title && `"${input.title}"`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
 
 export class HistoryTreeDataProvider implements vscode.TreeDataProvider<HistoryItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<
@@ -14,61 +64,502 @@ export class HistoryTreeDataProvider implements vscode.TreeDataProvider<HistoryI
     HistoryItem | undefined | null | void
   > = this._onDidChangeTreeData.event;
 
+  /** Show sessions from every project instead of the workspace's. */
+  private allProjects = false;
+  /** List projects at the root, each with its recent sessions. */
+  private groupByProject = false;
+  /** Filter set with the filter command, applied on top of the scoping. */
+  private filterInput: SessionFilterInput = {};
+  /** Session filter for the root when it lists sessions directly. */
+  private rootFilter: SessionFilter = {};
+  /** Session items from the last render by parent node (undefined: root). */
+  private sessionItems = new Map<SessionGroupItem | undefined, SessionItem[]>();
+  /** Project items from the last render when grouping by project. */
+  private projectItems: ProjectItem[] = [];
+
   refresh(): void {
+    this.sessionItems.clear();
     this._onDidChangeTreeData.fire();
   }
 
+  setAllProjects(allProjects: boolean): void {
+    this.allProjects = allProjects;
+    void vscode.commands.executeCommand(
+      'setContext',
+      'opencodeHistory.allProjects',
+      allProjects,
+    );
+    this.refresh();
+  }
+
+  setGroupByProject(groupByProject: boolean): void {
+    this.groupByProject = groupByProject;
+    void vscode.commands.executeCommand(
+      'setContext',
+      'opencodeHistory.groupByProject',
+      groupByProject,
+    );
+    this.refresh();
+  }
+
+  setFilter(input: SessionFilterInput): void {
+    this.filterInput = input;
+    void vscode.commands.executeCommand(
+      'setContext',
+      'opencodeHistory.filtered',
+      describeSessionFilter(input) !== undefined,
+    );
+    this.refresh();
+  }
+
+  /**
+   * Refresh only the given sessions' nodes (a spawned session refreshes its
+   * top-level session). A list whose sessions or order changed is refreshed
+   * as a whole.
+   */
+  refreshSessions(sessionIds: string[]): void {
+    if (this.groupByProject) {
+      // A new project, or a change in project order, needs a new root
+      const projects = this.getProjects();
+      const unchangedProjects =
+        projects.length === this.projectItems.length &&
+        projects.every(
+          (project, i) => project.id === this.projectItems[i].project.id,
+        );
+      if (!unchangedProjects) {
+        this.refresh();
+        return;
+      }
+      projects.forEach((project, i) => {
+        this.projectItems[i].update(project);
+        this._onDidChangeTreeData.fire(this.projectItems[i]);
+      });
+    }
+
+    for (const [parent, items] of this.sessionItems) {
+      const sessions = getSessionTree(
+        RECENT_SESSION_LIMIT,
+        parent?.filter ?? this.rootFilter,
+        getHistoryStore(),
+      );
+      const unchangedOrder =
+        sessions.length === items.length &&
+        sessions.every((session, i) => session.id === items[i].sessionId);
+      if (!unchangedOrder) {
+        if (!parent) {
+          this.refresh();
+          return;
+        }
+        this.sessionItems.delete(parent);
+        this._onDidChangeTreeData.fire(parent);
+        continue;
+      }
+
+      sessions.forEach((session, i) => {
+        if (getTreeSessionIds(session).some((id) => sessionIds.includes(id))) {
+          items[i].update(session);
+          this._onDidChangeTreeData.fire(items[i]);
+        }
+      });
+    }
+  }
+
   getTreeItem(element: HistoryItem): vscode.TreeItem {
     return element;
   }
 
   async getChildren(element?: HistoryItem): Promise<HistoryItem[]> {
     if (!element) {
-      // Root level - show recent sessions
-      const sessions = await getRecentSessions(10);
-      return sessions.map((session) => new SessionItem(session));
+      // Root level - one node per folder in a multi-root workspace, else the
+      // recent sessions of the workspace (or of every project). A project
+      // picked in the filter replaces the workspace scoping.
+      const filter = this.getFilter();
+      if (this.groupByProject) {
+        this.projectItems = this.getProjects().map(
+          (project) =>
+            new ProjectItem(project, {
+              ...filter,
+              projectIds: [project.id],
+              directory: undefined,
+            }),
+        );
+        return this.projectItems;
+      }
+      const folders =
+        this.allProjects || this.filterInput.project
+          ? []
+          : (vscode.workspace.workspaceFolders ?? []);
+      if (folders.length > 1) {
+        return folders.map(
+          (folder) =>
+            new FolderItem(folder, {
+              ...getDirectoryFilter(folder.uri.fsPath, getHistoryStore()),
+              ...filter,
+            }),
+        );
+      }
+      this.rootFilter = {
+        ...(folders.length === 1
+          ? getDirectoryFilter(folders[0].uri.fsPath, getHistoryStore())
+          : {}),
+        ...filter,
+      };
+      return this.getSessionItems(undefined, this.rootFilter);
+    } else if (
+      element instanceof FolderItem ||
+      element instanceof ProjectItem
+    ) {
+      return this.getSessionItems(element, element.filter);
     } else if (element instanceof SessionItem) {
-      // Show messages with file changes in this session
-      const messages = await getSessionMessages(element.sessionId);
-      return messages.map((msg) => new MessageItem(msg, element.sessionId));
+      // Show the sessions it spawned, then its messages with file changes
+      const messages = await getSessionMessages(
+        element.sessionId,
+        getHistoryStore(),
+      );
+      return [
+        ...element.session.children.map((child) => new SessionItem(child)),
+        ...messages.map(
+          (msg) =>
+            new MessageItem(
+              msg,
+              element.sessionId,
+              getMessageToolCalls(msg.id, getHistoryStore()),
+              getMessageSummary(msg.id, getHistoryStore()),
+            ),
+        ),
+      ];
+    } else if (element instanceof MessageItem) {
+      const children: HistoryItem[] = getFileItems(element.message.id);
+      if (element.toolCalls.length > 0) {
+        children.push(new ToolsItem(element.message.id, element.toolCalls));
+      }
+      return children;
+    } else if (element instanceof ToolsItem) {
+      return element.toolCalls.map((call) => new ToolCallItem(call));
     }
     return [];
   }
+
+  /**
+   * Projects to list when grouping: those of the workspace (unless showing
+   * all projects) or of the filter's project, leaving out projects without a
+   * session matching the time and title filters.
+   */
+  private getProjects(): Project[] {
+    const filter = this.getFilter();
+    let scope: SessionFilter[] = [];
+    if (this.filterInput.project) {
+      scope = [filter];
+    } else if (!this.allProjects) {
+      scope = (vscode.workspace.workspaceFolders ?? []).map((folder) =>
+        getDirectoryFilter(folder.uri.fsPath, getHistoryStore()),
+      );
+    }
+
+    const filtered = describeSessionFilter(this.filterInput) !== undefined;
+    return listProjects(getHistoryStore()).filter(
+      (project) =>
+        (scope.length === 0 ||
+          scope.some(
+            (item) =>
+              item.projectIds?.includes(project.id) ||
+              (item.directory !== undefined &&
+                project.directory !== null &&
+                isInDirectory(project.directory, item.directory)),
+          )) &&
+        (!filtered ||
+          getRecentSessions(
+            1,
+            { ...filter, projectIds: [project.id], directory: undefined },
+            getHistoryStore(),
+          ).length > 0),
+    );
+  }
+
+  /** Resolve the filter input; an unknown project matches no sessions. */
+  private getFilter(): SessionFilter {
+    const { since, until, project, title } = this.filterInput;
+    const projectFilter = project
+      ? (resolveProjectFilter(project, getHistoryStore()) ?? {
+          projectIds: [],
+        })
+      : {};
+    return {
+      ...projectFilter,
+      since: since ? (parseTime(since) ?? undefined) : undefined,
+      until: until ? (parseTime(until, true) ?? undefined) : undefined,
+      title: title || undefined,
+    };
+  }
+
+  private getSessionItems(
+    parent: SessionGroupItem | undefined,
+    filter: SessionFilter,
+  ): SessionItem[] {
+    const items = getSessionTree(
+      RECENT_SESSION_LIMIT,
+      filter,
+      getHistoryStore(),
+    ).map((session) => new SessionItem(session));
+    this.sessionItems.set(parent, items);
+    return items;
+  }
+}
+
+class FolderItem extends vscode.TreeItem {
+  constructor(
+    public readonly folder: vscode.WorkspaceFolder,
+    public readonly filter: SessionFilter,
+  ) {
+    super(folder.name, vscode.TreeItemCollapsibleState.Expanded);
+    this.iconPath = new vscode.ThemeIcon('root-folder');
+    this.tooltip = folder.uri.fsPath;
+    this.contextValue = 'workspaceFolder';
+  }
+}
+
+class ProjectItem extends vscode.TreeItem {
+  constructor(
+    public project: Project,
+    public readonly filter: SessionFilter,
+  ) {
+    super(
+      project.directory ? path.basename(project.directory) : project.id,
+      vscode.TreeItemCollapsibleState.Collapsed,
+    );
+    this.contextValue = 'project';
+    this.update(project);
+  }
+
+  update(project: Project): void {
+    this.project = project;
+    this.description = `${project.sessionCount} sessions · ${project.lastActivity}`;
+    this.iconPath = new vscode.ThemeIcon(
+      project.directoryExists ? 'project' : 'warning',
+    );
+    const directory = project.directory
+      ? `${project.directory}${project.directoryExists ? '' : ' (missing)'}`
+      : '(unknown)';
+    this.tooltip = `Project: ${project.id}\nDirectory: ${directory}\nLast activity: ${project.lastActivity}`;
+  }
+}
+
+/** Tree nodes that list the recent sessions matching their filter. */
+type SessionGroupItem = FolderItem | ProjectItem;
+
+/** IDs of a session and every session below it. */
+function getTreeSessionIds(session: SessionNode): string[] {
+  return [session.id, ...session.children.flatMap(getTreeSessionIds)];
 }
 
 class SessionItem extends vscode.TreeItem {
-  constructor(public readonly session: Session) {
+  constructor(public session: SessionNode) {
     super(
       session.title || '(no title)',
       vscode.TreeItemCollapsibleState.Collapsed,
     );
     this.sessionId = session.id;
-    this.description = `${session.messageCount} messages`;
-    this.tooltip = `Session: ${session.id}\nModified: ${session.modified}`;
     this.contextValue = 'session';
+    this.update(session);
   }
 
   sessionId: string;
+
+  update(session: SessionNode): void {
+    this.session = session;
+    this.label = session.title || '(no title)';
+    this.description =
+      session.children.length > 0
+        ? `${session.messageCount} messages · ${session.children.length} subagent(s)`
+        : `${session.messageCount} messages`;
+    this.tooltip = `Session: ${session.id}\nModified: ${session.modified}`;
+    if (session.parentId) {
+      this.iconPath = new vscode.ThemeIcon('hubot');
+      this.tooltip += `\nSpawned by: ${session.parentId}`;
+    }
+  }
+}
+
+/** Longest message summary shown as a label before truncating. */
+const MAX_LABEL_LENGTH = 60;
+
+function truncateLabel(text: string): string {
+  return text.length > MAX_LABEL_LENGTH
+    ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…`
+    : text;
 }
 
 class MessageItem extends vscode.TreeItem {
   constructor(
     public readonly message: Message,
     public readonly sessionId: string,
+    public readonly toolCalls: ToolPart[],
+    summary: string | null,
   ) {
     super(
-      `Message ${message.id.substring(0, 12)}...`,
-      vscode.TreeItemCollapsibleState.None,
+      summary
+        ? truncateLabel(summary)
+        : `Message ${message.id.substring(0, 12)}...`,
+      vscode.TreeItemCollapsibleState.Collapsed,
     );
     this.description = message.timestamp;
     this.tooltip = `Message: ${message.id}\nHash: ${message.hash}`;
+    if (summary) {
+      this.tooltip = `${summary}\n\n${this.tooltip}`;
+    }
     this.contextValue = 'message';
+  }
+}
+
+const FILE_STATUS_ICONS: Record<DiffFileStatus, [string, string]> = {
+  added: ['diff-added', 'gitDecoration.addedResourceForeground'],
+  deleted: ['diff-removed', 'gitDecoration.deletedResourceForeground'],
+  modified: ['diff-modified', 'gitDecoration.modifiedResourceForeground'],
+  renamed: ['diff-renamed', 'gitDecoration.renamedResourceForeground'],
+};
+
+/**
+ * Files a message changed, with line counts from its own diff. When the
+ * snapshots are gone only the paths recorded in its patch parts are known.
+ */
+function getFileItems(messageId: string): FileItem[] {
+  const store = getHistoryStore();
+  const projectId = getProjectIdFromMessage(messageId, store);
+  const projectDir = projectId ? getProjectDirectory(projectId, store) : null;
+
+  const diff = getMessageDiff(messageId, undefined, 'message', store);
+  if (diff) {
+    return parseUnifiedDiff(diff).map(
+      (file) =>
+        new FileItem(
+          messageId,
+          file.newPath ?? file.oldPath ?? '',
+          file,
+          projectDir,
+        ),
+    );
+  }
+  return getMessageFiles(messageId, store).map(
+    (filePath) => new FileItem(messageId, filePath, null, projectDir),
+  );
+}
+
+class FileItem extends vscode.TreeItem {
+  constructor(
+    public readonly messageId: string,
+    public readonly filePath: string,
+    change: DiffFile | null,
+    projectDir: string | null,
+  ) {
+    super(path.posix.basename(filePath), vscode.TreeItemCollapsibleState.None);
+
+    const status = change?.status ?? 'modified';
+    const [icon, color] = FILE_STATUS_ICONS[status];
+    this.iconPath = new vscode.ThemeIcon(icon, new vscode.ThemeColor(color));
+
+    const dir = path.posix.dirname(filePath);
+    let stats = '';
+    if (change) {
+      stats = change.binary
+        ? 'binary'
+        : `+${change.additions} −${change.deletions}`;
+    }
+    this.description = [dir === '.' ? '' : dir, stats]
+      .filter(Boolean)
+      .join(' · ');
+    this.tooltip =
+      change?.status === 'renamed' && change.oldPath
+        ? `${change.oldPath} → ${filePath} (renamed)`
+        : `${filePath} (${status})`;
+
+    if (projectDir) {
+      this.resourceUri = vscode.Uri.file(path.join(projectDir, filePath));
+    }
+    this.contextValue = 'messageFile';
+    this.command = {
+      command: 'opencode-history.showMessageFileDiff',
+      title: 'Show File Diff',
+      arguments: [messageId, filePath],
+    };
+  }
+}
+
+class ToolsItem extends vscode.TreeItem {
+  constructor(
+    public readonly messageId: string,
+    public readonly toolCalls: ToolPart[],
+  ) {
+    super('Tools', vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = `${toolCalls.length} calls`;
+    this.iconPath = new vscode.ThemeIcon('tools');
+    this.contextValue = 'tools';
+  }
+}
+
+/** Output lines shown in a tool call's tooltip before truncating. */
+const TOOLTIP_OUTPUT_LINES = 20;
+
+function truncateLines(text: string, maxLines: number): string {
+  const lines = text.replace(/\n$/, '').split('\n');
+  if (lines.length <= maxLines) {
+    return lines.join('\n');
+  }
+  return [
+    ...lines.slice(0, maxLines),
+    `… (${lines.length - maxLines} more lines)`,
+  ].join('\n');
+}
+
+function toolStatusIcon(call: ToolPart): vscode.ThemeIcon {
+  switch (call.status) {
+    case 'completed':
+      return new vscode.ThemeIcon('pass');
+    case 'error':
+      return new vscode.ThemeIcon(
+        'error',
+        new vscode.ThemeColor('errorForeground'),
+      );
+    default:
+      return new vscode.ThemeIcon('loading~spin');
+  }
+}
+
+class ToolCallItem extends vscode.TreeItem {
+  constructor(public readonly call: ToolPart) {
+    super(call.tool, vscode.TreeItemCollapsibleState.None);
+    this.description = getToolCallSummary(call);
+    this.iconPath = toolStatusIcon(call);
+    this.contextValue = 'toolCall';
+
+    const timing =
+      call.start !== null && call.end !== null
+        ? ` · ${call.end - call.start} ms`
+        : '';
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${call.tool}** · ${call.status}${timing}\n\n`);
+    tooltip.appendCodeblock(JSON.stringify(call.input, null, 2), 'json');
+    if (call.output) {
+      tooltip.appendCodeblock(truncateLines(call.output, TOOLTIP_OUTPUT_LINES));
+    }
+    if (call.error) {
+      tooltip.appendMarkdown('**Error**\n\n');
+      tooltip.appendCodeblock(truncateLines(call.error, TOOLTIP_OUTPUT_LINES));
+    }
+    this.tooltip = tooltip;
+
     this.command = {
-      command: 'opencode-history.showMessageDiff',
-      title: 'Show Diff',
-      arguments: [message.id],
+      command: 'opencode-history.showToolCall',
+      title: 'Show Tool Call',
+      arguments: [call],
     };
   }
 }
 
-type HistoryItem = SessionItem | MessageItem;
+type HistoryItem =
+  | FolderItem
+  | ProjectItem
+  | SessionItem
+  | MessageItem
+  | FileItem
+  | ToolsItem
+  | ToolCallItem;
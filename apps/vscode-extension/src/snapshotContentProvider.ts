@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import {
+  SnapshotReadError,
+  getSnapshotDir,
+  readSnapshotFile,
+} from '@oc-hist/shared';
+import { getHistoryStore } from './store';
+
+export const SNAPSHOT_SCHEME = 'opencode-snapshot';
+
+/**
+ * Build a URI for a file as stored in a snapshot tree. The file path is kept
+ * as the URI path so VSCode picks the right language from its extension.
+ */
+export function toSnapshotUri(
+  projectId: string,
+  snapshot: string,
+  filePath: string,
+): vscode.Uri {
+  const query = new URLSearchParams({ project: projectId, snapshot });
+  return vscode.Uri.from({
+    scheme: SNAPSHOT_SCHEME,
+    path: `/${filePath}`,
+    query: query.toString(),
+  });
+}
+
+/**
+ * A URI that reads as an empty file, for sides of a diff where the file does
+ * not exist.
+ */
+export function toEmptySnapshotUri(filePath: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: SNAPSHOT_SCHEME, path: `/${filePath}` });
+}
+
+/**
+ * Serves `opencode-snapshot:` documents from the OpenCode snapshot repos.
+ * Files missing from the snapshot (added or deleted by a message) read as
+ * empty so diffs against them still open; so do unreadable snapshots, with a
+ * warning.
+ */
+export class SnapshotContentProvider
+  implements vscode.TextDocumentContentProvider
+{
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const query = new URLSearchParams(uri.query);
+    const projectId = query.get('project');
+    const snapshot = query.get('snapshot');
+    if (!projectId || !snapshot) {
+      return '';
+    }
+
+    const filePath = uri.path.replace(/^\//, '');
+    let content: Buffer | null;
+    try {
+      content = readSnapshotFile(
+        getSnapshotDir(projectId, getHistoryStore()),
+        snapshot,
+        filePath,
+      );
+    } catch (error) {
+      if (error instanceof SnapshotReadError) {
+        vscode.window.showWarningMessage(error.message);
+        return '';
+      }
+      throw error;
+    }
+    return content ? content.toString('utf8') : '';
+  }
+}
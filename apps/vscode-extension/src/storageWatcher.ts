@@ -0,0 +1,109 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { findMessageFile } from '@oc-hist/shared';
+import { getHistoryStore } from './store';
+
+/**
+ * Quiet time after the last storage event before refreshing. Longer than the
+ * history index's rescan interval, so the refresh sees the new files.
+ */
+const REFRESH_DELAY_MS = 1500;
+
+/**
+ * Watches OpenCode's `message/`, `part/` and `session/` storage and reports
+ * which sessions changed, batching bursts of writes from a running agent.
+ */
+export class StorageWatcher implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private pendingSessions = new Set<string>();
+  private pendingMessages = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly onSessionsChanged: (sessionIds: string[]) => void,
+  ) {
+    this.watch();
+  }
+
+  /**
+   * (Re)start watching the configured storage directory. Call after the
+   * `opencodeHistory` settings change.
+   */
+  watch(): void {
+    this.stop();
+
+    const config = vscode.workspace.getConfiguration('opencodeHistory');
+    if (!config.get<boolean>('autoRefresh', true)) {
+      return;
+    }
+
+    const storageRoot = getHistoryStore().storageRoot;
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(
+        vscode.Uri.file(storageRoot),
+        '{message,part,session}/**/*.json',
+      ),
+    );
+    const onEvent = (uri: vscode.Uri) => this.onStorageEvent(storageRoot, uri);
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(onEvent),
+      watcher.onDidChange(onEvent),
+      watcher.onDidDelete(onEvent),
+    );
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+
+  private stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pendingSessions.clear();
+    this.pendingMessages.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  private onStorageEvent(storageRoot: string, uri: vscode.Uri): void {
+    // <kind>/<dir>/<id>.json
+    const [kind, dir, file] = path
+      .relative(storageRoot, uri.fsPath)
+      .split(path.sep);
+    if (!dir || !file) {
+      return;
+    }
+
+    if (kind === 'message') {
+      this.pendingSessions.add(dir);
+    } else if (kind === 'session') {
+      this.pendingSessions.add(path.basename(file, '.json'));
+    } else if (kind === 'part') {
+      // Parts are keyed by message; map them to a session once indexed
+      this.pendingMessages.add(dir);
+    } else {
+      return;
+    }
+
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), REFRESH_DELAY_MS);
+  }
+
+  private flush(): void {
+    this.timer = undefined;
+    const sessionIds = new Set(this.pendingSessions);
+    for (const messageId of this.pendingMessages) {
+      const message = findMessageFile(messageId, getHistoryStore());
+      if (message) {
+        sessionIds.add(message.sessionId);
+      }
+    }
+    this.pendingSessions.clear();
+    this.pendingMessages.clear();
+
+    if (sessionIds.size > 0) {
+      this.onSessionsChanged([...sessionIds]);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import * as vscode from 'vscode';
+import { createHistoryStore, HistoryStore } from '@oc-hist/shared';
+
+let cachedStore: HistoryStore | null = null;
+
+/**
+ * Build the history store from the `opencodeHistory.*` settings, falling back
+ * to the environment (`OC_HIST_*`, `XDG_DATA_HOME`) for anything left empty.
+ */
+export function getHistoryStore(): HistoryStore {
+  if (!cachedStore) {
+    const config = vscode.workspace.getConfiguration('opencodeHistory');
+    cachedStore = createHistoryStore({
+      dataDir: config.get<string>('dataDir') || undefined,
+      storageRoot: config.get<string>('storageDir') || undefined,
+      snapshotRoot: config.get<string>('snapshotDir') || undefined,
+    });
+  }
+  return cachedStore;
+}
+
+export function resetHistoryStore(): void {
+  cachedStore = null;
+}
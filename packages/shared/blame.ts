@@ -0,0 +1,168 @@
+/**
+ * Split file content into lines, without a trailing empty line for the final
+ * newline.
+ */
+export function splitLines(content: string): string[] {
+  if (!content) {
+    return [];
+  }
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Find the middle snake of the shortest edit script from `a[aLo..aHi)` to
+ * `b[bLo..bHi)`: a run of matching lines that an optimal edit path passes
+ * through halfway, searched from both ends at once. The ends of the ranges
+ * must differ. `forward` and `backward` are scratch arrays indexed by
+ * diagonal around `offset`.
+ *
+ * @returns The snake's start and end as `[x, y, u, v]`, indexes into `a` and
+ *   `b`
+ */
+function findMiddleSnake(
+  a: string[],
+  aLo: number,
+  aHi: number,
+  b: string[],
+  bLo: number,
+  bHi: number,
+  forward: number[],
+  backward: number[],
+  offset: number,
+): [number, number, number, number] {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  // Forward diagonal k is backward diagonal delta - k
+  const delta = n - m;
+  const odd = Math.abs(delta) % 2 === 1;
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x += 1;
+        y += 1;
+      }
+      forward[offset + k] = x;
+      if (
+        odd &&
+        k >= delta - (d - 1) &&
+        k <= delta + (d - 1) &&
+        x + backward[offset + delta - k] >= n
+      ) {
+        return [aLo + x0, bLo + y0, aLo + x, bLo + y];
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x += 1;
+        y += 1;
+      }
+      backward[offset + k] = x;
+      if (
+        !odd &&
+        k >= delta - d &&
+        k <= delta + d &&
+        x + forward[offset + delta - k] >= n
+      ) {
+        return [aHi - x, bHi - y, aHi - x0, bHi - y0];
+      }
+    }
+  }
+
+  // Unreachable: the two searches always meet by d = ceil((n + m) / 2)
+  return [aLo, bLo, aLo, bLo];
+}
+
+/**
+ * Match the lines of `b` to the lines of `a` they were kept from, using a
+ * Myers shortest-edit diff in linear space: the middle snake splits the
+ * problem in two, so memory stays proportional to the file length however
+ * much was rewritten.
+ *
+ * @returns For each line of `b`, the index of the matching line in `a`, or
+ *   null if the line was inserted
+ */
+export function matchLines(a: string[], b: string[]): (number | null)[] {
+  const matches = new Array<number | null>(b.length).fill(null);
+  const offset = a.length + b.length + 1;
+  const forward = new Array<number>(2 * offset + 1).fill(0);
+  const backward = new Array<number>(2 * offset + 1).fill(0);
+
+  const ranges: [number, number, number, number][] = [
+    [0, a.length, 0, b.length],
+  ];
+  for (let range = ranges.pop(); range; range = ranges.pop()) {
+    let [aLo, aHi, bLo, bHi] = range;
+
+    // Common prefix and suffix need no diffing
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+      matches[bLo] = aLo;
+      aLo += 1;
+      bLo += 1;
+    }
+    while (aHi > aLo && bHi > bLo && a[aHi - 1] === b[bHi - 1]) {
+      aHi -= 1;
+      bHi -= 1;
+      matches[bHi] = aHi;
+    }
+    if (aLo === aHi || bLo === bHi) {
+      continue;
+    }
+
+    const [x, y, u, v] = findMiddleSnake(
+      a,
+      aLo,
+      aHi,
+      b,
+      bLo,
+      bHi,
+      forward,
+      backward,
+      offset,
+    );
+    for (let i = 0; i < u - x; i++) {
+      matches[y + i] = x + i;
+    }
+    ranges.push([aLo, x, bLo, y], [u, aHi, v, bHi]);
+  }
+
+  return matches;
+}
+
+/**
+ * Carry per-line attributions from one version of a file to the next: kept
+ * lines keep theirs, inserted lines get `inserted`.
+ */
+export function carryAttributions<T>(
+  previousLines: string[],
+  previous: T[],
+  nextLines: string[],
+  inserted: T,
+): T[] {
+  return matchLines(previousLines, nextLines).map((index) =>
+    index === null ? inserted : previous[index],
+  );
+}
@@ -0,0 +1,132 @@
+export interface DiffLine {
+  type: 'context' | 'add' | 'delete';
+  content: string;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed';
+
+export interface DiffFile {
+  /** Path before the change; null for added files. */
+  oldPath: string | null;
+  /** Path after the change; null for deleted files. */
+  newPath: string | null;
+  status: DiffFileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+function stripPrefix(value: string, prefix: string): string {
+  return value.startsWith(prefix) ? value.slice(prefix.length) : value;
+}
+
+function unquote(value: string): string {
+  // git quotes paths with unusual characters as C-style strings
+  if (value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return value;
+}
+
+/**
+ * Parse `git diff` output into files and hunks.
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = /^diff --git (?:"?a\/(.+?)"?) (?:"?b\/(.+?)"?)$/.exec(line);
+      file = {
+        oldPath: match ? unquote(match[1]) : null,
+        newPath: match ? unquote(match[2]) : null,
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+
+    if (!file) {
+      continue;
+    }
+
+    if (hunk) {
+      if (line.startsWith('+')) {
+        hunk.lines.push({ type: 'add', content: line.slice(1) });
+        file.additions += 1;
+        continue;
+      }
+      if (line.startsWith('-')) {
+        hunk.lines.push({ type: 'delete', content: line.slice(1) });
+        file.deletions += 1;
+        continue;
+      }
+      if (line.startsWith(' ')) {
+        hunk.lines.push({ type: 'context', content: line.slice(1) });
+        continue;
+      }
+      if (line.startsWith('\\')) {
+        // "\ No newline at end of file"
+        continue;
+      }
+    }
+
+    const hunkMatch = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunkMatch) {
+      hunk = {
+        header: line,
+        oldStart: Number(hunkMatch[1]),
+        oldLines: hunkMatch[2] === undefined ? 1 : Number(hunkMatch[2]),
+        newStart: Number(hunkMatch[3]),
+        newLines: hunkMatch[4] === undefined ? 1 : Number(hunkMatch[4]),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    hunk = null;
+    if (line.startsWith('new file mode')) {
+      file.status = 'added';
+      file.oldPath = null;
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+      file.newPath = null;
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.oldPath = unquote(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      file.status = 'renamed';
+      file.newPath = unquote(line.slice('rename to '.length));
+    } else if (line.startsWith('Binary files ')) {
+      file.binary = true;
+    } else if (line.startsWith('--- ') && file.status !== 'added') {
+      file.oldPath = stripPrefix(unquote(line.slice(4)), 'a/');
+    } else if (line.startsWith('+++ ') && file.status !== 'deleted') {
+      file.newPath = stripPrefix(unquote(line.slice(4)), 'b/');
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,22 @@
+/**
+ * Thrown when a revert or undo cannot be carried out at all, e.g. an unknown
+ * message or a missing snapshot. Per-file problems are reported in the
+ * results instead.
+ */
+export class RevertError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RevertError';
+  }
+}
+
+/**
+ * Thrown when a snapshot cannot be read, as opposed to a file that is simply
+ * not in it: a missing or corrupt object, or git failing to run.
+ */
+export class SnapshotReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotReadError';
+  }
+}
@@ -1,26 +1,112 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import * as os from 'node:os';
-import { spawnSync } from 'child_process';
 
-const homeDir = os.homedir();
-const storageRoot = path.join(homeDir, '.local/share/opencode/storage');
-const messageRoot = path.join(storageRoot, 'message');
-const partRoot = path.join(storageRoot, 'part');
-const sessionRoot = path.join(storageRoot, 'session');
-const snapshotRoot = path.join(homeDir, '.local/share/opencode/snapshot');
-
-export interface Entry {
-  name: string;
-  path: string;
-  stat: fs.Stats;
-}
+import { HistoryStore, getDefaultHistoryStore, getSnapshotDir } from './store';
+import {
+  formatDate,
+  formatTimestamp,
+  getDirectorySize,
+  isInDirectory,
+  readSnapshotFile,
+  runGit,
+} from './utils';
+import {
+  HistoryIndex,
+  IndexedMessage,
+  IndexedSession,
+  SessionScope,
+  getHistoryIndex,
+  getIndexedMessage,
+  getIndexedSession,
+  SessionActivity,
+  getIndexedAfterSnapshot,
+  getIndexedSessionFamily,
+  getIndexedSessionsByActivity,
+  isSessionInScope,
+} from './historyIndex';
+import {
+  MessagePart,
+  getConversationParts,
+  toProjectRelativePath,
+} from './parts';
+import { RevertError } from './errors';
+import { RevertRange, RevertStep } from './revert';
+import { carryAttributions, splitLines } from './blame';
+
+export * from './store';
+export * from './utils';
+export * from './historyIndex';
+export * from './parts';
+export * from './diff';
+export * from './search';
+export * from './errors';
+export * from './revert';
+export * from './revertJournal';
+export * from './blame';
+export * from './stats';
+export * from './maintenance';
 
 export interface Session {
   id: string;
   title: string;
   modified: string;
   messageCount: number;
+  /** Session that spawned this one (a task or subagent), if any. */
+  parentId: string | null;
+}
+
+/** A session with the sessions it spawned, oldest first. */
+export interface SessionNode extends Session {
+  children: SessionNode[];
+}
+
+/** The change between two messages, from `diffBetween`. */
+export interface MessageRangeDiff {
+  projectId: string;
+  snapshotDir: string;
+  /** The earlier of the two messages. */
+  fromMessageId: string;
+  /** The later of the two messages. */
+  toMessageId: string;
+  /** Snapshot before the earlier message's change. */
+  before: string;
+  /** Snapshot after the later message's change. */
+  after: string;
+  diff: string;
+}
+
+/** The combined change of a session and the sessions it spawned. */
+export interface TaskDiff {
+  projectId: string;
+  snapshotDir: string;
+  /** The session and its descendants, parents before children. */
+  sessionIds: string[];
+  /** Messages with changes across those sessions, oldest first. */
+  messageIds: string[];
+  before: string;
+  after: string;
+  diff: string;
+}
+
+export interface Project {
+  id: string;
+  /** Work tree of the project's most recent session whose directory exists. */
+  directory: string | null;
+  /** False when every recorded work tree has been deleted or moved. */
+  directoryExists: boolean;
+  sessionCount: number;
+  /** When the project's latest message was created. */
+  lastActivity: string;
+  /** Size of the snapshot repo on disk; null if there is none. */
+  snapshotBytes: number | null;
+}
+
+/** Narrows session listings; all conditions must match. */
+export interface SessionFilter extends SessionScope {
+  /** Only sessions with a message created at or after this time (ms). */
+  since?: number;
+  /** Only sessions with a message created at or before this time (ms). */
+  until?: number;
 }
 
 export interface Message {
@@ -30,6 +116,21 @@ export interface Message {
   hasSnapshot: boolean;
 }
 
+/**
+ * How a message diff is computed:
+ * - `message`: the message's own change, from its patch snapshot to the
+ *   snapshot taken after it (or the next snapshot in the session)
+ * - `worktree`: everything between the patch snapshot and the live work tree
+ */
+export type DiffMode = 'message' | 'worktree';
+
+export interface MessageSnapshots {
+  projectId: string;
+  snapshotDir: string;
+  before: string;
+  after: string | null;
+}
+
 export interface FileHistoryEntry {
   messageId: string;
   sessionId: string;
@@ -38,84 +139,74 @@ export interface FileHistoryEntry {
   hash: string;
 }
 
-export function listDirectories(dir: string): Entry[] {
-  try {
-    return fs
-      .readdirSync(dir, { withFileTypes: true })
-      .filter((entry) => entry.isDirectory())
-      .map((entry) => {
-        const entryPath = path.join(dir, entry.name);
-        return {
-          name: entry.name,
-          path: entryPath,
-          stat: fs.statSync(entryPath),
-        };
-      });
-  } catch {
-    return [];
-  }
+export interface TranscriptMessage {
+  id: string;
+  role: string | null;
+  timestamp: string;
+  parts: MessagePart[];
+  /** Project-relative files the message changed. */
+  files: string[];
+  /** The message's own change; null if it changed nothing or was not kept. */
+  diff: string | null;
 }
 
-export function listFiles(dir: string): Entry[] {
-  try {
-    return fs
-      .readdirSync(dir, { withFileTypes: true })
-      .filter((entry) => entry.isFile())
-      .map((entry) => {
-        const entryPath = path.join(dir, entry.name);
-        return {
-          name: entry.name,
-          path: entryPath,
-          stat: fs.statSync(entryPath),
-        };
-      });
-  } catch {
-    return [];
-  }
+export interface SessionTranscript {
+  id: string;
+  title: string;
+  directory: string | null;
+  messages: TranscriptMessage[];
 }
 
-export function sortByMtimeDesc(entries: Entry[]): Entry[] {
-  return entries.sort((a, b) => b.stat.mtimeMs - a.stat.mtimeMs);
-}
+/**
+ * Which side of a message's change to read: the snapshot taken before it
+ * or the one taken after it.
+ */
+export type SnapshotPoint = 'before' | 'after';
 
-export function safeReadJson(filePath: string): Record<string, unknown> | null {
-  try {
-    const raw = fs.readFileSync(filePath, 'utf8');
-    return JSON.parse(raw) as Record<string, unknown>;
-  } catch {
-    return null;
-  }
+export interface FileAtMessage {
+  messageId: string;
+  projectId: string;
+  /** Project work tree, if it is known. */
+  projectDir: string | null;
+  snapshotDir: string;
+  /** Snapshot tree the content was read from. */
+  snapshot: string;
+  filePath: string;
+  /** File content; null if the file did not exist at that point. */
+  content: Buffer | null;
 }
 
-export function formatDate(date: Date): string {
-  const pad = (value: number) => value.toString().padStart(2, '0');
-  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
-    date.getDate(),
-  )} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+/**
+ * One line of a file with the agent message that last introduced it. The
+ * message fields are null for lines no message introduced: written by a
+ * human, or older than the recorded history.
+ */
+export interface BlameLine {
+  /** 1-based line number in the current file. */
+  line: number;
+  content: string;
+  messageId: string | null;
+  sessionId: string | null;
+  sessionTitle: string | null;
+  timestamp: string | null;
 }
 
-export function formatTimestamp(timestamp: unknown): string {
-  const numeric = Number(timestamp);
-  if (!Number.isFinite(numeric)) {
-    return '(unknown)';
-  }
-  return formatDate(new Date(numeric));
+export interface FileBlame {
+  projectId: string;
+  projectDir: string;
+  /** Project-relative path. */
+  filePath: string;
+  lines: BlameLine[];
 }
 
-export function runGit(
-  args: string[],
-  cwd?: string,
-): { status: number; stdout: string; stderr: string } {
-  const result = spawnSync('git', args, {
-    encoding: 'utf8',
-    cwd,
-  });
-  return {
-    status: result.status ?? 1,
-    stdout: result.stdout ?? '',
-    stderr: result.stderr ?? '',
-  };
-}
+/**
+ * What to revert: one message's own change, or every change made by the
+ * messages of a session between `fromMessageId` and `toMessageId`
+ * (inclusive; defaulting to the session's first and last message).
+ */
+export type RevertTarget =
+  | { messageId: string }
+  | { sessionId: string; fromMessageId?: string; toMessageId?: string };
 
 /**
  * Validates a file path to prevent path traversal and injection attacks.
@@ -169,99 +260,70 @@ export function isValidFilePath(filePath: string): boolean {
   return true;
 }
 
-export function getPatchHash(msgId: string): string | null {
-  const partDir = path.join(partRoot, msgId);
-  const partFiles = listFiles(partDir).filter((file) =>
-    file.name.endsWith('.json'),
-  );
-
-  for (const file of partFiles) {
-    const data = safeReadJson(file.path);
-    if (data?.type === 'patch' && typeof data.hash === 'string') {
-      return data.hash;
-    }
-  }
-
-  return null;
+export function getPatchHash(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string | null {
+  return getIndexedMessage(msgId, store)?.patchHash ?? null;
 }
 
-export function getSessionTitle(sessionId: string): string {
-  const projectDirs = listDirectories(sessionRoot);
-  let title = '(no title)';
-
-  for (const projectDir of projectDirs) {
-    const sessionFile = path.join(projectDir.path, `${sessionId}.json`);
-    if (!fs.existsSync(sessionFile)) {
-      continue;
-    }
-
-    const data = safeReadJson(sessionFile);
-    if (typeof data?.title === 'string') {
-      title = data.title;
-      if (title !== '(no title)') {
-        return title;
-      }
-    }
-  }
+/**
+ * Get the project-relative files a message changed, from its patch parts.
+ */
+export function getMessageFiles(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string[] {
+  return [...(getIndexedMessage(msgId, store)?.files ?? [])];
+}
 
-  return title;
+export function getSessionTitle(
+  sessionId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string {
+  return getIndexedSession(sessionId, store)?.title ?? '(no title)';
 }
 
-export function getProjectIdFromSession(sessionId: string): string | null {
+export function getProjectIdFromSession(
+  sessionId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string | null {
   if (!sessionId) {
     return null;
   }
 
-  const projectDirs = listDirectories(sessionRoot);
-  for (const projectDir of projectDirs) {
-    const sessionFile = path.join(projectDir.path, `${sessionId}.json`);
-    if (!fs.existsSync(sessionFile)) {
-      continue;
-    }
-
-    const data = safeReadJson(sessionFile);
-    if (typeof data?.projectID === 'string' && data.projectID.length > 0) {
-      return data.projectID;
-    }
-  }
-
-  return null;
+  return getIndexedSession(sessionId, store)?.projectId ?? null;
 }
 
 export function findMessageFile(
   msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
 ): { path: string; sessionId: string } | null {
-  const sessionDirs = sortByMtimeDesc(
-    listDirectories(messageRoot).filter((dir) => dir.name.startsWith('ses_')),
-  );
-
-  for (const sessionDir of sessionDirs) {
-    const msgPath = path.join(sessionDir.path, `${msgId}.json`);
-    if (!fs.existsSync(msgPath)) {
-      continue;
-    }
-
-    const data = safeReadJson(msgPath);
-    const sessionId =
-      typeof data?.sessionID === 'string' ? data.sessionID : sessionDir.name;
-
-    return { path: msgPath, sessionId };
+  const message = getIndexedMessage(msgId, store);
+  if (!message) {
+    return null;
   }
 
-  return null;
+  return {
+    path: path.join(store.messageRoot, message.sessionId, `${msgId}.json`),
+    sessionId: message.sessionId,
+  };
 }
 
-export function getProjectIdFromMessage(msgId: string): string | null {
+export function getProjectIdFromMessage(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string | null {
   if (!msgId) {
     return null;
   }
 
-  const messageInfo = findMessageFile(msgId);
-  if (!messageInfo) {
+  const message = getIndexedMessage(msgId, store);
+  if (!message) {
     return null;
   }
 
-  return getProjectIdFromSession(messageInfo.sessionId);
+  return getProjectIdFromSession(message.sessionId, store);
 }
 
 function isSafeProjectId(projectId: string): boolean {
@@ -278,38 +340,114 @@ function isSafeProjectId(projectId: string): boolean {
   return /^[A-Za-z0-9_-]+$/.test(projectId);
 }
 
-export function getProjectDirectory(projectId: string): string | null {
+export function getProjectDirectory(
+  projectId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string | null {
   if (!isSafeProjectId(projectId)) {
     return null;
   }
-  const projectDir = path.join(sessionRoot, projectId);
-  const candidateFiles: string[] = [];
 
-  if (fs.existsSync(projectDir)) {
-    candidateFiles.push(
-      ...listFiles(projectDir)
-        .filter((file) => file.name.endsWith('.json'))
-        .map((file) => file.path),
-    );
+  for (const session of Object.values(getHistoryIndex(store).sessions)) {
+    if (session.projectId === projectId && session.directory) {
+      return session.directory;
+    }
   }
 
-  if (candidateFiles.length === 0) {
-    for (const dir of listDirectories(sessionRoot)) {
-      candidateFiles.push(
-        ...listFiles(dir.path)
-          .filter((file) => file.name.endsWith('.json'))
-          .map((file) => file.path),
-      );
-    }
+  return null;
+}
+
+/**
+ * The project ID OpenCode gives a git repository: its root commit (the
+ * lowest, if there are several).
+ *
+ * @param directory - Any directory inside the repository (default: cwd)
+ */
+export function getGitProjectId(directory?: string): string | null {
+  const result = runGit(['rev-list', '--max-parents=0', '--all'], directory);
+  if (result.status !== 0) {
+    return null;
   }
 
-  for (const sessionFile of candidateFiles) {
-    const data = safeReadJson(sessionFile);
-    if (data?.projectID === projectId && typeof data?.directory === 'string') {
-      return data.directory;
+  const commits = result.stdout.split(/\r?\n/).filter(Boolean).sort();
+  return commits[0] ?? null;
+}
+
+/** OpenCode's project for sessions outside any git repository. */
+const GLOBAL_PROJECT_ID = 'global';
+
+/**
+ * Find the OpenCode projects of a work-tree directory: the project named after
+ * its repository's root commit, and the projects of sessions started in or
+ * below it. The `global` project is left out, as it spans unrelated
+ * directories; match non-git directories with `SessionFilter.directory`.
+ *
+ * @param directory - Absolute path of the work tree
+ * @param store - History store to read from
+ * @returns Project IDs that have sessions in the store
+ */
+export function getProjectIdsForDirectory(
+  directory: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string[] {
+  const sessions = Object.values(getHistoryIndex(store).sessions);
+  const gitProjectId = getGitProjectId(directory);
+
+  const projectIds = new Set<string>();
+  for (const session of sessions) {
+    if (!session.projectId || session.projectId === GLOBAL_PROJECT_ID) {
+      continue;
+    }
+    if (
+      session.projectId === gitProjectId ||
+      (session.directory && isInDirectory(session.directory, directory))
+    ) {
+      projectIds.add(session.projectId);
     }
   }
+  return [...projectIds];
+}
 
+/**
+ * Filter for the sessions of a work tree: those of its OpenCode projects, or
+ * for a directory outside git, those started in it.
+ *
+ * @param directory - Absolute path of the work tree
+ * @param store - History store to read from
+ */
+export function getDirectoryFilter(
+  directory: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): SessionFilter {
+  const projectIds = getProjectIdsForDirectory(directory, store);
+  return projectIds.length > 0 ? { projectIds } : { directory };
+}
+
+/**
+ * Resolve a project given by the user, as an OpenCode project ID or as a
+ * directory, into a session filter.
+ *
+ * @param project - Project ID, or path of a work tree
+ * @param store - History store to read from
+ * @returns The filter, or null if it is neither a known project nor a
+ *   directory
+ */
+export function resolveProjectFilter(
+  project: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): SessionFilter | null {
+  const sessions = Object.values(getHistoryIndex(store).sessions);
+  if (
+    isSafeProjectId(project) &&
+    sessions.some((session) => session.projectId === project)
+  ) {
+    return { projectIds: [project] };
+  }
+
+  const directory = path.resolve(project);
+  if (fs.existsSync(directory) && fs.statSync(directory).isDirectory()) {
+    return getDirectoryFilter(directory, store);
+  }
   return null;
 }
 
@@ -327,75 +465,308 @@ export function gitCatFileExists(snapshotDir: string, hash: string): boolean {
   return result.status === 0;
 }
 
-export function getRecentSessions(limit: number = 10): Session[] {
-  const sessionDirs = sortByMtimeDesc(
-    listDirectories(messageRoot).filter((dir) => dir.name.startsWith('ses_')),
-  ).slice(0, limit);
+/**
+ * List a session's message IDs in the order they were created.
+ */
+export function getSessionMessageIds(
+  sessionId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string[] {
+  if (!/^ses_[A-Za-z0-9_-]+$/.test(sessionId)) {
+    return [];
+  }
+
+  return [...(getIndexedSession(sessionId, store)?.messageIds ?? [])];
+}
 
-  const sessions: Session[] = [];
+/**
+ * Resolve the snapshot pair bracketing a message's own change.
+ *
+ * `before` is the message's patch hash. `after` is the snapshot recorded by
+ * the message's last `step-finish` part, or failing that the first snapshot of
+ * a later message in the same session. `after` is null when neither exists.
+ */
+export function getMessageSnapshots(
+  messageId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): MessageSnapshots | null {
+  const message = getIndexedMessage(messageId, store);
+  if (!message?.patchHash) {
+    return null;
+  }
 
-  for (const sessionDir of sessionDirs) {
-    const sessionId = sessionDir.name;
-    const messageFiles = listFiles(sessionDir.path).filter((file) =>
-      file.name.endsWith('.json'),
-    );
-    const msgCount = messageFiles.length;
-    const modified = formatDate(sessionDir.stat.mtime);
-    const title = getSessionTitle(sessionId);
-
-    sessions.push({
-      id: sessionId,
-      title,
-      modified,
-      messageCount: msgCount,
-    });
+  const projectId = getProjectIdFromSession(message.sessionId, store);
+  if (!projectId) {
+    return null;
   }
 
-  return sessions;
+  return {
+    projectId,
+    snapshotDir: getSnapshotDir(projectId, store),
+    before: message.patchHash,
+    after: getIndexedAfterSnapshot(getHistoryIndex(store), message),
+  };
+}
+
+function matchesSessionFilter(
+  { session, first, last }: SessionActivity,
+  filter: SessionFilter,
+): boolean {
+  if (!isSessionInScope(session, filter)) {
+    return false;
+  }
+  return (
+    (filter.since === undefined || last >= filter.since) &&
+    (filter.until === undefined || first <= filter.until)
+  );
 }
 
-export function getSessionMessages(sessionId: string): Message[] {
+/**
+ * Get the most recently active sessions.
+ *
+ * @param limit - Maximum number of sessions (default: 10)
+ * @param filter - Only sessions matching this filter
+ * @param store - History store to read from
+ */
+export function getRecentSessions(
+  limit: number = 10,
+  filter: SessionFilter = {},
+  store: HistoryStore = getDefaultHistoryStore(),
+): Session[] {
+  return getIndexedSessionsByActivity(getHistoryIndex(store))
+    .filter((activity) => matchesSessionFilter(activity, filter))
+    .slice(0, limit)
+    .map(toSession);
+}
+
+function toSession({ session, last }: SessionActivity): Session {
+  return {
+    id: session.id,
+    title: session.title,
+    modified: formatDate(new Date(last)),
+    messageCount: session.messageIds.length,
+    parentId: session.parentId,
+  };
+}
+
+/**
+ * Get the most recently active tasks as trees: each top-level session with
+ * the sessions it spawned (subagents, tasks) nested below it. A tree is
+ * listed when any of its sessions matches the filter, and ranks by its most
+ * recently active matching session.
+ *
+ * @param limit - Maximum number of top-level sessions (default: 10)
+ * @param filter - Only trees with a session matching this filter
+ * @param store - History store to read from
+ */
+export function getSessionTree(
+  limit: number = 10,
+  filter: SessionFilter = {},
+  store: HistoryStore = getDefaultHistoryStore(),
+): SessionNode[] {
+  const activities = getIndexedSessionsByActivity(getHistoryIndex(store));
+  const byId = new Map(
+    activities.map((activity) => [activity.session.id, activity]),
+  );
+  const childrenByParent = new Map<string, SessionActivity[]>();
+  for (const activity of activities) {
+    const parentId = activity.session.parentId;
+    if (parentId && byId.has(parentId)) {
+      const children = childrenByParent.get(parentId) ?? [];
+      children.push(activity);
+      childrenByParent.set(parentId, children);
+    }
+  }
+
+  const getRoot = (activity: SessionActivity): SessionActivity => {
+    const seen = new Set<string>();
+    let current = activity;
+    while (current.session.parentId && !seen.has(current.session.id)) {
+      seen.add(current.session.id);
+      const parent = byId.get(current.session.parentId);
+      if (!parent) {
+        break;
+      }
+      current = parent;
+    }
+    return current;
+  };
+
+  const roots = new Set<SessionActivity>();
+  for (const activity of activities) {
+    if (roots.size >= limit) {
+      break;
+    }
+    if (matchesSessionFilter(activity, filter)) {
+      roots.add(getRoot(activity));
+    }
+  }
+
+  const visited = new Set<string>();
+  const toNode = (activity: SessionActivity): SessionNode => {
+    visited.add(activity.session.id);
+    return {
+      ...toSession(activity),
+      children: (childrenByParent.get(activity.session.id) ?? [])
+        .filter((child) => !visited.has(child.session.id))
+        .sort((a, b) => a.first - b.first)
+        .map(toNode),
+    };
+  };
+  return [...roots].map(toNode);
+}
+
+/**
+ * Diff everything a task changed: from the snapshot before the first change
+ * of the session or any session it spawned, to the snapshot after the last
+ * one. Changes made in the work tree by hand in between are included, as in
+ * a session-wide revert.
+ *
+ * @param sessionId - The task's top session
+ * @param filePath - Optional path to limit the diff to
+ * @param store - History store to read from
+ * @returns The diff, or null if the sessions changed nothing or their
+ *   snapshots are not available
+ */
+export function getTaskDiff(
+  sessionId: string,
+  filePath?: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): TaskDiff | null {
   if (!/^ses_[A-Za-z0-9_-]+$/.test(sessionId)) {
-    return [];
+    return null;
+  }
+  if (filePath && !isValidFilePath(filePath)) {
+    return null;
+  }
+  const root = getIndexedSession(sessionId, store);
+  if (!root?.projectId) {
+    return null;
+  }
+
+  const index = getHistoryIndex(store);
+  // Subagents work in the parent's project; anything else cannot be diffed
+  const sessions = getIndexedSessionFamily(index, sessionId).filter(
+    (session) => session.projectId === root.projectId,
+  );
+  const changed = sessions
+    .flatMap((session) => session.messageIds)
+    .map((msgId) => index.messages[msgId])
+    .filter((message) => message?.patchHash)
+    .sort((a, b) => (a.created ?? 0) - (b.created ?? 0));
+  if (changed.length === 0) {
+    return null;
+  }
+
+  const before = changed[0].patchHash as string;
+  const after = getIndexedAfterSnapshot(index, changed[changed.length - 1]);
+  if (!after) {
+    return null;
+  }
+
+  const snapshotDir = getSnapshotDir(root.projectId, store);
+  const args = ['--git-dir', snapshotDir, 'diff', before, after];
+  if (filePath) {
+    args.push('--', filePath);
+  }
+  const result = runGit(args);
+  if (result.status !== 0) {
+    return null;
+  }
+
+  return {
+    projectId: root.projectId,
+    snapshotDir,
+    sessionIds: sessions.map((session) => session.id),
+    messageIds: changed.map((message) => message.id),
+    before,
+    after,
+    diff: result.stdout,
+  };
+}
+
+/**
+ * List the OpenCode projects that have sessions, most recently active first.
+ *
+ * @param store - History store to read from
+ */
+export function listProjects(
+  store: HistoryStore = getDefaultHistoryStore(),
+): Project[] {
+  const projects = new Map<string, Project>();
+  for (const { session, last } of getIndexedSessionsByActivity(
+    getHistoryIndex(store),
+  )) {
+    if (!session.projectId) {
+      continue;
+    }
+
+    let project = projects.get(session.projectId);
+    if (!project) {
+      const snapshotDir = getSnapshotDir(session.projectId, store);
+      project = {
+        id: session.projectId,
+        directory: null,
+        directoryExists: false,
+        sessionCount: 0,
+        lastActivity: formatDate(new Date(last)),
+        snapshotBytes: fs.existsSync(snapshotDir)
+          ? getDirectorySize(snapshotDir)
+          : null,
+      };
+      projects.set(session.projectId, project);
+    }
+
+    project.sessionCount += 1;
+    if (
+      session.directory &&
+      !project.directoryExists &&
+      fs.existsSync(session.directory)
+    ) {
+      project.directory = session.directory;
+      project.directoryExists = true;
+    }
+    project.directory ??= session.directory;
   }
+  return [...projects.values()];
+}
 
-  const sessionDir = path.join(messageRoot, sessionId);
-  if (!fs.existsSync(sessionDir)) {
+export function getSessionMessages(
+  sessionId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): Message[] {
+  if (!/^ses_[A-Za-z0-9_-]+$/.test(sessionId)) {
     return [];
   }
 
-  const projectId = getProjectIdFromSession(sessionId);
-  const snapshotDir = projectId ? path.join(snapshotRoot, projectId) : '';
+  const session = getIndexedSession(sessionId, store);
+  if (!session) {
+    return [];
+  }
 
-  const messageFiles = sortByMtimeDesc(
-    listFiles(sessionDir).filter((file) => file.name.endsWith('.json')),
-  );
+  const index = getHistoryIndex(store);
+  const snapshotDir = session.projectId
+    ? getSnapshotDir(session.projectId, store)
+    : '';
 
   const messages: Message[] = [];
 
-  for (const msgFile of messageFiles) {
-    const msgId = msgFile.name.replace(/\.json$/, '');
-    const hash = getPatchHash(msgId);
-
-    if (hash) {
-      const data = safeReadJson(msgFile.path);
-      const timestamp =
-        data?.time && typeof data.time === 'object'
-          ? (data.time as { created?: number }).created
-          : undefined;
-      const date = formatTimestamp(timestamp);
-
-      const hasSnapshot = snapshotDir
-        ? gitCatFileExists(snapshotDir, hash)
-        : false;
-
-      messages.push({
-        id: msgId,
-        timestamp: date,
-        hash,
-        hasSnapshot,
-      });
+  for (const msgId of [...session.messageIds].reverse()) {
+    const message = index.messages[msgId];
+    if (!message?.patchHash) {
+      continue;
     }
+
+    const hasSnapshot = snapshotDir
+      ? gitCatFileExists(snapshotDir, message.patchHash)
+      : false;
+
+    messages.push({
+      id: msgId,
+      timestamp: formatTimestamp(message.created),
+      hash: message.patchHash,
+      hasSnapshot,
+    });
   }
 
   return messages;
@@ -406,6 +777,9 @@ export function getSessionMessages(sessionId: string): Message[] {
  *
  * @param messageId - The message ID to get diff for
  * @param filePath - Optional path to filter diff to specific file
+ * @param mode - `message` (default) for the message's own change, or
+ *   `worktree` to compare its snapshot against the live work tree
+ * @param store - History store to read from
  * @returns Diff string or null if not found
  *
  * Returns null in the following cases:
@@ -414,46 +788,52 @@ export function getSessionMessages(sessionId: string): Message[] {
  * - Cannot determine project ID from message
  * - Snapshot directory doesn't exist for project
  * - Git hash doesn't exist in snapshot
+ * - In `message` mode, no later snapshot exists to compare against
  */
 export function getMessageDiff(
   messageId: string,
   filePath?: string,
+  mode: DiffMode = 'message',
+  store: HistoryStore = getDefaultHistoryStore(),
 ): string | null {
   // Validate message ID format (alphanumeric, periods, underscores, hyphens only)
   if (!/^[A-Za-z0-9._-]+$/.test(messageId)) {
     return null;
   }
 
-  const hash = getPatchHash(messageId);
-  if (!hash) {
+  // Validate file path to prevent path traversal and injection attacks
+  if (filePath && !isValidFilePath(filePath)) {
     return null;
   }
 
-  const projectId = getProjectIdFromMessage(messageId);
-  if (!projectId) {
+  const snapshots = getMessageSnapshots(messageId, store);
+  if (!snapshots) {
     return null;
   }
 
-  const snapshotDir = path.join(snapshotRoot, projectId);
+  const { projectId, snapshotDir, before, after } = snapshots;
   if (!fs.existsSync(snapshotDir)) {
     return null;
   }
 
-  if (!gitCatFileExists(snapshotDir, hash)) {
+  if (!gitCatFileExists(snapshotDir, before)) {
     return null;
   }
 
-  const projectDir = getProjectDirectory(projectId);
   const args: string[] = ['--git-dir', snapshotDir];
-  if (projectDir && fs.existsSync(projectDir)) {
-    args.push('--work-tree', projectDir);
-  }
-  args.push('diff', hash);
-  if (filePath) {
-    // Validate file path to prevent path traversal and injection attacks
-    if (!isValidFilePath(filePath)) {
+  if (mode === 'message') {
+    if (!after || !gitCatFileExists(snapshotDir, after)) {
       return null;
     }
+    args.push('diff', before, after);
+  } else {
+    const projectDir = getProjectDirectory(projectId, store);
+    if (projectDir && fs.existsSync(projectDir)) {
+      args.push('--work-tree', projectDir);
+    }
+    args.push('diff', before);
+  }
+  if (filePath) {
     args.push('--', filePath);
   }
 
@@ -461,91 +841,556 @@ export function getMessageDiff(
   return result.stdout || null;
 }
 
+/**
+ * Whether a message whose touched files are not indexed changed a file,
+ * worked out by diffing its snapshot pair. False while the snapshot after it
+ * is missing.
+ */
+function didMessageChangeFile(
+  index: HistoryIndex,
+  message: IndexedMessage,
+  relativePath: string,
+  store: HistoryStore,
+): boolean {
+  const projectId = index.sessions[message.sessionId]?.projectId;
+  const after = getIndexedAfterSnapshot(index, message);
+  if (!projectId || !message.patchHash || !after) {
+    return false;
+  }
+  const result = runGit([
+    '--git-dir',
+    getSnapshotDir(projectId, store),
+    'diff',
+    '--name-only',
+    message.patchHash,
+    after,
+    '--',
+    relativePath,
+  ]);
+  return result.status === 0 && result.stdout.trim().length > 0;
+}
+
 /**
  * Get all changes to a specific file across recent sessions.
  *
- * @param filePath - The file path to search for
+ * @param filePath - The file to search for: relative to the project root, or
+ *   absolute; normalized like recorded patch paths
  * @param limit - Maximum number of recent sessions to search (default: 10)
+ * @param filter - Only sessions matching this filter, and with `since` /
+ *   `until` only changes made in that time range
+ * @param store - History store to read from
  * @returns Array of file history entries
  *
- * Performance note: This function has O(n*m) complexity, where n is the number
- * of sessions and m is the average number of messages per session. For each
- * message with a hash, it spawns a git process to get changed files. Consider
- * batching git operations or caching results for better performance in large
- * repositories.
+ * Touched files come from the `files` recorded in each message's patch parts
+ * (via the history index), so git is only started for messages whose files
+ * are not known; those are left out until their closing snapshot exists. Use
+ * `getMessageDiff` to fetch the actual change for an entry.
  */
 export function getFileHistory(
   filePath: string,
   limit: number = 10,
+  filter: SessionFilter = {},
+  store: HistoryStore = getDefaultHistoryStore(),
 ): FileHistoryEntry[] {
-  // Validate file path to prevent path traversal and injection attacks
-  if (!isValidFilePath(filePath)) {
-    return [];
-  }
-
+  const index = getHistoryIndex(store);
   const history: FileHistoryEntry[] = [];
 
-  const sessionDirs = sortByMtimeDesc(
-    listDirectories(messageRoot).filter((dir) => dir.name.startsWith('ses_')),
-  ).slice(0, limit);
-
-  for (const sessionDir of sessionDirs) {
-    const sessionId = sessionDir.name;
-    const title = getSessionTitle(sessionId);
-
-    const messageFiles = sortByMtimeDesc(
-      listFiles(sessionDir.path).filter((file) => file.name.endsWith('.json')),
-    );
-
-    for (const msgFile of messageFiles) {
-      const msgId = msgFile.name.replace(/\.json$/, '');
-      const hash = getPatchHash(msgId);
+  const sessions = getIndexedSessionsByActivity(getHistoryIndex(store))
+    .filter((activity) => matchesSessionFilter(activity, filter))
+    .slice(0, limit)
+    .map(({ session }) => session);
+  for (const session of sessions) {
+    // Match the index's spelling: project-relative with `/` separators.
+    // Validate it to prevent path traversal and injection attacks
+    const relativePath = toProjectRelativePath(filePath, session.directory);
+    if (!relativePath || !isValidFilePath(relativePath)) {
+      continue;
+    }
 
-      if (!hash) {
+    for (const msgId of [...session.messageIds].reverse()) {
+      const message = index.messages[msgId];
+      if (
+        !message?.patchHash ||
+        (message.files !== null && !message.files.includes(relativePath))
+      ) {
         continue;
       }
-
-      const projectId = getProjectIdFromMessage(msgId);
-      if (!projectId) {
+      if (
+        (filter.since !== undefined && (message.created ?? 0) < filter.since) ||
+        (filter.until !== undefined && (message.created ?? 0) > filter.until)
+      ) {
         continue;
       }
-
-      const snapshotDir = path.join(snapshotRoot, projectId);
-      if (!gitCatFileExists(snapshotDir, hash)) {
+      if (
+        message.files === null &&
+        !didMessageChangeFile(index, message, relativePath, store)
+      ) {
         continue;
       }
 
-      const projectDir = getProjectDirectory(projectId);
-      const args: string[] = ['--git-dir', snapshotDir];
-      if (projectDir && fs.existsSync(projectDir)) {
-        args.push('--work-tree', projectDir);
-      }
-      args.push('diff', '--name-only', hash);
+      history.push({
+        messageId: msgId,
+        sessionId: session.id,
+        sessionTitle: session.title,
+        timestamp: formatTimestamp(message.created),
+        hash: message.patchHash,
+      });
+    }
+  }
 
-      const diffResult = runGit(args);
+  return history;
+}
 
-      const filesChanged = diffResult.stdout.split(/\r?\n/).filter(Boolean);
+/**
+ * Get a whole session as a conversation: every message in creation order with
+ * its text, reasoning and tool parts, and the message's own diff when its
+ * snapshots are still available.
+ *
+ * @param sessionId - The session to read
+ * @param store - History store to read from
+ * @returns The transcript, or null if the session does not exist
+ */
+export function getSessionTranscript(
+  sessionId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): SessionTranscript | null {
+  if (!/^ses_[A-Za-z0-9_-]+$/.test(sessionId)) {
+    return null;
+  }
 
-      if (!filesChanged.includes(filePath)) {
-        continue;
+  const session = getIndexedSession(sessionId, store);
+  if (!session) {
+    return null;
+  }
+
+  const index = getHistoryIndex(store);
+  const withSnapshot = new Set(
+    getSessionMessages(sessionId, store)
+      .filter((message) => message.hasSnapshot)
+      .map((message) => message.id),
+  );
+
+  const messages: TranscriptMessage[] = [];
+  for (const msgId of session.messageIds) {
+    const message = index.messages[msgId];
+    if (!message) {
+      continue;
+    }
+
+    messages.push({
+      id: msgId,
+      role: message.role,
+      timestamp: formatTimestamp(message.created),
+      parts: getConversationParts(msgId, store),
+      files: [...(message.files ?? [])],
+      diff: withSnapshot.has(msgId)
+        ? getMessageDiff(msgId, undefined, 'message', store)
+        : null,
+    });
+  }
+
+  return {
+    id: session.id,
+    title: session.title,
+    directory: session.directory,
+    messages,
+  };
+}
+
+/**
+ * Resolve the snapshot range covering a message's or a session range's
+ * changes, ready for `revertRange`.
+ *
+ * Each message that changed files becomes one step, from its patch snapshot
+ * to the snapshot taken after it, so reverting the range leaves edits made
+ * between those messages alone.
+ *
+ * @param target - The message, or session range, to revert
+ * @param store - History store to read from
+ * @throws RevertError if a message, session or snapshot cannot be found, or
+ *   the range changed no files
+ */
+export function getRevertRange(
+  target: RevertTarget,
+  store: HistoryStore = getDefaultHistoryStore(),
+): RevertRange {
+  let sessionId: string;
+  let messageIds: string[];
+
+  if ('messageId' in target) {
+    const message = getIndexedMessage(target.messageId, store);
+    if (!message) {
+      throw new RevertError(`Message not found: ${target.messageId}`);
+    }
+    sessionId = message.sessionId;
+    messageIds = [message.id];
+  } else {
+    const session = getIndexedSession(target.sessionId, store);
+    if (!session) {
+      throw new RevertError(`Session not found: ${target.sessionId}`);
+    }
+    sessionId = session.id;
+
+    const position = (msgId: string | undefined, fallback: number) => {
+      if (!msgId) {
+        return fallback;
       }
+      const i = session.messageIds.indexOf(msgId);
+      if (i === -1) {
+        throw new RevertError(
+          `Message ${msgId} is not in session ${sessionId}`,
+        );
+      }
+      return i;
+    };
+    const from = position(target.fromMessageId, 0);
+    const to = position(target.toMessageId, session.messageIds.length - 1);
+    if (from > to) {
+      throw new RevertError(
+        `Message ${target.fromMessageId} comes after ${target.toMessageId}`,
+      );
+    }
+    messageIds = session.messageIds.slice(from, to + 1);
+  }
 
-      const data = safeReadJson(msgFile.path);
-      const timestamp =
-        data?.time && typeof data.time === 'object'
-          ? (data.time as { created?: number }).created
-          : undefined;
-      const date = formatTimestamp(timestamp);
+  const index = getHistoryIndex(store);
+  const changed = messageIds
+    .map((msgId) => index.messages[msgId])
+    .filter((message) => message?.patchHash);
+  if (changed.length === 0) {
+    throw new RevertError(
+      messageIds.length === 1
+        ? `No file changes in message: ${messageIds[0]}`
+        : 'No file changes in the selected messages',
+    );
+  }
 
-      history.push({
-        messageId: msgId,
-        sessionId,
-        sessionTitle: title,
-        timestamp: date,
-        hash,
-      });
+  const steps: RevertStep[] = changed.map((message) => {
+    const after = getIndexedAfterSnapshot(index, message);
+    if (!after) {
+      throw new RevertError(
+        `No later snapshot to compare against for: ${message.id}`,
+      );
+    }
+    return {
+      messageId: message.id,
+      before: message.patchHash as string,
+      after,
+    };
+  });
+
+  const projectId = getProjectIdFromSession(sessionId, store);
+  if (!projectId) {
+    throw new RevertError('Could not determine project ID for session');
+  }
+
+  const snapshotDir = getSnapshotDir(projectId, store);
+  const hashes = new Set(steps.flatMap((step) => [step.before, step.after]));
+  for (const hash of hashes) {
+    if (!gitCatFileExists(snapshotDir, hash)) {
+      throw new RevertError(`Snapshot not available for hash: ${hash}`);
     }
   }
 
-  return history;
+  const projectDir = getProjectDirectory(projectId, store);
+  if (!projectDir || !fs.existsSync(projectDir)) {
+    throw new RevertError('Could not find project directory');
+  }
+
+  return {
+    projectDir,
+    snapshotDir,
+    before: steps[0].before,
+    after: steps[steps.length - 1].after,
+    messageIds: steps.map((step) => step.messageId),
+    steps,
+  };
+}
+
+/**
+ * The snapshot on one side of a message's change. Messages that changed
+ * nothing resolve to the next snapshot recorded in the session.
+ */
+function resolveMessageSnapshot(
+  index: HistoryIndex,
+  message: IndexedMessage,
+  at: SnapshotPoint,
+): string | null {
+  const after = getIndexedAfterSnapshot(index, message);
+  if (at === 'before') {
+    return message.patchHash ?? message.firstSnapshot ?? after;
+  }
+  return message.patchHash ? after : (after ?? message.firstSnapshot);
+}
+
+/**
+ * Diff two points of a project's history: from the snapshot before
+ * `fromMessageId`'s change to the snapshot after `toMessageId`'s, as a
+ * tree-to-tree diff inside the snapshot repo. Messages may come from
+ * different sessions of the same project; given in reverse order, they are
+ * swapped so the diff runs forward in time.
+ *
+ * @param fromMessageId - First message of the range
+ * @param toMessageId - Last message of the range (may equal the first)
+ * @param paths - Project-relative paths to limit the diff to
+ * @param store - History store to read from
+ * @returns The diff, or null if a message, its project or a snapshot cannot
+ *   be found, or the messages belong to different projects
+ */
+export function diffBetween(
+  fromMessageId: string,
+  toMessageId: string,
+  paths: string[] = [],
+  store: HistoryStore = getDefaultHistoryStore(),
+): MessageRangeDiff | null {
+  if (!paths.every(isValidFilePath)) {
+    return null;
+  }
+
+  let from = getIndexedMessage(fromMessageId, store);
+  let to = getIndexedMessage(toMessageId, store);
+  if (!from || !to) {
+    return null;
+  }
+  const projectId = getProjectIdFromSession(from.sessionId, store);
+  if (
+    !projectId ||
+    getProjectIdFromSession(to.sessionId, store) !== projectId
+  ) {
+    return null;
+  }
+  if ((from.created ?? 0) > (to.created ?? 0)) {
+    [from, to] = [to, from];
+  }
+
+  const index = getHistoryIndex(store);
+  const before = resolveMessageSnapshot(index, from, 'before');
+  const after = resolveMessageSnapshot(index, to, 'after');
+  const snapshotDir = getSnapshotDir(projectId, store);
+  if (
+    !before ||
+    !after ||
+    !gitCatFileExists(snapshotDir, before) ||
+    !gitCatFileExists(snapshotDir, after)
+  ) {
+    return null;
+  }
+
+  const args = ['--git-dir', snapshotDir, 'diff', before, after];
+  if (paths.length > 0) {
+    args.push('--', ...paths);
+  }
+  const result = runGit(args);
+  if (result.status !== 0) {
+    return null;
+  }
+
+  return {
+    projectId,
+    snapshotDir,
+    fromMessageId: from.id,
+    toMessageId: to.id,
+    before,
+    after,
+    diff: result.stdout,
+  };
+}
+
+/**
+ * Read a file exactly as it was at a message, from the snapshot tree.
+ *
+ * `after` (default) reads the snapshot taken once the message's change was
+ * made; `before` reads the one taken before it. Messages that changed nothing
+ * resolve to the next snapshot recorded in the session.
+ *
+ * @param messageId - The message to read the file at
+ * @param filePath - Project-relative path of the file
+ * @param at - Which side of the message's change to read
+ * @param store - History store to read from
+ * @returns The file, or null if the message, its project or a snapshot
+ *   cannot be found
+ * @throws SnapshotReadError if the snapshot exists but the file cannot be
+ *   read from it, e.g. a blob object is missing or corrupt
+ */
+export function getFileAtMessage(
+  messageId: string,
+  filePath: string,
+  at: SnapshotPoint = 'after',
+  store: HistoryStore = getDefaultHistoryStore(),
+): FileAtMessage | null {
+  if (!isValidFilePath(filePath)) {
+    return null;
+  }
+
+  const message = getIndexedMessage(messageId, store);
+  if (!message) {
+    return null;
+  }
+
+  const projectId = getProjectIdFromSession(message.sessionId, store);
+  if (!projectId) {
+    return null;
+  }
+
+  const snapshot = resolveMessageSnapshot(getHistoryIndex(store), message, at);
+  const snapshotDir = getSnapshotDir(projectId, store);
+  if (!snapshot || !gitCatFileExists(snapshotDir, snapshot)) {
+    return null;
+  }
+
+  const normalized = filePath.split(path.sep).join('/');
+  return {
+    messageId,
+    projectId,
+    projectDir: getProjectDirectory(projectId, store),
+    snapshotDir,
+    snapshot,
+    filePath: normalized,
+    content: readSnapshotFile(snapshotDir, snapshot, normalized),
+  };
+}
+
+/**
+ * Diff the work tree copy of a file against its content at a message, i.e.
+ * the change restoring it would make.
+ *
+ * @returns The diff, '' if the file already matches, or null if the project
+ *   directory is unknown or git fails
+ */
+export function getRestoreDiff(file: FileAtMessage): string | null {
+  if (!file.projectDir || !fs.existsSync(file.projectDir)) {
+    return null;
+  }
+
+  const result = runGit([
+    '--git-dir',
+    file.snapshotDir,
+    '--work-tree',
+    file.projectDir,
+    'diff',
+    '-R',
+    file.snapshot,
+    '--',
+    file.filePath,
+  ]);
+  return result.status === 0 ? result.stdout : null;
+}
+
+function readSnapshotLines(
+  snapshotDir: string,
+  snapshot: string,
+  filePath: string,
+): string[] {
+  const content = readSnapshotFile(snapshotDir, snapshot, filePath);
+  return content ? splitLines(content.toString('utf8')) : [];
+}
+
+/**
+ * Attribute each line of a work tree file to the agent message that last
+ * introduced it.
+ *
+ * Every message of the file's project that changed it is replayed in creation
+ * order across sessions: lines a message added are attributed to it, lines
+ * that appear between one message's `after` snapshot and the next message's
+ * `before` snapshot (and in the work tree after the last one) to nobody.
+ * Messages whose snapshots are gone are skipped.
+ *
+ * @param filePath - Path of the file, absolute or relative to the cwd
+ * @param store - History store to read from
+ * @returns The attribution of every current line, or null if the file cannot
+ *   be read or is not inside a known project directory
+ * @throws SnapshotReadError if a replayed snapshot exists but the file
+ *   cannot be read from it
+ */
+export function blameFile(
+  filePath: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): FileBlame | null {
+  const absolutePath = path.resolve(filePath);
+  const index = getHistoryIndex(store);
+
+  // The innermost session directory holding the file is its project root
+  let owner: IndexedSession | null = null;
+  for (const session of Object.values(index.sessions)) {
+    if (
+      session.projectId &&
+      session.directory &&
+      isInDirectory(absolutePath, session.directory) &&
+      (!owner?.directory || session.directory.length > owner.directory.length)
+    ) {
+      owner = session;
+    }
+  }
+  if (!owner?.projectId || !owner.directory) {
+    return null;
+  }
+
+  let current: string;
+  try {
+    current = fs.readFileSync(absolutePath, 'utf8');
+  } catch {
+    return null;
+  }
+
+  const projectId = owner.projectId;
+  const projectDir = owner.directory;
+  const relativePath = path
+    .relative(projectDir, absolutePath)
+    .split(path.sep)
+    .join('/');
+  const snapshotDir = getSnapshotDir(projectId, store);
+
+  const messages = Object.values(index.sessions)
+    .filter((session) => session.projectId === projectId)
+    .flatMap((session) => session.messageIds)
+    .map((msgId) => index.messages[msgId])
+    .filter(
+      (message): message is IndexedMessage =>
+        !!message?.patchHash &&
+        message.created !== null &&
+        (message.files === null || message.files.includes(relativePath)),
+    )
+    .sort((a, b) => (a.created as number) - (b.created as number));
+
+  let lines: string[] = [];
+  let sources: (IndexedMessage | null)[] = [];
+  for (const message of messages) {
+    const before = message.patchHash as string;
+    const after = getIndexedAfterSnapshot(index, message);
+    if (
+      !after ||
+      !gitCatFileExists(snapshotDir, before) ||
+      !gitCatFileExists(snapshotDir, after)
+    ) {
+      continue;
+    }
+
+    const beforeLines = readSnapshotLines(snapshotDir, before, relativePath);
+    const afterLines = readSnapshotLines(snapshotDir, after, relativePath);
+    sources = carryAttributions(lines, sources, beforeLines, null);
+    sources = carryAttributions(beforeLines, sources, afterLines, message);
+    lines = afterLines;
+  }
+
+  const currentLines = splitLines(current);
+  sources = carryAttributions(lines, sources, currentLines, null);
+
+  return {
+    projectId,
+    projectDir,
+    filePath: relativePath,
+    lines: currentLines.map((content, i) => {
+      const source = sources[i];
+      return {
+        line: i + 1,
+        content,
+        messageId: source?.id ?? null,
+        sessionId: source?.sessionId ?? null,
+        sessionTitle: source
+          ? (index.sessions[source.sessionId]?.title ?? null)
+          : null,
+        timestamp: source ? formatTimestamp(source.created) : null,
+      };
+    }),
+  };
 }
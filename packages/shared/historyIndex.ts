@@ -0,0 +1,660 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+
+import { HistoryStore, getDefaultHistoryStore, getSnapshotDir } from './store';
+import {
+  Entry,
+  listDirectories,
+  listFiles,
+  safeReadJson,
+  runGit,
+  getMessageParts,
+  getCreatedTime,
+  isInDirectory,
+} from './utils';
+import { parsePatchPart, getPatchFiles, PatchPart } from './parts';
+
+const INDEX_VERSION = 5;
+
+/** Minimum time between two mtime scans of the same store, in ms. */
+const REFRESH_INTERVAL_MS = 1000;
+
+export interface IndexedMessage {
+  id: string;
+  sessionId: string;
+  role: string | null;
+  created: number | null;
+  /** Mtime of the message file; its parts are re-read when it changes. */
+  fileMtimeMs: number;
+  partsMtimeMs: number;
+  /** Hash of the first `patch` part, the snapshot before the change. */
+  patchHash: string | null;
+  /** First snapshot recorded by the message (step-start or patch). */
+  firstSnapshot: string | null;
+  /** Snapshot recorded by the message's last `step-finish` part. */
+  finishSnapshot: string | null;
+  /** Project-relative paths the message changed; null until known. */
+  files: string[] | null;
+  /**
+   * Snapshot `files` was worked out against with git; null when the patch
+   * parts recorded them.
+   */
+  filesSnapshot: string | null;
+}
+
+export interface IndexedSession {
+  id: string;
+  projectId: string | null;
+  title: string;
+  directory: string | null;
+  /** Session that spawned this one (a task or subagent), if any. */
+  parentId: string | null;
+  sessionFileMtimeMs: number;
+  messageDirMtimeMs: number;
+  /** Message IDs in creation order. */
+  messageIds: string[];
+}
+
+export interface HistoryIndex {
+  version: number;
+  storageRoot: string;
+  snapshotRoot: string;
+  sessions: Record<string, IndexedSession>;
+  messages: Record<string, IndexedMessage>;
+}
+
+/** Which sessions to consider, by project, directory and title. */
+export interface SessionScope {
+  /** Only sessions of these projects. */
+  projectIds?: string[];
+  /** Only sessions started in this directory or below it. */
+  directory?: string;
+  /** Only sessions whose title contains this text, ignoring case. */
+  title?: string;
+}
+
+interface LoadedIndex {
+  index: HistoryIndex;
+  refreshedAt: number;
+}
+
+const loadedIndexes = new Map<string, LoadedIndex>();
+
+/**
+ * Touched files are worked out from the snapshot repos, so an index belongs
+ * to a storage root and a snapshot root together.
+ */
+function getIndexKey(store: HistoryStore): string {
+  return `${store.storageRoot}\0${store.snapshotRoot}`;
+}
+
+function getIndexPath(store: HistoryStore): string | null {
+  if (!store.cacheDir) {
+    return null;
+  }
+  const key = crypto
+    .createHash('sha1')
+    .update(getIndexKey(store))
+    .digest('hex')
+    .slice(0, 12);
+  return path.join(store.cacheDir, `index-${key}.json`);
+}
+
+function emptyIndex(store: HistoryStore): HistoryIndex {
+  return {
+    version: INDEX_VERSION,
+    storageRoot: store.storageRoot,
+    snapshotRoot: store.snapshotRoot,
+    sessions: {},
+    messages: {},
+  };
+}
+
+function readIndexFile(store: HistoryStore): HistoryIndex {
+  const indexPath = getIndexPath(store);
+  const data = indexPath ? safeReadJson(indexPath) : null;
+  if (
+    data?.version !== INDEX_VERSION ||
+    data.storageRoot !== store.storageRoot ||
+    data.snapshotRoot !== store.snapshotRoot
+  ) {
+    return emptyIndex(store);
+  }
+  return data as unknown as HistoryIndex;
+}
+
+function writeIndexFile(store: HistoryStore, index: HistoryIndex): void {
+  const indexPath = getIndexPath(store);
+  if (!indexPath) {
+    return;
+  }
+  try {
+    fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+    const tmpPath = `${indexPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(index));
+    fs.renameSync(tmpPath, indexPath);
+  } catch {
+    // The index is only a cache; failing to persist it is not an error
+  }
+}
+
+function statMtimeMs(filePath: string): number {
+  try {
+    return fs.statSync(filePath).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+function ensureSession(index: HistoryIndex, sessionId: string): IndexedSession {
+  let session = index.sessions[sessionId];
+  if (!session) {
+    session = {
+      id: sessionId,
+      projectId: null,
+      title: '(no title)',
+      directory: null,
+      parentId: null,
+      sessionFileMtimeMs: 0,
+      messageDirMtimeMs: 0,
+      messageIds: [],
+    };
+    index.sessions[sessionId] = session;
+  }
+  return session;
+}
+
+function refreshSessionFiles(
+  store: HistoryStore,
+  index: HistoryIndex,
+): boolean {
+  let changed = false;
+
+  // A session may be listed under several project dirs; read every copy, in
+  // a fixed order, and track the newest mtime so the result does not depend
+  // on which copy the directory listing returns first
+  const copiesBySession = new Map<string, Entry[]>();
+  for (const projectDir of listDirectories(store.sessionRoot)) {
+    for (const file of listFiles(projectDir.path)) {
+      if (!file.name.endsWith('.json')) {
+        continue;
+      }
+      const sessionId = file.name.replace(/\.json$/, '');
+      const copies = copiesBySession.get(sessionId) ?? [];
+      copies.push(file);
+      copiesBySession.set(sessionId, copies);
+    }
+  }
+
+  for (const [sessionId, copies] of copiesBySession) {
+    const session = ensureSession(index, sessionId);
+    const mtimeMs = Math.max(...copies.map((file) => file.stat.mtimeMs));
+    if (session.sessionFileMtimeMs === mtimeMs) {
+      continue;
+    }
+
+    session.title = '(no title)';
+    session.projectId = null;
+    session.directory = null;
+    session.parentId = null;
+    copies.sort((a, b) => a.path.localeCompare(b.path));
+    for (const file of copies) {
+      const data = safeReadJson(file.path);
+      // Keep the first real title found, as getSessionTitle always has
+      if (typeof data?.title === 'string') {
+        if (session.title === '(no title)' || data.title !== '(no title)') {
+          session.title = data.title;
+        }
+      }
+      if (typeof data?.projectID === 'string' && data.projectID.length > 0) {
+        session.projectId = data.projectID;
+      }
+      if (typeof data?.directory === 'string') {
+        session.directory = data.directory;
+      }
+      if (typeof data?.parentID === 'string' && data.parentID.length > 0) {
+        session.parentId = data.parentID;
+      }
+    }
+    session.sessionFileMtimeMs = mtimeMs;
+    changed = true;
+  }
+
+  for (const session of Object.values(index.sessions)) {
+    if (copiesBySession.has(session.id) || session.sessionFileMtimeMs === 0) {
+      continue;
+    }
+    session.projectId = null;
+    session.title = '(no title)';
+    session.directory = null;
+    session.parentId = null;
+    session.sessionFileMtimeMs = 0;
+    changed = true;
+  }
+
+  return changed;
+}
+
+function refreshMessageParts(
+  store: HistoryStore,
+  index: HistoryIndex,
+  message: IndexedMessage,
+): boolean {
+  const partsMtimeMs = statMtimeMs(path.join(store.partRoot, message.id));
+  if (partsMtimeMs === message.partsMtimeMs) {
+    return false;
+  }
+
+  message.partsMtimeMs = partsMtimeMs;
+  message.patchHash = null;
+  message.firstSnapshot = null;
+  message.finishSnapshot = null;
+  message.files = null;
+  message.filesSnapshot = null;
+
+  const patches: PatchPart[] = [];
+  for (const part of getMessageParts(message.id, store)) {
+    const patch = parsePatchPart(part, message.id);
+    if (patch) {
+      patches.push(patch);
+      message.patchHash ??= patch.hash;
+      message.firstSnapshot ??= patch.hash;
+    }
+    if (part.type === 'step-start' && typeof part.snapshot === 'string') {
+      message.firstSnapshot ??= part.snapshot;
+    }
+    if (part.type === 'step-finish' && typeof part.snapshot === 'string') {
+      message.finishSnapshot = part.snapshot;
+    }
+  }
+
+  // Patch parts record the files they touched, so git is only needed for
+  // parts written before OpenCode started recording them
+  message.files = getPatchFiles(
+    patches,
+    index.sessions[message.sessionId]?.directory ?? null,
+  );
+
+  return true;
+}
+
+/**
+ * Bring the index's messages up to date. Sessions whose messages or parts
+ * changed are added to `touchedSessions`.
+ *
+ * OpenCode rewrites a message file whenever it records a step, so parts are
+ * only re-read for messages whose file mtime changed. Those are found by
+ * listing the sessions whose message directory changed, plus each session's
+ * latest message, the one still being written.
+ */
+function refreshMessages(
+  store: HistoryStore,
+  index: HistoryIndex,
+  touchedSessions: Set<string>,
+): boolean {
+  let changed = false;
+  const seenSessions = new Set<string>();
+
+  for (const sessionDir of listDirectories(store.messageRoot)) {
+    if (!sessionDir.name.startsWith('ses_')) {
+      continue;
+    }
+    const session = ensureSession(index, sessionDir.name);
+    seenSessions.add(session.id);
+    const stale: IndexedMessage[] = [];
+
+    if (session.messageDirMtimeMs !== sessionDir.stat.mtimeMs) {
+      const known = new Set(session.messageIds);
+      const current: IndexedMessage[] = [];
+
+      for (const file of listFiles(sessionDir.path)) {
+        if (!file.name.endsWith('.json')) {
+          continue;
+        }
+        const msgId = file.name.replace(/\.json$/, '');
+        let message = index.messages[msgId];
+        if (!message || !known.has(msgId)) {
+          const data = safeReadJson(file.path);
+          message = {
+            id: msgId,
+            sessionId: session.id,
+            role: typeof data?.role === 'string' ? data.role : null,
+            created: Number(getCreatedTime(data)) || null,
+            fileMtimeMs: -1,
+            partsMtimeMs: -1,
+            patchHash: null,
+            firstSnapshot: null,
+            finishSnapshot: null,
+            files: null,
+            filesSnapshot: null,
+          };
+          index.messages[msgId] = message;
+        }
+        if (message.fileMtimeMs !== file.stat.mtimeMs) {
+          message.fileMtimeMs = file.stat.mtimeMs;
+          stale.push(message);
+        }
+        current.push(message);
+      }
+
+      const currentIds = new Set(current.map((message) => message.id));
+      for (const msgId of session.messageIds) {
+        if (!currentIds.has(msgId)) {
+          delete index.messages[msgId];
+        }
+      }
+
+      session.messageIds = current
+        .sort(
+          (a, b) =>
+            (a.created ?? 0) - (b.created ?? 0) || a.id.localeCompare(b.id),
+        )
+        .map((message) => message.id);
+      session.messageDirMtimeMs = sessionDir.stat.mtimeMs;
+      touchedSessions.add(session.id);
+      changed = true;
+    } else {
+      const latest =
+        index.messages[session.messageIds[session.messageIds.length - 1]];
+      const mtimeMs = latest
+        ? statMtimeMs(path.join(sessionDir.path, `${latest.id}.json`))
+        : 0;
+      if (latest && latest.fileMtimeMs !== mtimeMs) {
+        latest.fileMtimeMs = mtimeMs;
+        stale.push(latest);
+        changed = true;
+      }
+    }
+
+    for (const message of stale) {
+      if (refreshMessageParts(store, index, message)) {
+        touchedSessions.add(session.id);
+        changed = true;
+      }
+    }
+  }
+
+  for (const session of Object.values(index.sessions)) {
+    if (seenSessions.has(session.id) || session.messageIds.length === 0) {
+      continue;
+    }
+    for (const msgId of session.messageIds) {
+      delete index.messages[msgId];
+    }
+    session.messageIds = [];
+    session.messageDirMtimeMs = 0;
+    changed = true;
+  }
+
+  for (const session of Object.values(index.sessions)) {
+    if (session.sessionFileMtimeMs === 0 && session.messageIds.length === 0) {
+      delete index.sessions[session.id];
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Find the snapshot taken after a message: its own last `step-finish`, or the
+ * first snapshot of a later message in the same session.
+ */
+export function getIndexedAfterSnapshot(
+  index: HistoryIndex,
+  message: IndexedMessage,
+): string | null {
+  const before = message.patchHash;
+  if (message.finishSnapshot && message.finishSnapshot !== before) {
+    return message.finishSnapshot;
+  }
+
+  const session = index.sessions[message.sessionId];
+  if (!session) {
+    return null;
+  }
+  const laterIds = session.messageIds.slice(
+    session.messageIds.indexOf(message.id) + 1,
+  );
+  for (const laterId of laterIds) {
+    const snapshot = index.messages[laterId]?.firstSnapshot;
+    if (snapshot && snapshot !== before) {
+      return snapshot;
+    }
+  }
+  return null;
+}
+
+/** When a session was active, from its messages. */
+export interface SessionActivity {
+  session: IndexedSession;
+  /** When the session's first message was created (ms since epoch). */
+  first: number;
+  /** When the session's last message was created (ms since epoch). */
+  last: number;
+}
+
+/**
+ * Sessions that have a message directory, most recently active first.
+ * Activity comes from the messages' `time.created`, which survives copying
+ * the storage; the message directory's mtime is only a fallback for sessions
+ * whose messages record no time.
+ */
+export function getIndexedSessionsByActivity(
+  index: HistoryIndex,
+): SessionActivity[] {
+  return Object.values(index.sessions)
+    .filter((session) => session.messageDirMtimeMs > 0)
+    .map((session) => {
+      const created = session.messageIds
+        .map((msgId) => index.messages[msgId]?.created)
+        .filter((time): time is number => typeof time === 'number');
+      return created.length > 0
+        ? {
+            session,
+            first: Math.min(...created),
+            last: Math.max(...created),
+          }
+        : {
+            session,
+            first: session.messageDirMtimeMs,
+            last: session.messageDirMtimeMs,
+          };
+    })
+    .sort((a, b) => b.last - a.last);
+}
+
+/** Whether an indexed session matches every criterion of a scope. */
+export function isSessionInScope(
+  session: IndexedSession,
+  scope: SessionScope,
+): boolean {
+  return (
+    (!scope.projectIds ||
+      (session.projectId !== null &&
+        scope.projectIds.includes(session.projectId))) &&
+    (!scope.directory ||
+      (session.directory !== null &&
+        isInDirectory(session.directory, scope.directory))) &&
+    (!scope.title ||
+      session.title.toLowerCase().includes(scope.title.toLowerCase()))
+  );
+}
+
+/**
+ * List a session followed by the sessions it spawned, recursively: each
+ * child comes after its parent, and siblings in the order they started.
+ */
+export function getIndexedSessionFamily(
+  index: HistoryIndex,
+  sessionId: string,
+): IndexedSession[] {
+  const childrenByParent = new Map<string, IndexedSession[]>();
+  for (const session of Object.values(index.sessions)) {
+    if (session.parentId) {
+      const children = childrenByParent.get(session.parentId) ?? [];
+      children.push(session);
+      childrenByParent.set(session.parentId, children);
+    }
+  }
+  const startedAt = (session: IndexedSession) =>
+    index.messages[session.messageIds[0]]?.created ?? 0;
+
+  const family: IndexedSession[] = [];
+  const visit = (session: IndexedSession) => {
+    // Guard against parent links that loop
+    if (family.includes(session)) {
+      return;
+    }
+    family.push(session);
+    const children = childrenByParent.get(session.id) ?? [];
+    [...children].sort((a, b) => startedAt(a) - startedAt(b)).forEach(visit);
+  };
+  const root = index.sessions[sessionId];
+  if (root) {
+    visit(root);
+  }
+  return family;
+}
+
+/**
+ * Fill in touched files for messages whose patch parts did not record them,
+ * by diffing the message's snapshot pair.
+ *
+ * Only the messages of `touchedSessions` are looked at: a message's after
+ * snapshot is often recorded by the next message, so a list that is unknown
+ * (or was worked out against an earlier snapshot) is re-checked whenever its
+ * session changes.
+ */
+function refreshTouchedFiles(
+  store: HistoryStore,
+  index: HistoryIndex,
+  touchedSessions: Set<string>,
+): boolean {
+  let changed = false;
+
+  const messages = [...touchedSessions].flatMap(
+    (sessionId) => index.sessions[sessionId]?.messageIds ?? [],
+  );
+  for (const msgId of messages) {
+    const message = index.messages[msgId];
+    if (
+      !message?.patchHash ||
+      (message.files !== null && message.filesSnapshot === null)
+    ) {
+      continue;
+    }
+    const projectId = index.sessions[message.sessionId]?.projectId;
+    const after = getIndexedAfterSnapshot(index, message);
+    if (!projectId || !after || after === message.filesSnapshot) {
+      continue;
+    }
+
+    const result = runGit([
+      '--git-dir',
+      getSnapshotDir(projectId, store),
+      'diff',
+      '--name-only',
+      message.patchHash,
+      after,
+    ]);
+    // On failure the files stay unknown, to be retried when the session
+    // next changes
+    if (result.status === 0) {
+      message.files = result.stdout.split(/\r?\n/).filter(Boolean);
+      message.filesSnapshot = after;
+    } else {
+      message.files = null;
+      message.filesSnapshot = null;
+    }
+    changed = true;
+  }
+
+  return changed;
+}
+
+/**
+ * Get the history index for a store, refreshing it from storage mtimes.
+ *
+ * The index is kept in memory per storage and snapshot root and persisted as
+ * JSON under the store's cache dir. Session files, message directories and
+ * part directories whose mtimes are unchanged are not re-read. Scans are
+ * throttled unless `force` is set.
+ */
+export function getHistoryIndex(
+  store: HistoryStore = getDefaultHistoryStore(),
+  force: boolean = false,
+): HistoryIndex {
+  const key = getIndexKey(store);
+  let loaded = loadedIndexes.get(key);
+  if (!loaded) {
+    loaded = { index: readIndexFile(store), refreshedAt: 0 };
+    loadedIndexes.set(key, loaded);
+  }
+
+  const now = Date.now();
+  if (force || now - loaded.refreshedAt >= REFRESH_INTERVAL_MS) {
+    const touchedSessions = new Set<string>();
+    const sessionsChanged = refreshSessionFiles(store, loaded.index);
+    const messagesChanged = refreshMessages(
+      store,
+      loaded.index,
+      touchedSessions,
+    );
+    const filesChanged = refreshTouchedFiles(
+      store,
+      loaded.index,
+      touchedSessions,
+    );
+    if (sessionsChanged || messagesChanged || filesChanged) {
+      writeIndexFile(store, loaded.index);
+    }
+    loaded.refreshedAt = now;
+  }
+
+  return loaded.index;
+}
+
+/**
+ * Look up a message in the index, forcing one refresh on a miss so messages
+ * written since the last scan are still found.
+ */
+export function getIndexedMessage(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): IndexedMessage | null {
+  const message = getHistoryIndex(store).messages[msgId];
+  if (message) {
+    return message;
+  }
+  return getHistoryIndex(store, true).messages[msgId] ?? null;
+}
+
+/**
+ * Look up a session in the index, forcing one refresh on a miss.
+ */
+export function getIndexedSession(
+  sessionId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): IndexedSession | null {
+  const session = getHistoryIndex(store).sessions[sessionId];
+  if (session) {
+    return session;
+  }
+  return getHistoryIndex(store, true).sessions[sessionId] ?? null;
+}
+
+/**
+ * Drop the in-memory and on-disk index for a store so the next lookup
+ * rebuilds it from scratch.
+ */
+export function clearHistoryIndex(
+  store: HistoryStore = getDefaultHistoryStore(),
+): void {
+  loadedIndexes.delete(getIndexKey(store));
+  const indexPath = getIndexPath(store);
+  if (indexPath) {
+    fs.rmSync(indexPath, { force: true });
+  }
+}
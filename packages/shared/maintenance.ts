@@ -0,0 +1,337 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { spawnSync } from 'child_process';
+
+import { HistoryStore, getDefaultHistoryStore, getSnapshotDir } from './store';
+import { getDirectorySize, listDirectories, listFiles, runGit } from './utils';
+import { HistoryIndex, IndexedMessage, getHistoryIndex } from './historyIndex';
+
+/**
+ * Part directories touched this recently are never treated as orphaned: a
+ * running agent may write a message's parts before its message file.
+ */
+const ORPHAN_MIN_AGE_MS = 60 * 60 * 1000;
+
+export interface ProjectHealth {
+  /** Null groups sessions whose session file names no project. */
+  projectId: string | null;
+  /** Work tree recorded by the project's sessions. */
+  directory: string | null;
+  directoryExists: boolean;
+  sessions: number;
+  messages: number;
+  parts: number;
+  snapshotDir: string | null;
+  /** Size of the snapshot repo on disk; null if there is none. */
+  snapshotBytes: number | null;
+  /** Messages whose patch hash is not in the snapshot repo. */
+  missingSnapshots: string[];
+  /** Sessions whose recorded work tree no longer exists. */
+  sessionsWithoutDirectory: string[];
+}
+
+export interface StorageHealth {
+  storageRoot: string;
+  snapshotRoot: string;
+  projects: ProjectHealth[];
+  /** Message IDs of part directories with no message file. */
+  orphanedPartDirs: string[];
+  /** Sessions whose recorded work tree no longer exists, in any project. */
+  orphanedSessions: string[];
+}
+
+export interface GcOptions {
+  /** Only report what would be done. */
+  dryRun?: boolean;
+  /** Remove orphaned part directories. */
+  pruneOrphans?: boolean;
+  /**
+   * Remove sessions whose work tree no longer exists, with their messages
+   * and parts.
+   */
+  pruneSessions?: boolean;
+  /** Repack every snapshot repo aggressively. */
+  repackSnapshots?: boolean;
+}
+
+export interface SnapshotRepack {
+  projectId: string;
+  bytesBefore: number;
+  /** Null in a dry run or if git failed. */
+  bytesAfter: number | null;
+  error: string | null;
+}
+
+export interface GcResult {
+  dryRun: boolean;
+  removedPartDirs: string[];
+  /** Bytes freed by removing part directories (or that would be). */
+  partBytes: number;
+  removedSessions: string[];
+  /** Bytes freed by removing sessions, messages and parts (or that would be). */
+  sessionBytes: number;
+  snapshots: SnapshotRepack[];
+}
+
+/**
+ * Check many objects with one `git cat-file --batch-check`. Returns the
+ * hashes that are missing.
+ */
+function findMissingObjects(snapshotDir: string, hashes: string[]): string[] {
+  if (hashes.length === 0) {
+    return [];
+  }
+  const result = spawnSync(
+    'git',
+    ['--git-dir', snapshotDir, 'cat-file', '--batch-check'],
+    { encoding: 'utf8', input: `${hashes.join('\n')}\n` },
+  );
+  if (result.status !== 0) {
+    return hashes;
+  }
+  return result.stdout
+    .split('\n')
+    .filter((line) => line.endsWith(' missing'))
+    .map((line) => line.slice(0, -' missing'.length));
+}
+
+/**
+ * Part directories whose message is not in the index, leaving out recently
+ * modified ones.
+ */
+function listOrphanedPartDirs(
+  store: HistoryStore,
+  messageIds: Set<string>,
+): string[] {
+  const cutoff = Date.now() - ORPHAN_MIN_AGE_MS;
+  return listDirectories(store.partRoot)
+    .filter((dir) => !messageIds.has(dir.name) && dir.stat.mtimeMs < cutoff)
+    .map((dir) => dir.name);
+}
+
+/** Sessions that recorded a work tree which has since been deleted. */
+function listOrphanedSessions(index: HistoryIndex): string[] {
+  return Object.values(index.sessions)
+    .filter(
+      (session) =>
+        session.directory !== null && !fs.existsSync(session.directory),
+    )
+    .map((session) => session.id);
+}
+
+/**
+ * Every file and directory holding a session: its session files (one per
+ * project directory it is listed under), its message directory and the part
+ * directories of its messages.
+ */
+function listSessionPaths(
+  store: HistoryStore,
+  index: HistoryIndex,
+  sessionId: string,
+): string[] {
+  const paths = listDirectories(store.sessionRoot)
+    .map((dir) => path.join(dir.path, `${sessionId}.json`))
+    .filter((file) => fs.existsSync(file));
+  paths.push(path.join(store.messageRoot, sessionId));
+  for (const msgId of index.sessions[sessionId]?.messageIds ?? []) {
+    paths.push(path.join(store.partRoot, msgId));
+  }
+  return paths;
+}
+
+function getPathSize(target: string): number {
+  try {
+    const stat = fs.statSync(target);
+    return stat.isDirectory() ? getDirectorySize(target) : stat.size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Report what the store holds per project and what is broken: counts of
+ * sessions, messages and parts, snapshot repo sizes, patch hashes whose
+ * snapshot objects are gone, sessions whose work tree was deleted and part
+ * directories left without a message. Sessions without a work tree are also
+ * listed together in `orphanedSessions`, for `collectGarbage` to prune.
+ *
+ * @param store - History store to inspect
+ */
+export function getStorageHealth(
+  store: HistoryStore = getDefaultHistoryStore(),
+): StorageHealth {
+  const index = getHistoryIndex(store, true);
+
+  const partCounts = new Map<string, number>();
+  for (const dir of listDirectories(store.partRoot)) {
+    partCounts.set(
+      dir.name,
+      listFiles(dir.path).filter((file) => file.name.endsWith('.json')).length,
+    );
+  }
+
+  const projects = new Map<string | null, ProjectHealth>();
+  for (const session of Object.values(index.sessions)) {
+    let project = projects.get(session.projectId);
+    if (!project) {
+      const snapshotDir = session.projectId
+        ? getSnapshotDir(session.projectId, store)
+        : null;
+      const hasRepo = snapshotDir !== null && fs.existsSync(snapshotDir);
+      project = {
+        projectId: session.projectId,
+        directory: null,
+        directoryExists: false,
+        sessions: 0,
+        messages: 0,
+        parts: 0,
+        snapshotDir: hasRepo ? snapshotDir : null,
+        snapshotBytes: hasRepo ? getDirectorySize(snapshotDir) : null,
+        missingSnapshots: [],
+        sessionsWithoutDirectory: [],
+      };
+      projects.set(session.projectId, project);
+    }
+
+    project.sessions += 1;
+    project.messages += session.messageIds.length;
+    for (const msgId of session.messageIds) {
+      project.parts += partCounts.get(msgId) ?? 0;
+    }
+    if (session.directory) {
+      const exists = fs.existsSync(session.directory);
+      if (!exists) {
+        project.sessionsWithoutDirectory.push(session.id);
+      } else if (!project.directoryExists) {
+        project.directory = session.directory;
+        project.directoryExists = true;
+      }
+      project.directory ??= session.directory;
+    }
+  }
+
+  const patchedByProject = new Map<string | null, IndexedMessage[]>();
+  for (const message of Object.values(index.messages)) {
+    const session = index.sessions[message.sessionId];
+    if (!message.patchHash || !session) {
+      continue;
+    }
+    const patched = patchedByProject.get(session.projectId) ?? [];
+    patched.push(message);
+    patchedByProject.set(session.projectId, patched);
+  }
+
+  for (const project of projects.values()) {
+    const patched = patchedByProject.get(project.projectId) ?? [];
+    const missing = new Set(
+      project.snapshotDir
+        ? findMissingObjects(project.snapshotDir, [
+            ...new Set(patched.map((message) => message.patchHash as string)),
+          ])
+        : patched.map((message) => message.patchHash as string),
+    );
+    project.missingSnapshots = patched
+      .filter((message) => missing.has(message.patchHash as string))
+      .map((message) => message.id);
+  }
+
+  return {
+    storageRoot: store.storageRoot,
+    snapshotRoot: store.snapshotRoot,
+    projects: [...projects.values()].sort((a, b) => b.sessions - a.sessions),
+    orphanedPartDirs: listOrphanedPartDirs(
+      store,
+      new Set(Object.keys(index.messages)),
+    ),
+    orphanedSessions: listOrphanedSessions(index),
+  };
+}
+
+/**
+ * Reclaim space in the store. Every step is opt-in:
+ * - `pruneOrphans` deletes part directories whose message file is gone
+ * - `pruneSessions` deletes sessions whose work tree no longer exists: their
+ *   session files, messages and parts. Snapshot repos are left alone, as
+ *   other sessions of the project may still use them
+ * - `repackSnapshots` repacks each snapshot repo with `git repack -a -d -f`
+ *   and `--keep-unreachable`. Snapshot trees are not referenced by any ref,
+ *   so a plain `git gc` would delete them along with the history they hold.
+ *
+ * @param options - Steps to run and dry-run flag
+ * @param store - History store to clean up
+ */
+export function collectGarbage(
+  options: GcOptions = {},
+  store: HistoryStore = getDefaultHistoryStore(),
+): GcResult {
+  const dryRun = options.dryRun ?? false;
+  const index = getHistoryIndex(store, true);
+  const result: GcResult = {
+    dryRun,
+    removedPartDirs: [],
+    partBytes: 0,
+    removedSessions: [],
+    sessionBytes: 0,
+    snapshots: [],
+  };
+
+  if (options.pruneOrphans) {
+    const orphans = listOrphanedPartDirs(
+      store,
+      new Set(Object.keys(index.messages)),
+    );
+    for (const msgId of orphans) {
+      const dir = path.join(store.partRoot, msgId);
+      result.partBytes += getDirectorySize(dir);
+      if (!dryRun) {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+      result.removedPartDirs.push(msgId);
+    }
+  }
+
+  if (options.pruneSessions) {
+    for (const sessionId of listOrphanedSessions(index)) {
+      for (const target of listSessionPaths(store, index, sessionId)) {
+        result.sessionBytes += getPathSize(target);
+        if (!dryRun) {
+          fs.rmSync(target, { recursive: true, force: true });
+        }
+      }
+      result.removedSessions.push(sessionId);
+    }
+  }
+
+  if (options.repackSnapshots) {
+    for (const dir of listDirectories(store.snapshotRoot)) {
+      const repack: SnapshotRepack = {
+        projectId: dir.name,
+        bytesBefore: getDirectorySize(dir.path),
+        bytesAfter: null,
+        error: null,
+      };
+      if (!dryRun) {
+        const git = runGit([
+          '--git-dir',
+          dir.path,
+          'repack',
+          '-a',
+          '-d',
+          '-f',
+          '-q',
+          '--keep-unreachable',
+          '--depth=50',
+          '--window=250',
+        ]);
+        if (git.status === 0) {
+          repack.bytesAfter = getDirectorySize(dir.path);
+        } else {
+          repack.error = git.stderr.trim() || 'git repack failed';
+        }
+      }
+      result.snapshots.push(repack);
+    }
+  }
+
+  return result;
+}
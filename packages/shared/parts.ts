@@ -0,0 +1,306 @@
+import * as path from 'node:path';
+
+import { HistoryStore, getDefaultHistoryStore } from './store';
+import { getMessageParts } from './utils';
+
+/**
+ * A `patch` part, written by OpenCode at the end of each step that changed
+ * files. `hash` is the snapshot taken before the step; `files` lists the
+ * paths the step touched, as recorded (usually absolute).
+ */
+export interface PatchPart {
+  id: string;
+  messageId: string;
+  hash: string;
+  /** Null when the part predates OpenCode recording touched files. */
+  files: string[] | null;
+}
+
+export function parsePatchPart(
+  data: Record<string, unknown>,
+  messageId: string,
+): PatchPart | null {
+  if (data.type !== 'patch' || typeof data.hash !== 'string') {
+    return null;
+  }
+
+  return {
+    id: typeof data.id === 'string' ? data.id : '',
+    messageId,
+    hash: data.hash,
+    files: Array.isArray(data.files)
+      ? data.files.filter((file): file is string => typeof file === 'string')
+      : null,
+  };
+}
+
+/**
+ * Get every patch part of a message in the order they were written.
+ */
+export function getPatchParts(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): PatchPart[] {
+  const patches: PatchPart[] = [];
+  for (const data of getMessageParts(msgId, store)) {
+    const patch = parsePatchPart(data, msgId);
+    if (patch) {
+      patches.push(patch);
+    }
+  }
+  return patches;
+}
+
+/**
+ * Convert a recorded patch file path (or one given by a user) to the
+ * project-relative, normalized, `/`-separated form git uses. Returns null for
+ * paths outside the project directory.
+ */
+export function toProjectRelativePath(
+  filePath: string,
+  projectDir: string | null,
+): string | null {
+  let relative = filePath;
+  if (path.isAbsolute(filePath)) {
+    if (!projectDir) {
+      return null;
+    }
+    relative = path.relative(projectDir, filePath);
+  }
+
+  relative = path.posix.normalize(relative.split(path.sep).join('/'));
+  if (
+    !relative ||
+    relative === '.' ||
+    relative === './' ||
+    relative === '..' ||
+    relative.startsWith('../')
+  ) {
+    return null;
+  }
+  return relative;
+}
+
+/**
+ * Collect the project-relative files touched by a message's patch parts.
+ * Returns null if any part did not record its files.
+ */
+export function getPatchFiles(
+  patches: PatchPart[],
+  projectDir: string | null,
+): string[] | null {
+  const files = new Set<string>();
+  for (const patch of patches) {
+    if (!patch.files) {
+      return null;
+    }
+    for (const file of patch.files) {
+      const relative = toProjectRelativePath(file, projectDir);
+      if (relative) {
+        files.add(relative);
+      }
+    }
+  }
+  return [...files].sort();
+}
+
+/** Assistant or user prose. */
+export interface TextPart {
+  type: 'text';
+  id: string;
+  messageId: string;
+  text: string;
+  /** Set on text OpenCode injected rather than the user typed. */
+  synthetic: boolean;
+}
+
+/** Model reasoning, recorded by providers that expose it. */
+export interface ReasoningPart {
+  type: 'reasoning';
+  id: string;
+  messageId: string;
+  text: string;
+}
+
+export type ToolStatus = 'pending' | 'running' | 'completed' | 'error';
+
+/** A tool call with its input and, once finished, its output or error. */
+export interface ToolPart {
+  type: 'tool';
+  id: string;
+  messageId: string;
+  tool: string;
+  callId: string;
+  status: ToolStatus;
+  title: string | null;
+  input: Record<string, unknown>;
+  output: string | null;
+  error: string | null;
+  start: number | null;
+  end: number | null;
+}
+
+/** The parts of a message that make up the conversation. */
+export type MessagePart = TextPart | ReasoningPart | ToolPart;
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+export function parseToolPart(
+  data: Record<string, unknown>,
+  messageId: string,
+): ToolPart | null {
+  if (data.type !== 'tool' || typeof data.tool !== 'string') {
+    return null;
+  }
+
+  const state = asRecord(data.state);
+  const status = asString(state.status);
+  const time = asRecord(state.time);
+  return {
+    type: 'tool',
+    id: asString(data.id) ?? '',
+    messageId,
+    tool: data.tool,
+    callId: asString(data.callID) ?? '',
+    status:
+      status === 'running' || status === 'completed' || status === 'error'
+        ? status
+        : 'pending',
+    title: asString(state.title),
+    input: asRecord(state.input),
+    output: asString(state.output),
+    error: asString(state.error),
+    start: asNumber(time.start),
+    end: asNumber(time.end),
+  };
+}
+
+/**
+ * Parse a stored part into a conversation part. Returns null for bookkeeping
+ * parts (step-start, step-finish, patch, ...) and for malformed data.
+ */
+export function parseMessagePart(
+  data: Record<string, unknown>,
+  messageId: string,
+): MessagePart | null {
+  const id = asString(data.id) ?? '';
+  switch (data.type) {
+    case 'text':
+      return typeof data.text === 'string'
+        ? {
+            type: 'text',
+            id,
+            messageId,
+            text: data.text,
+            synthetic: data.synthetic === true,
+          }
+        : null;
+    case 'reasoning':
+      return typeof data.text === 'string'
+        ? { type: 'reasoning', id, messageId, text: data.text }
+        : null;
+    case 'tool':
+      return parseToolPart(data, messageId);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the text, reasoning and tool parts of a message in the order they were
+ * written.
+ */
+export function getConversationParts(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): MessagePart[] {
+  const parts: MessagePart[] = [];
+  for (const data of getMessageParts(msgId, store)) {
+    const part = parseMessagePart(data, msgId);
+    if (part) {
+      parts.push(part);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Describe a message in one line: the first line of its text, or else the
+ * names of the tools it called. Returns null for a message with neither.
+ */
+export function getMessageSummary(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string | null {
+  const parts = getConversationParts(msgId, store);
+  for (const part of parts) {
+    if (part.type === 'text') {
+      const line = part.text.trim().split('\n')[0];
+      if (line) {
+        return line;
+      }
+    }
+  }
+
+  const tools = new Set<string>();
+  for (const part of parts) {
+    if (part.type === 'tool') {
+      tools.add(part.tool);
+    }
+  }
+  return tools.size > 0 ? [...tools].join(', ') : null;
+}
+
+/**
+ * Get the tool calls of a message in the order they were made.
+ */
+export function getMessageToolCalls(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): ToolPart[] {
+  const calls: ToolPart[] = [];
+  for (const data of getMessageParts(msgId, store)) {
+    const call = parseToolPart(data, msgId);
+    if (call) {
+      calls.push(call);
+    }
+  }
+  return calls;
+}
+
+/** Input keys that best identify what a tool call did, most telling first. */
+const SUMMARY_INPUT_KEYS = [
+  'command',
+  'filePath',
+  'path',
+  'pattern',
+  'url',
+  'query',
+  'description',
+];
+
+/**
+ * Describe a tool call in one line: its most telling input argument (the bash
+ * command, the edited path, ...), or else its title.
+ */
+export function getToolCallSummary(call: ToolPart): string {
+  for (const key of SUMMARY_INPUT_KEYS) {
+    const value = call.input[key];
+    if (typeof value === 'string' && value) {
+      return value.split('\n')[0];
+    }
+  }
+  return call.title ?? '';
+}
@@ -0,0 +1,438 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { spawnSync } from 'child_process';
+
+import { RevertError, SnapshotReadError } from './errors';
+import { HistoryStore, getDefaultHistoryStore } from './store';
+import { readSnapshotFile, runGit } from './utils';
+import { createRevertBackup, finishRevertBackup } from './revertJournal';
+
+/** One message's own change inside a `RevertRange`. */
+export interface RevertStep {
+  messageId: string;
+  /** Snapshot taken before the message changed anything. */
+  before: string;
+  /** Snapshot taken after the message's change. */
+  after: string;
+}
+
+/**
+ * A span of agent changes to undo: the change each message made between its
+ * own snapshots, applied in reverse to the project directory. Edits made
+ * between the messages are not part of any step and are kept.
+ */
+export interface RevertRange {
+  projectDir: string;
+  snapshotDir: string;
+  /** Snapshot before the first change in the range. */
+  before: string;
+  /** Snapshot after the last change in the range. */
+  after: string;
+  /** Messages whose changes fall inside the range, oldest first. */
+  messageIds: string[];
+  /** The change of each of those messages, oldest first. */
+  steps: RevertStep[];
+}
+
+export interface RevertOptions {
+  /** Only report what would happen; leave the work tree untouched. */
+  dryRun?: boolean;
+  /**
+   * When a message's reverse patch does not apply, merge instead: the file is
+   * "ours", the message's `after` snapshot the base and its `before` snapshot
+   * "theirs". Conflicts are written with markers.
+   */
+  threeWay?: boolean;
+  /** Limit the revert to these project-relative paths. */
+  paths?: string[];
+}
+
+/**
+ * What happened (or, in a dry run, would happen) to one file:
+ * - `reverted`: the reverse patch applied cleanly
+ * - `merged`: a three-way merge applied without conflicts
+ * - `conflict`: a three-way merge left conflict markers
+ * - `already-reverted`: the file already has its pre-change content
+ * - `failed`: the file was left alone; see `message`
+ */
+export type RevertOutcome =
+  'reverted' | 'merged' | 'conflict' | 'already-reverted' | 'failed';
+
+export interface RevertFileResult {
+  path: string;
+  /** How the file was changed by the messages being reverted. */
+  change: 'added' | 'deleted' | 'modified';
+  outcome: RevertOutcome;
+  message: string | null;
+}
+
+export interface RevertResult {
+  projectDir: string;
+  before: string;
+  after: string;
+  messageIds: string[];
+  dryRun: boolean;
+  threeWay: boolean;
+  files: RevertFileResult[];
+  /** Revert log entry holding the pre-revert contents; null if nothing was written. */
+  journalId: string | null;
+}
+
+function readWorkTreeFile(filePath: string): Buffer | null {
+  try {
+    return fs.readFileSync(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+interface ChangedFile {
+  path: string;
+  change: RevertFileResult['change'];
+  /** The steps that changed the file, oldest first. */
+  steps: RevertStep[];
+}
+
+function listChangedFiles(
+  range: RevertRange,
+  paths: string[] | undefined,
+): ChangedFile[] {
+  const files = new Map<string, ChangedFile>();
+  for (const step of range.steps) {
+    const args = [
+      '--git-dir',
+      range.snapshotDir,
+      'diff',
+      '--name-status',
+      '--no-renames',
+      '-z',
+      step.before,
+      step.after,
+    ];
+    if (paths && paths.length > 0) {
+      args.push('--', ...paths);
+    }
+
+    const result = runGit(args);
+    if (result.status !== 0) {
+      throw new RevertError(
+        result.stderr.trim() || 'Could not list the changed files',
+      );
+    }
+
+    const fields = result.stdout.split('\0').filter(Boolean);
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const status = fields[i];
+      const filePath = fields[i + 1];
+      const file = files.get(filePath);
+      if (!file) {
+        files.set(filePath, {
+          path: filePath,
+          change:
+            status === 'A' ? 'added' : status === 'D' ? 'deleted' : 'modified',
+          steps: [step],
+        });
+        continue;
+      }
+      // A file added and later deleted stays added: undoing both removes it
+      if (status === 'D' && file.change !== 'added') {
+        file.change = 'deleted';
+      } else if (status !== 'D' && file.change === 'deleted') {
+        file.change = 'modified';
+      }
+      file.steps.push(step);
+    }
+  }
+  return [...files.values()].sort((a, b) =>
+    a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+  );
+}
+
+/**
+ * Three-way merge the work tree file with the change undone. Returns the
+ * merged content and the number of conflicts, or null if git failed.
+ */
+function mergeReverse(
+  current: Buffer,
+  base: Buffer,
+  target: Buffer,
+): { content: Buffer; conflicts: number } | null {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'oc-hist-revert-'));
+  try {
+    const files = [current, base, target].map((content, i) => {
+      const file = path.join(dir, String(i));
+      fs.writeFileSync(file, content);
+      return file;
+    });
+    const result = spawnSync(
+      'git',
+      [
+        'merge-file',
+        '-p',
+        '-L',
+        'working tree',
+        '-L',
+        'after change',
+        '-L',
+        'before change',
+        ...files,
+      ],
+      { encoding: 'buffer' },
+    );
+    // Exit status is the conflict count; negative (255) means an error
+    if (result.status === null || result.status > 127) {
+      return null;
+    }
+    return { content: result.stdout, conflicts: result.status };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+type StepOutcome =
+  { merged: false } | { merged: true; conflicts: number } | { failed: string };
+
+/**
+ * Undo one message's change to a file in the scratch copy under `workDir`:
+ * reverse its patch, or with `threeWay` merge the change out.
+ */
+function undoStep(
+  range: RevertRange,
+  step: RevertStep,
+  filePath: string,
+  workDir: string,
+  options: RevertOptions,
+): StepOutcome {
+  const patch = runGit([
+    '--git-dir',
+    range.snapshotDir,
+    'diff',
+    '--binary',
+    '--no-renames',
+    step.before,
+    step.after,
+    '--',
+    filePath,
+  ]);
+  if (patch.status !== 0 || !patch.stdout) {
+    return { failed: 'Could not compute the change to revert' };
+  }
+
+  const applyArgs = ['apply', '-R'];
+  const check = spawnSync('git', [...applyArgs, '--check'], {
+    encoding: 'utf8',
+    cwd: workDir,
+    input: patch.stdout,
+  });
+  if (check.status === 0) {
+    const apply = spawnSync('git', applyArgs, {
+      encoding: 'utf8',
+      cwd: workDir,
+      input: patch.stdout,
+    });
+    return apply.status === 0
+      ? { merged: false }
+      : { failed: apply.stderr.trim() || 'git apply failed' };
+  }
+
+  const reason = check.stderr.trim().split('\n')[0] || 'Patch does not apply';
+  if (!options.threeWay) {
+    return { failed: reason };
+  }
+
+  const copy = path.join(workDir, filePath);
+  const current = readWorkTreeFile(copy);
+  const before = readSnapshotFile(range.snapshotDir, step.before, filePath);
+  const after = readSnapshotFile(range.snapshotDir, step.after, filePath);
+  if (!current || !before || !after) {
+    return {
+      failed: !before
+        ? 'File was changed after it was added; remove it manually'
+        : !after
+          ? 'File was recreated after it was deleted'
+          : 'File no longer exists',
+    };
+  }
+  if (isBinary(current) || isBinary(before) || isBinary(after)) {
+    return { failed: 'Cannot merge a binary file' };
+  }
+
+  const merged = mergeReverse(current, after, before);
+  if (!merged) {
+    return { failed: 'git merge-file failed' };
+  }
+  fs.writeFileSync(copy, merged.content);
+  return { merged: true, conflicts: merged.conflicts };
+}
+
+/**
+ * Undo every step that changed a file, newest first, on a scratch copy of the
+ * work tree file. The work tree is only written once all steps succeeded.
+ */
+function revertFile(
+  range: RevertRange,
+  file: ChangedFile,
+  options: RevertOptions,
+): RevertFileResult {
+  const result = (
+    outcome: RevertOutcome,
+    message: string | null = null,
+  ): RevertFileResult => ({
+    path: file.path,
+    change: file.change,
+    outcome,
+    message,
+  });
+
+  const target = path.join(range.projectDir, file.path);
+  const current = readWorkTreeFile(target);
+  let original: Buffer | null;
+  try {
+    original =
+      file.change === 'added'
+        ? null
+        : readSnapshotFile(range.snapshotDir, file.steps[0].before, file.path);
+  } catch (error) {
+    if (error instanceof SnapshotReadError) {
+      return result('failed', error.message);
+    }
+    throw error;
+  }
+
+  if (
+    (file.change === 'added' && !current) ||
+    (original && current && original.equals(current))
+  ) {
+    return result('already-reverted');
+  }
+
+  let merged = false;
+  let conflicts = 0;
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oc-hist-revert-'));
+  try {
+    const copy = path.join(workDir, file.path);
+    if (current) {
+      fs.mkdirSync(path.dirname(copy), { recursive: true });
+      fs.writeFileSync(copy, current);
+    }
+
+    for (const step of [...file.steps].reverse()) {
+      let outcome: StepOutcome;
+      try {
+        outcome = undoStep(range, step, file.path, workDir, options);
+      } catch (error) {
+        if (error instanceof SnapshotReadError) {
+          return result('failed', error.message);
+        }
+        throw error;
+      }
+      if ('failed' in outcome) {
+        return result(
+          'failed',
+          file.steps.length > 1
+            ? `${outcome.failed} (undoing ${step.messageId})`
+            : outcome.failed,
+        );
+      }
+      if (outcome.merged) {
+        merged = true;
+        conflicts += outcome.conflicts;
+      }
+    }
+
+    if (!options.dryRun) {
+      const reverted = readWorkTreeFile(copy);
+      if (reverted) {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, reverted);
+      } else if (current) {
+        fs.rmSync(target, { force: true });
+      }
+    }
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  return conflicts > 0
+    ? result('conflict', `${conflicts} conflict(s)`)
+    : merged
+      ? result('merged')
+      : result('reverted');
+}
+
+/**
+ * Undo the changes in a snapshot range, file by file, in the range's project
+ * directory. Each message's own change to a file is reversed with
+ * `git apply -R`, newest first, so edits made between the messages are kept;
+ * with `threeWay`, a change whose reverse patch no longer applies is merged
+ * out with `git merge-file` instead.
+ *
+ * Unless `dryRun` is set, the files are first backed up to the revert log so
+ * `undoRevert` can put them back.
+ *
+ * @param range - Snapshots and project to revert, see `getRevertRange`
+ * @param options - Dry run, three-way merge and path filter
+ * @param store - History store whose state dir holds the revert log
+ * @returns One result per file changed by the range's messages
+ * @throws RevertError if the changed files cannot be listed
+ */
+export function revertRange(
+  range: RevertRange,
+  options: RevertOptions = {},
+  store: HistoryStore = getDefaultHistoryStore(),
+): RevertResult {
+  const changed = listChangedFiles(range, options.paths);
+
+  const backup = options.dryRun
+    ? null
+    : createRevertBackup(
+        range.projectDir,
+        range.messageIds,
+        changed.map((file) => file.path),
+        store,
+      );
+
+  let files: RevertFileResult[];
+  try {
+    files = changed.map((file) => revertFile(range, file, options));
+  } catch (error) {
+    if (backup) {
+      // Keep whatever was written undoable
+      finishRevertBackup(
+        backup,
+        backup.files.map((file) => file.path),
+        store,
+      );
+    }
+    throw error;
+  }
+
+  const journal = backup
+    ? finishRevertBackup(
+        backup,
+        files
+          .filter(
+            (file) =>
+              file.outcome !== 'already-reverted' && file.outcome !== 'failed',
+          )
+          .map((file) => file.path),
+        store,
+      )
+    : null;
+
+  return {
+    projectDir: range.projectDir,
+    before: range.before,
+    after: range.after,
+    messageIds: range.messageIds,
+    dryRun: options.dryRun ?? false,
+    threeWay: options.threeWay ?? false,
+    files,
+    journalId: journal?.id ?? null,
+  };
+}
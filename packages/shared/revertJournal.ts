@@ -0,0 +1,278 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+
+import { RevertError } from './errors';
+import { HistoryStore, getDefaultHistoryStore } from './store';
+import { listDirectories, safeReadJson } from './utils';
+
+export interface RevertBackupFile {
+  /** Project-relative path. */
+  path: string;
+  /** Name of the copy in the entry's `files/` directory; null if the file did not exist. */
+  backup: string | null;
+  /**
+   * SHA-1 of the content the revert left behind, or null if it left no file.
+   * Absent while the revert is still running.
+   */
+  revertedHash?: string | null;
+}
+
+/**
+ * One revert, as recorded in the revert log: which files it touched and where
+ * their pre-revert contents were saved.
+ */
+export interface RevertJournalEntry {
+  id: string;
+  /** When the revert started, in ms since epoch. */
+  createdAt: number;
+  projectDir: string;
+  messageIds: string[];
+  files: RevertBackupFile[];
+  /** When the revert was undone; null while it is still in effect. */
+  undoneAt: number | null;
+}
+
+export type UndoRevertAction = 'restored' | 'removed' | 'unchanged';
+
+export interface UndoRevertResult {
+  entry: RevertJournalEntry;
+  dryRun: boolean;
+  files: { path: string; action: UndoRevertAction }[];
+}
+
+export interface UndoRevertOptions {
+  /** Restore even files that were edited after the revert. */
+  force?: boolean;
+  /** Only report what would be restored. */
+  dryRun?: boolean;
+}
+
+function getJournalDir(store: HistoryStore): string {
+  return path.join(store.stateDir, 'reverts');
+}
+
+function getEntryDir(id: string, store: HistoryStore): string {
+  return path.join(getJournalDir(store), id);
+}
+
+function isValidEntryId(id: string): boolean {
+  return /^[0-9]{8}T[0-9]{6}Z-[0-9a-f]{6}$/.test(id);
+}
+
+function createEntryId(now: Date): string {
+  const stamp = now
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d+Z$/, 'Z');
+  return `${stamp}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+function hashContent(content: Buffer): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+function hashWorkTreeFile(filePath: string): string | null {
+  try {
+    return hashContent(fs.readFileSync(filePath));
+  } catch {
+    return null;
+  }
+}
+
+function writeEntry(entry: RevertJournalEntry, store: HistoryStore): void {
+  const entryPath = path.join(getEntryDir(entry.id, store), 'entry.json');
+  const tempPath = `${entryPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(entry, null, 2));
+  fs.renameSync(tempPath, entryPath);
+}
+
+/**
+ * Save the current contents of files a revert is about to overwrite and add
+ * the revert to the log. Call `finishRevertBackup` once the revert is done.
+ *
+ * @param projectDir - Project work tree the paths are relative to
+ * @param messageIds - Messages whose changes are being reverted
+ * @param paths - Project-relative paths the revert may write
+ * @param store - History store whose state dir holds the journal
+ */
+export function createRevertBackup(
+  projectDir: string,
+  messageIds: string[],
+  paths: string[],
+  store: HistoryStore = getDefaultHistoryStore(),
+): RevertJournalEntry {
+  const now = new Date();
+  const entry: RevertJournalEntry = {
+    id: createEntryId(now),
+    createdAt: now.getTime(),
+    projectDir,
+    messageIds,
+    files: [],
+    undoneAt: null,
+  };
+
+  const filesDir = path.join(getEntryDir(entry.id, store), 'files');
+  fs.mkdirSync(filesDir, { recursive: true });
+
+  paths.forEach((filePath, i) => {
+    const source = path.join(projectDir, filePath);
+    let backup: string | null = null;
+    if (fs.existsSync(source)) {
+      backup = String(i);
+      fs.copyFileSync(source, path.join(filesDir, backup));
+    }
+    entry.files.push({ path: filePath, backup });
+  });
+
+  writeEntry(entry, store);
+  return entry;
+}
+
+/**
+ * Record the outcome of a journaled revert. Only `touchedPaths` stay in the
+ * entry; if the revert touched nothing the entry is discarded and null is
+ * returned.
+ */
+export function finishRevertBackup(
+  entry: RevertJournalEntry,
+  touchedPaths: string[],
+  store: HistoryStore = getDefaultHistoryStore(),
+): RevertJournalEntry | null {
+  const touched = new Set(touchedPaths);
+  const files = entry.files.filter((file) => touched.has(file.path));
+  if (files.length === 0) {
+    discardRevertBackup(entry, store);
+    return null;
+  }
+
+  const entryDir = getEntryDir(entry.id, store);
+  for (const file of entry.files) {
+    if (!touched.has(file.path) && file.backup) {
+      fs.rmSync(path.join(entryDir, 'files', file.backup), { force: true });
+    }
+  }
+
+  const finished: RevertJournalEntry = {
+    ...entry,
+    files: files.map((file) => ({
+      ...file,
+      revertedHash: hashWorkTreeFile(path.join(entry.projectDir, file.path)),
+    })),
+  };
+  writeEntry(finished, store);
+  return finished;
+}
+
+/**
+ * Remove a backup whose revert did not go ahead.
+ */
+export function discardRevertBackup(
+  entry: RevertJournalEntry,
+  store: HistoryStore = getDefaultHistoryStore(),
+): void {
+  fs.rmSync(getEntryDir(entry.id, store), { recursive: true, force: true });
+}
+
+export function getRevertJournalEntry(
+  id: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): RevertJournalEntry | null {
+  if (!isValidEntryId(id)) {
+    return null;
+  }
+  const data = safeReadJson(path.join(getEntryDir(id, store), 'entry.json'));
+  return data ? (data as unknown as RevertJournalEntry) : null;
+}
+
+/**
+ * List the revert log, newest first.
+ */
+export function listRevertJournal(
+  store: HistoryStore = getDefaultHistoryStore(),
+): RevertJournalEntry[] {
+  const entries: RevertJournalEntry[] = [];
+  for (const dir of listDirectories(getJournalDir(store))) {
+    const entry = getRevertJournalEntry(dir.name, store);
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Put back the files a revert overwrote, exactly as they were before it ran.
+ *
+ * Files edited since the revert are only restored with `force`, so undoing
+ * does not silently discard newer work.
+ *
+ * @param id - Revert log entry to undo; defaults to the latest one not yet
+ *   undone
+ * @param options - Force and dry-run flags
+ * @param store - History store whose state dir holds the journal
+ * @throws RevertError if there is nothing to undo or files changed since
+ */
+export function undoRevert(
+  id: string | undefined,
+  options: UndoRevertOptions = {},
+  store: HistoryStore = getDefaultHistoryStore(),
+): UndoRevertResult {
+  const entry = id
+    ? getRevertJournalEntry(id, store)
+    : (listRevertJournal(store).find((candidate) => !candidate.undoneAt) ??
+      null);
+  if (!entry) {
+    throw new RevertError(
+      id ? `Revert not found: ${id}` : 'No reverts left to undo',
+    );
+  }
+  if (entry.undoneAt) {
+    throw new RevertError(`Revert ${entry.id} was already undone`);
+  }
+
+  const changed = entry.files.filter(
+    (file) =>
+      file.revertedHash !== undefined &&
+      hashWorkTreeFile(path.join(entry.projectDir, file.path)) !==
+        file.revertedHash,
+  );
+  if (changed.length > 0 && !options.force) {
+    throw new RevertError(
+      `Files changed since revert ${entry.id}: ${changed
+        .map((file) => file.path)
+        .join(', ')} (force to overwrite)`,
+    );
+  }
+
+  const filesDir = path.join(getEntryDir(entry.id, store), 'files');
+  const files = entry.files.map((file) => {
+    const target = path.join(entry.projectDir, file.path);
+    let action: UndoRevertAction;
+    if (file.backup) {
+      const backupPath = path.join(filesDir, file.backup);
+      action =
+        hashWorkTreeFile(target) === hashContent(fs.readFileSync(backupPath))
+          ? 'unchanged'
+          : 'restored';
+      if (action === 'restored' && !options.dryRun) {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(backupPath, target);
+      }
+    } else {
+      action = fs.existsSync(target) ? 'removed' : 'unchanged';
+      if (action === 'removed' && !options.dryRun) {
+        fs.rmSync(target, { force: true });
+      }
+    }
+    return { path: file.path, action };
+  });
+
+  if (options.dryRun) {
+    return { entry, dryRun: true, files };
+  }
+
+  const undone: RevertJournalEntry = { ...entry, undoneAt: Date.now() };
+  writeEntry(undone, store);
+  return { entry: undone, dryRun: false, files };
+}
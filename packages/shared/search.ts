@@ -0,0 +1,208 @@
+import { HistoryStore, getDefaultHistoryStore } from './store';
+import { formatTimestamp } from './utils';
+import {
+  SessionScope,
+  getHistoryIndex,
+  getIndexedSessionsByActivity,
+  isSessionInScope,
+} from './historyIndex';
+import { MessagePart, ToolPart, getConversationParts } from './parts';
+
+/**
+ * Who produced the searched text: `user` and `assistant` match text parts
+ * (and assistant reasoning), `tool` matches tool call inputs and outputs.
+ */
+export type SearchRole = 'user' | 'assistant' | 'tool';
+
+export const SEARCH_ROLES: SearchRole[] = ['user', 'assistant', 'tool'];
+
+export interface SearchOptions extends SessionScope {
+  /** Treat the query as a regular expression instead of a substring. */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** Only match these roles; all roles when omitted or empty. */
+  roles?: SearchRole[];
+  /** Only search sessions of this project. */
+  projectId?: string;
+  /** Only match messages created at or after this time (ms since epoch). */
+  since?: number;
+  /** Only match messages created at or before this time (ms since epoch). */
+  until?: number;
+  /** Maximum number of hits to return (default: 50). */
+  limit?: number;
+  /** Characters of context on each side of a match (default: 40). */
+  contextChars?: number;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  sessionTitle: string;
+  projectId: string | null;
+  messageId: string;
+  role: SearchRole;
+  partId: string;
+  partType: MessagePart['type'];
+  /** Tool name for `tool` hits. */
+  tool: string | null;
+  timestamp: string;
+  /** The match with surrounding context, whitespace collapsed. */
+  snippet: string;
+  /** Offsets of the match within `snippet`. */
+  matchStart: number;
+  matchEnd: number;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the pattern for a query. Throws a `SyntaxError` for an invalid
+ * regular expression.
+ */
+export function createSearchPattern(
+  query: string,
+  options: Pick<SearchOptions, 'regex' | 'caseSensitive'> = {},
+): RegExp {
+  return new RegExp(
+    options.regex ? query : escapeRegExp(query),
+    options.caseSensitive ? '' : 'i',
+  );
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ');
+}
+
+function toolText(part: ToolPart): string {
+  return [
+    part.title ?? '',
+    JSON.stringify(part.input),
+    part.output ?? '',
+    part.error ?? '',
+  ].join('\n');
+}
+
+function makeSnippet(
+  text: string,
+  match: RegExpExecArray,
+  contextChars: number,
+): Pick<SearchHit, 'snippet' | 'matchStart' | 'matchEnd'> {
+  const start = match.index;
+  const end = start + match[0].length;
+  const from = Math.max(0, start - contextChars);
+  const to = Math.min(text.length, end + contextChars);
+
+  const before =
+    (from > 0 ? '…' : '') +
+    collapseWhitespace(text.slice(from, start)).trimStart();
+  const matched = collapseWhitespace(match[0]);
+  const after =
+    collapseWhitespace(text.slice(end, to)).trimEnd() +
+    (to < text.length ? '…' : '');
+
+  return {
+    snippet: `${before}${matched}${after}`,
+    matchStart: before.length,
+    matchEnd: before.length + matched.length,
+  };
+}
+
+/**
+ * Search the text, reasoning and tool parts of every session for a query.
+ *
+ * Sessions are scanned most recently active first, in the same order as
+ * `getRecentSessions`, and messages within a session in creation order. Each
+ * matching part yields one hit, positioned at its first match.
+ *
+ * @param query - Substring (or regular expression with `regex`) to find
+ * @param options - Matching and filtering options
+ * @param store - History store to read from
+ * @returns Up to `limit` hits
+ * @throws SyntaxError if `regex` is set and the query is not a valid pattern
+ */
+export function searchHistory(
+  query: string,
+  options: SearchOptions = {},
+  store: HistoryStore = getDefaultHistoryStore(),
+): SearchHit[] {
+  if (!query) {
+    return [];
+  }
+
+  const pattern = createSearchPattern(query, options);
+  const roles = new Set<SearchRole>(
+    options.roles && options.roles.length > 0 ? options.roles : SEARCH_ROLES,
+  );
+  const limit = options.limit ?? 50;
+  const contextChars = options.contextChars ?? 40;
+
+  const index = getHistoryIndex(store);
+  const sessions = getIndexedSessionsByActivity(index)
+    .map(({ session }) => session)
+    .filter(
+      (session) =>
+        (!options.projectId || session.projectId === options.projectId) &&
+        isSessionInScope(session, options),
+    );
+
+  const hits: SearchHit[] = [];
+
+  for (const session of sessions) {
+    for (const msgId of session.messageIds) {
+      const message = index.messages[msgId];
+      if (!message) {
+        continue;
+      }
+      if (options.since !== undefined || options.until !== undefined) {
+        if (message.created === null) {
+          continue;
+        }
+        if (options.since !== undefined && message.created < options.since) {
+          continue;
+        }
+        if (options.until !== undefined && message.created > options.until) {
+          continue;
+        }
+      }
+
+      for (const part of getConversationParts(msgId, store)) {
+        let role: SearchRole;
+        let text: string;
+        if (part.type === 'tool') {
+          role = 'tool';
+          text = toolText(part);
+        } else {
+          role = message.role === 'user' ? 'user' : 'assistant';
+          text = part.text;
+        }
+        if (!roles.has(role)) {
+          continue;
+        }
+
+        const match = pattern.exec(text);
+        if (!match) {
+          continue;
+        }
+
+        hits.push({
+          sessionId: session.id,
+          sessionTitle: session.title,
+          projectId: session.projectId,
+          messageId: msgId,
+          role,
+          partId: part.id,
+          partType: part.type,
+          tool: part.type === 'tool' ? part.tool : null,
+          timestamp: formatTimestamp(message.created),
+          ...makeSnippet(text, match, contextChars),
+        });
+        if (hits.length >= limit) {
+          return hits;
+        }
+      }
+    }
+  }
+
+  return hits;
+}
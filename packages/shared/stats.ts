@@ -0,0 +1,391 @@
+import * as path from 'node:path';
+
+import { HistoryStore, getDefaultHistoryStore, getSnapshotDir } from './store';
+import { formatDate, runGit, safeReadJson } from './utils';
+import {
+  HistoryIndex,
+  IndexedSession,
+  SessionScope,
+  getHistoryIndex,
+  getIndexedAfterSnapshot,
+  getIndexedSession,
+  getIndexedSessionFamily,
+  isSessionInScope,
+} from './historyIndex';
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  reasoning: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Counts shared by a session's stats and a rollup of several sessions. */
+export interface UsageTotals {
+  messages: number;
+  assistantTurns: number;
+  /** Lines added by the messages' own changes, summed over messages. */
+  insertions: number;
+  /** Lines removed by the messages' own changes, summed over messages. */
+  deletions: number;
+  tokens: TokenUsage;
+  /** Cost in USD as recorded by OpenCode. */
+  cost: number;
+  /** Time from the first message to the last reply, in ms. */
+  durationMs: number;
+  /** Models used, as `provider/model`. */
+  models: string[];
+}
+
+export interface SessionStats extends UsageTotals {
+  sessionId: string;
+  title: string;
+  projectId: string | null;
+  /** When the first message was created, in ms since epoch. */
+  start: number | null;
+  /** When the last message was completed (or created), in ms since epoch. */
+  end: number | null;
+  /** Project-relative paths changed in the session. */
+  filesTouched: string[];
+  /** Messages with changes whose snapshots are gone, so lines are missing. */
+  missingDiffs: number;
+}
+
+/** Stats of a session summed with those of the sessions it spawned. */
+export interface TaskStats extends SessionStats {
+  /** The session and its descendants, parents before children. */
+  sessionIds: string[];
+}
+
+export interface StatsRollup extends UsageTotals {
+  projectId: string | null;
+  /** Monday starting the week (local time), as YYYY-MM-DD. */
+  week: string;
+  sessions: number;
+  /** Distinct files changed over the week's sessions. */
+  filesTouched: number;
+}
+
+export interface StatsOptions extends SessionScope {
+  /** Only sessions of this project. */
+  projectId?: string;
+  /** Only sessions started at or after this time (ms since epoch). */
+  since?: number;
+  /** Only sessions started at or before this time (ms since epoch). */
+  until?: number;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    messages: 0,
+    assistantTurns: 0,
+    insertions: 0,
+    deletions: 0,
+    tokens: { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0 },
+    cost: 0,
+    durationMs: 0,
+    models: [],
+  };
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object'
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.messages += source.messages;
+  target.assistantTurns += source.assistantTurns;
+  target.insertions += source.insertions;
+  target.deletions += source.deletions;
+  for (const key of Object.keys(target.tokens) as (keyof TokenUsage)[]) {
+    target.tokens[key] += source.tokens[key];
+  }
+  target.cost += source.cost;
+  target.durationMs += source.durationMs;
+  target.models = [...new Set([...target.models, ...source.models])];
+}
+
+/**
+ * Count the lines added and removed between two snapshots, or null if git
+ * cannot diff them. Binary files count as no lines.
+ */
+function countChangedLines(
+  snapshotDir: string,
+  before: string,
+  after: string,
+): { insertions: number; deletions: number } | null {
+  const result = runGit([
+    '--git-dir',
+    snapshotDir,
+    'diff',
+    '--numstat',
+    before,
+    after,
+  ]);
+  if (result.status !== 0) {
+    return null;
+  }
+
+  let insertions = 0;
+  let deletions = 0;
+  for (const line of result.stdout.split('\n')) {
+    const [added, removed] = line.split('\t');
+    insertions += Number(added) || 0;
+    deletions += Number(removed) || 0;
+  }
+  return { insertions, deletions };
+}
+
+function computeSessionStats(
+  session: IndexedSession,
+  index: HistoryIndex,
+  store: HistoryStore,
+): SessionStats {
+  const stats: SessionStats = {
+    sessionId: session.id,
+    title: session.title,
+    projectId: session.projectId,
+    start: null,
+    end: null,
+    filesTouched: [],
+    missingDiffs: 0,
+    ...emptyTotals(),
+  };
+  const snapshotDir = session.projectId
+    ? getSnapshotDir(session.projectId, store)
+    : null;
+  const files = new Set<string>();
+  const models = new Set<string>();
+
+  for (const msgId of session.messageIds) {
+    stats.messages += 1;
+    const message = index.messages[msgId];
+    const data = safeReadJson(
+      path.join(store.messageRoot, session.id, `${msgId}.json`),
+    );
+
+    const time = toRecord(data?.time);
+    const created = toNumber(time.created) || null;
+    const finished = toNumber(time.completed) || created;
+    if (created !== null && (stats.start === null || created < stats.start)) {
+      stats.start = created;
+    }
+    if (finished !== null && (stats.end === null || finished > stats.end)) {
+      stats.end = finished;
+    }
+
+    if (data?.role === 'assistant') {
+      stats.assistantTurns += 1;
+      const tokens = toRecord(data.tokens);
+      const cache = toRecord(tokens.cache);
+      stats.tokens.input += toNumber(tokens.input);
+      stats.tokens.output += toNumber(tokens.output);
+      stats.tokens.reasoning += toNumber(tokens.reasoning);
+      stats.tokens.cacheRead += toNumber(cache.read);
+      stats.tokens.cacheWrite += toNumber(cache.write);
+      stats.cost += toNumber(data.cost);
+      if (typeof data.modelID === 'string') {
+        models.add(
+          typeof data.providerID === 'string'
+            ? `${data.providerID}/${data.modelID}`
+            : data.modelID,
+        );
+      }
+    }
+
+    if (!message?.patchHash) {
+      continue;
+    }
+    message.files?.forEach((file) => files.add(file));
+    const after = getIndexedAfterSnapshot(index, message);
+    const lines =
+      snapshotDir && after
+        ? countChangedLines(snapshotDir, message.patchHash, after)
+        : null;
+    if (lines) {
+      stats.insertions += lines.insertions;
+      stats.deletions += lines.deletions;
+    } else {
+      stats.missingDiffs += 1;
+    }
+  }
+
+  stats.filesTouched = [...files].sort();
+  stats.models = [...models].sort();
+  if (stats.start !== null && stats.end !== null) {
+    stats.durationMs = stats.end - stats.start;
+  }
+  return stats;
+}
+
+/**
+ * Aggregate a session's messages: turns, token usage and cost from the
+ * assistant message metadata, and lines changed from each message's own
+ * snapshot diff.
+ *
+ * @param sessionId - The session to summarize
+ * @param store - History store to read from
+ * @returns The stats, or null if the session is unknown
+ */
+export function getSessionStats(
+  sessionId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): SessionStats | null {
+  const session = getIndexedSession(sessionId, store);
+  if (!session) {
+    return null;
+  }
+  return computeSessionStats(session, getHistoryIndex(store), store);
+}
+
+/**
+ * Aggregate a whole task: the session plus every session it spawned
+ * (subagents, tasks), recursively. Durations run from the first message of
+ * any of them to the last reply.
+ *
+ * @param sessionId - The task's top session
+ * @param store - History store to read from
+ * @returns The stats, or null if the session is unknown
+ */
+export function getTaskStats(
+  sessionId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): TaskStats | null {
+  if (!getIndexedSession(sessionId, store)) {
+    return null;
+  }
+  const index = getHistoryIndex(store);
+  const sessions = getIndexedSessionFamily(index, sessionId).map((session) =>
+    computeSessionStats(session, index, store),
+  );
+
+  const [root] = sessions;
+  const task: TaskStats = {
+    ...root,
+    ...emptyTotals(),
+    sessionIds: sessions.map((stats) => stats.sessionId),
+    missingDiffs: 0,
+  };
+  const files = new Set<string>();
+  for (const stats of sessions) {
+    addTotals(task, stats);
+    task.missingDiffs += stats.missingDiffs;
+    stats.filesTouched.forEach((file) => files.add(file));
+    if (
+      stats.start !== null &&
+      (task.start === null || stats.start < task.start)
+    ) {
+      task.start = stats.start;
+    }
+    if (stats.end !== null && (task.end === null || stats.end > task.end)) {
+      task.end = stats.end;
+    }
+  }
+  task.filesTouched = [...files].sort();
+  task.models.sort();
+  task.durationMs =
+    task.start !== null && task.end !== null ? task.end - task.start : 0;
+  return task;
+}
+
+/** When a session's first message was created, from the index. */
+function getIndexedStart(
+  session: IndexedSession,
+  index: HistoryIndex,
+): number | null {
+  let start: number | null = null;
+  for (const msgId of session.messageIds) {
+    const created = index.messages[msgId]?.created;
+    if (created && (start === null || created < start)) {
+      start = created;
+    }
+  }
+  return start;
+}
+
+/**
+ * Get the stats of every session matching the options, most recently started
+ * first. Sessions are filtered on when their first message was created, using
+ * the index so only the sessions kept are diffed.
+ */
+export function listSessionStats(
+  options: StatsOptions = {},
+  store: HistoryStore = getDefaultHistoryStore(),
+): SessionStats[] {
+  const index = getHistoryIndex(store);
+  return Object.values(index.sessions)
+    .filter((session) => {
+      if (
+        session.messageIds.length === 0 ||
+        (options.projectId && session.projectId !== options.projectId) ||
+        !isSessionInScope(session, options)
+      ) {
+        return false;
+      }
+      if (options.since === undefined && options.until === undefined) {
+        return true;
+      }
+      const start = getIndexedStart(session, index);
+      return (
+        start !== null &&
+        (options.since === undefined || start >= options.since) &&
+        (options.until === undefined || start <= options.until)
+      );
+    })
+    .map((session) => computeSessionStats(session, index, store))
+    .sort((a, b) => (b.start ?? 0) - (a.start ?? 0));
+}
+
+function getWeekStart(timestamp: number): string {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return formatDate(date).slice(0, 10);
+}
+
+/**
+ * Sum session stats per project and week (by session start), most recent
+ * week first.
+ */
+export function rollupSessionStats(sessions: SessionStats[]): StatsRollup[] {
+  const groups = new Map<string, { rollup: StatsRollup; files: Set<string> }>();
+
+  for (const stats of sessions) {
+    if (stats.start === null) {
+      continue;
+    }
+    const week = getWeekStart(stats.start);
+    const key = `${stats.projectId ?? ''}\0${week}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        rollup: {
+          projectId: stats.projectId,
+          week,
+          sessions: 0,
+          filesTouched: 0,
+          ...emptyTotals(),
+        },
+        files: new Set(),
+      };
+      groups.set(key, group);
+    }
+    group.rollup.sessions += 1;
+    addTotals(group.rollup, stats);
+    stats.filesTouched.forEach((file) => group.files.add(file));
+  }
+
+  return [...groups.values()]
+    .map(({ rollup, files }) => ({ ...rollup, filesTouched: files.size }))
+    .sort(
+      (a, b) =>
+        b.week.localeCompare(a.week) ||
+        (a.projectId ?? '').localeCompare(b.projectId ?? ''),
+    );
+}
@@ -0,0 +1,148 @@
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+export interface HistoryStoreOptions {
+  /** OpenCode data directory containing `storage/` and `snapshot/`. */
+  dataDir?: string;
+  /** Overrides `<dataDir>/storage`. */
+  storageRoot?: string;
+  /** Overrides `<dataDir>/snapshot`. */
+  snapshotRoot?: string;
+  /** Where the history index is persisted; `null` keeps it in memory only. */
+  cacheDir?: string | null;
+  /** Where revert backups and the revert log are kept. */
+  stateDir?: string;
+  /** Environment to resolve defaults from (default: `process.env`). */
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface HistoryStore {
+  dataDir: string;
+  storageRoot: string;
+  messageRoot: string;
+  partRoot: string;
+  sessionRoot: string;
+  snapshotRoot: string;
+  cacheDir: string | null;
+  stateDir: string;
+}
+
+/**
+ * Resolve the OpenCode data directory.
+ *
+ * Precedence: `OC_HIST_DATA_DIR`, then `$XDG_DATA_HOME/opencode`, then
+ * `~/.local/share/opencode`.
+ */
+export function resolveDataDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.OC_HIST_DATA_DIR) {
+    return path.resolve(env.OC_HIST_DATA_DIR);
+  }
+  if (env.XDG_DATA_HOME && path.isAbsolute(env.XDG_DATA_HOME)) {
+    return path.join(env.XDG_DATA_HOME, 'opencode');
+  }
+  return path.join(os.homedir(), '.local/share/opencode');
+}
+
+/**
+ * Resolve the directory for oc-hist's own cache files.
+ *
+ * Precedence: `OC_HIST_CACHE_DIR`, then `$XDG_CACHE_HOME/oc-hist`, then
+ * `~/.cache/oc-hist`.
+ */
+export function resolveCacheDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.OC_HIST_CACHE_DIR) {
+    return path.resolve(env.OC_HIST_CACHE_DIR);
+  }
+  if (env.XDG_CACHE_HOME && path.isAbsolute(env.XDG_CACHE_HOME)) {
+    return path.join(env.XDG_CACHE_HOME, 'oc-hist');
+  }
+  return path.join(os.homedir(), '.cache/oc-hist');
+}
+
+/**
+ * Resolve the directory for oc-hist state that must survive cache clears,
+ * such as revert backups.
+ *
+ * Precedence: `OC_HIST_STATE_DIR`, then `$XDG_STATE_HOME/oc-hist`, then
+ * `~/.local/state/oc-hist`.
+ */
+export function resolveStateDir(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.OC_HIST_STATE_DIR) {
+    return path.resolve(env.OC_HIST_STATE_DIR);
+  }
+  if (env.XDG_STATE_HOME && path.isAbsolute(env.XDG_STATE_HOME)) {
+    return path.join(env.XDG_STATE_HOME, 'oc-hist');
+  }
+  return path.join(os.homedir(), '.local/state/oc-hist');
+}
+
+/**
+ * Create a store describing where OpenCode history lives on disk.
+ *
+ * Explicit options win over the environment: `storageRoot` and
+ * `snapshotRoot` first, then the roots under an explicit `dataDir`. Only
+ * without those do the `OC_HIST_STORAGE_DIR` and `OC_HIST_SNAPSHOT_DIR`
+ * overrides apply, before the roots under the resolved data directory.
+ */
+export function createHistoryStore(
+  options: HistoryStoreOptions = {},
+): HistoryStore {
+  const env = options.env ?? process.env;
+  const dataDir = options.dataDir
+    ? path.resolve(options.dataDir)
+    : resolveDataDir(env);
+
+  // An explicit data directory is a complete location of its own
+  const envStorageRoot = options.dataDir ? undefined : env.OC_HIST_STORAGE_DIR;
+  const envSnapshotRoot = options.dataDir
+    ? undefined
+    : env.OC_HIST_SNAPSHOT_DIR;
+  const storageRoot = path.resolve(
+    options.storageRoot || envStorageRoot || path.join(dataDir, 'storage'),
+  );
+  const snapshotRoot = path.resolve(
+    options.snapshotRoot || envSnapshotRoot || path.join(dataDir, 'snapshot'),
+  );
+
+  return {
+    dataDir,
+    storageRoot,
+    messageRoot: path.join(storageRoot, 'message'),
+    partRoot: path.join(storageRoot, 'part'),
+    sessionRoot: path.join(storageRoot, 'session'),
+    snapshotRoot,
+    cacheDir:
+      options.cacheDir === null
+        ? null
+        : path.resolve(options.cacheDir || resolveCacheDir(env)),
+    stateDir: path.resolve(options.stateDir || resolveStateDir(env)),
+  };
+}
+
+let defaultStore: HistoryStore | null = null;
+
+/**
+ * The store used when a function is called without one. Created from the
+ * environment on first use.
+ */
+export function getDefaultHistoryStore(): HistoryStore {
+  if (!defaultStore) {
+    defaultStore = createHistoryStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Replace the default store. Passing `null` resets it so the next call to
+ * `getDefaultHistoryStore` re-reads the environment.
+ */
+export function setDefaultHistoryStore(store: HistoryStore | null): void {
+  defaultStore = store;
+}
+
+export function getSnapshotDir(
+  projectId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): string {
+  return path.join(store.snapshotRoot, projectId);
+}
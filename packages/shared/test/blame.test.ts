@@ -0,0 +1,202 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { carryAttributions, matchLines, splitLines } from '../blame';
+import { blameFile } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+/** Length of the longest common subsequence, by dynamic programming. */
+function lcsLength(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (const line of a) {
+    const current = [0];
+    for (let j = 0; j < b.length; j++) {
+      current.push(
+        line === b[j] ? previous[j] + 1 : Math.max(previous[j + 1], current[j]),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Fail unless `matches` pairs equal lines in increasing order. */
+function expectValidMatching(
+  a: string[],
+  b: string[],
+  matches: (number | null)[],
+): void {
+  expect(matches).toHaveLength(b.length);
+  let last = -1;
+  matches.forEach((index, j) => {
+    if (index !== null) {
+      expect(index).toBeGreaterThan(last);
+      expect(a[index]).toBe(b[j]);
+      last = index;
+    }
+  });
+}
+
+/** Small deterministic generator so failures can be replayed. */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+describe('splitLines', () => {
+  it('drops only the empty line after a final newline', () => {
+    expect(splitLines('')).toEqual([]);
+    expect(splitLines('a\nb\n')).toEqual(['a', 'b']);
+    expect(splitLines('a\r\nb')).toEqual(['a', 'b']);
+    expect(splitLines('a\n\n')).toEqual(['a', '']);
+  });
+});
+
+describe('matchLines', () => {
+  it('matches identical files line for line', () => {
+    const lines = ['a', 'b', 'c'];
+    expect(matchLines(lines, lines)).toEqual([0, 1, 2]);
+  });
+
+  it('leaves inserted lines unmatched', () => {
+    expect(matchLines(['a', 'c'], ['x', 'a', 'b', 'c', 'y'])).toEqual([
+      null,
+      0,
+      null,
+      1,
+      null,
+    ]);
+  });
+
+  it('skips deleted lines', () => {
+    expect(matchLines(['a', 'b', 'c', 'd'], ['a', 'd'])).toEqual([0, 3]);
+  });
+
+  it('handles empty and fully rewritten files', () => {
+    expect(matchLines([], ['a'])).toEqual([null]);
+    expect(matchLines(['a'], [])).toEqual([]);
+    expect(matchLines(['a', 'b'], ['c', 'd'])).toEqual([null, null]);
+  });
+
+  it('finds a longest common subsequence', () => {
+    const random = createRandom(42);
+    const randomLines = () =>
+      Array.from({ length: Math.floor(random() * 30) }, () =>
+        'abcd'.charAt(Math.floor(random() * 4)),
+      );
+
+    for (let i = 0; i < 500; i++) {
+      const a = randomLines();
+      const b = randomLines();
+      const matches = matchLines(a, b);
+      expectValidMatching(a, b, matches);
+      expect(matches.filter((index) => index !== null)).toHaveLength(
+        lcsLength(a, b),
+      );
+    }
+  });
+
+  it('matches large, heavily rewritten files', () => {
+    const a = Array.from({ length: 5000 }, (_, i) => `line ${i % 2}`);
+    const b = Array.from({ length: 5000 }, (_, i) => `line ${i % 3}`);
+    const matches = matchLines(a, b);
+    expectValidMatching(a, b, matches);
+  });
+});
+
+describe('carryAttributions', () => {
+  it('keeps attributions of kept lines and marks inserted ones', () => {
+    expect(
+      carryAttributions(
+        ['a', 'b', 'c'],
+        ['m1', 'm2', 'm3'],
+        ['a', 'new', 'c'],
+        'm4',
+      ),
+    ).toEqual(['m1', 'm4', 'm3']);
+  });
+});
+
+describe('blameFile', () => {
+  let fixture: HistoryFixture;
+
+  const recordMessage = (id: string, created: number, content: string) => {
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', content);
+    const after = fixture.snapshot();
+    fixture.writeStorage(`message/ses_1/${id}.json`, {
+      id,
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created },
+    });
+    fixture.writeStorage(`part/${id}/prt_${id}_1.json`, {
+      id: `prt_${id}_1`,
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, 'a.txt')],
+    });
+    fixture.writeStorage(`part/${id}/prt_${id}_2.json`, {
+      id: `prt_${id}_2`,
+      type: 'step-finish',
+      snapshot: after,
+    });
+  };
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  it('attributes lines to the message that introduced them', () => {
+    fixture.writeFile('a.txt', 'old\n');
+    recordMessage('msg_1', 1000, 'old\nfirst\n');
+    // A human edit between the messages
+    fixture.writeFile('a.txt', 'old\nfirst\nmine\n');
+    recordMessage('msg_2', 2000, 'old\nfirst\nmine\nsecond\n');
+    fixture.writeFile('a.txt', 'old\nfirst\nmine\nsecond\nlater\n');
+
+    const blame = blameFile(
+      path.join(fixture.projectDir, 'a.txt'),
+      fixture.store,
+    );
+    expect(blame).toMatchObject({
+      projectId: fixture.projectId,
+      projectDir: fixture.projectDir,
+      filePath: 'a.txt',
+    });
+    expect(
+      blame?.lines.map((line) => [line.line, line.content, line.messageId]),
+    ).toEqual([
+      [1, 'old', null],
+      [2, 'first', 'msg_1'],
+      [3, 'mine', null],
+      [4, 'second', 'msg_2'],
+      [5, 'later', null],
+    ]);
+    expect(blame?.lines[1]).toMatchObject({
+      sessionId: 'ses_1',
+      sessionTitle: 'Session one',
+    });
+  });
+
+  it('is null for a file outside every known project', () => {
+    expect(
+      blameFile(path.join(fixture.root, 'elsewhere.txt'), fixture.store),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseUnifiedDiff } from '../diff';
+
+describe('parseUnifiedDiff', () => {
+  it('parses a modified file with its hunks', () => {
+    const files = parseUnifiedDiff(
+      [
+        'diff --git a/src/app.ts b/src/app.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,3 +1,3 @@ export function main() {',
+        ' const a = 1;',
+        '-const b = 2;',
+        '+const b = 3;',
+        ' const c = 4;',
+        '@@ -10 +10,2 @@',
+        ' end',
+        '+tail',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n'),
+    );
+
+    expect(files).toHaveLength(1);
+    const [file] = files;
+    expect(file).toMatchObject({
+      oldPath: 'src/app.ts',
+      newPath: 'src/app.ts',
+      status: 'modified',
+      binary: false,
+      additions: 2,
+      deletions: 1,
+    });
+    expect(file.hunks).toHaveLength(2);
+    expect(file.hunks[0]).toMatchObject({
+      oldStart: 1,
+      oldLines: 3,
+      newStart: 1,
+      newLines: 3,
+    });
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'context', content: 'const a = 1;' },
+      { type: 'delete', content: 'const b = 2;' },
+      { type: 'add', content: 'const b = 3;' },
+      { type: 'context', content: 'const c = 4;' },
+    ]);
+    expect(file.hunks[1]).toMatchObject({
+      oldStart: 10,
+      oldLines: 1,
+      newStart: 10,
+      newLines: 2,
+    });
+    expect(file.hunks[1].lines).toHaveLength(2);
+  });
+
+  it('parses added, deleted and renamed files', () => {
+    const files = parseUnifiedDiff(
+      [
+        'diff --git a/new.txt b/new.txt',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1 @@',
+        '+hello',
+        'diff --git a/old.txt b/old.txt',
+        'deleted file mode 100644',
+        '--- a/old.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-bye',
+        'diff --git a/before.txt b/after.txt',
+        'similarity index 100%',
+        'rename from before.txt',
+        'rename to after.txt',
+      ].join('\n'),
+    );
+
+    expect(
+      files.map(({ oldPath, newPath, status, additions, deletions }) => ({
+        oldPath,
+        newPath,
+        status,
+        additions,
+        deletions,
+      })),
+    ).toEqual([
+      {
+        oldPath: null,
+        newPath: 'new.txt',
+        status: 'added',
+        additions: 1,
+        deletions: 0,
+      },
+      {
+        oldPath: 'old.txt',
+        newPath: null,
+        status: 'deleted',
+        additions: 0,
+        deletions: 1,
+      },
+      {
+        oldPath: 'before.txt',
+        newPath: 'after.txt',
+        status: 'renamed',
+        additions: 0,
+        deletions: 0,
+      },
+    ]);
+  });
+
+  it('flags binary files and unquotes escaped paths', () => {
+    const files = parseUnifiedDiff(
+      [
+        'diff --git a/logo.png b/logo.png',
+        'index 1111111..2222222 100644',
+        'Binary files a/logo.png and b/logo.png differ',
+        'diff --git "a/with space\\tand tab.txt" "b/with space\\tand tab.txt"',
+        '--- "a/with space\\tand tab.txt"',
+        '+++ "b/with space\\tand tab.txt"',
+        '@@ -1 +1 @@',
+        '-x',
+        '+y',
+      ].join('\n'),
+    );
+
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatchObject({
+      newPath: 'logo.png',
+      binary: true,
+      hunks: [],
+    });
+    expect(files[1]).toMatchObject({
+      oldPath: 'with space\tand tab.txt',
+      newPath: 'with space\tand tab.txt',
+      additions: 1,
+      deletions: 1,
+    });
+  });
+
+  it('returns no files for empty input', () => {
+    expect(parseUnifiedDiff('')).toEqual([]);
+  });
+});
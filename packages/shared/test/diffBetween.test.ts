@@ -0,0 +1,143 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { diffBetween } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+const START = Date.UTC(2024, 0, 1);
+
+describe('diffBetween', () => {
+  let fixture: HistoryFixture;
+  const snapshots: string[] = [];
+
+  const writeSession = (id: string, projectId = fixture.projectId) => {
+    fixture.writeStorage(`session/${projectId}/${id}.json`, {
+      id,
+      projectID: projectId,
+      directory: fixture.projectDir,
+      title: id,
+    });
+  };
+
+  const writeMessage = (
+    sessionId: string,
+    msgId: string,
+    created: number,
+    change?: { file: string; before: string; after: string },
+  ) => {
+    fixture.writeStorage(`message/${sessionId}/${msgId}.json`, {
+      id: msgId,
+      sessionID: sessionId,
+      role: change ? 'assistant' : 'user',
+      time: { created },
+    });
+    if (change) {
+      fixture.writeStorage(`part/${msgId}/prt_${msgId}_1.json`, {
+        id: `prt_${msgId}_1`,
+        type: 'patch',
+        hash: change.before,
+        files: [path.join(fixture.projectDir, change.file)],
+      });
+      fixture.writeStorage(`part/${msgId}/prt_${msgId}_2.json`, {
+        id: `prt_${msgId}_2`,
+        type: 'step-finish',
+        snapshot: change.after,
+      });
+    }
+  };
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    snapshots.length = 0;
+    for (const [file, content] of [
+      ['a.txt', 'one\n'],
+      ['a.txt', 'two\n'],
+      ['b.txt', 'new\n'],
+      ['a.txt', 'three\n'],
+    ]) {
+      fixture.writeFile(file, content);
+      snapshots.push(fixture.snapshot());
+    }
+    const [s0, s1, s2, s3] = snapshots;
+
+    writeSession('ses_1');
+    writeMessage('ses_1', 'msg_1', START);
+    writeMessage('ses_1', 'msg_2', START + 1000, {
+      file: 'a.txt',
+      before: s0,
+      after: s1,
+    });
+    writeMessage('ses_1', 'msg_3', START + 2000, {
+      file: 'b.txt',
+      before: s1,
+      after: s2,
+    });
+    writeSession('ses_2');
+    writeMessage('ses_2', 'msg_4', START + 3000, {
+      file: 'a.txt',
+      before: s2,
+      after: s3,
+    });
+    writeSession('ses_3', 'proj2');
+    writeMessage('ses_3', 'msg_5', START + 4000);
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  it("diffs a single message's change", () => {
+    const range = diffBetween('msg_2', 'msg_2', [], fixture.store);
+    expect(range).toMatchObject({
+      projectId: fixture.projectId,
+      fromMessageId: 'msg_2',
+      toMessageId: 'msg_2',
+      before: snapshots[0],
+      after: snapshots[1],
+    });
+    expect(range?.diff).toContain('-one\n+two');
+    expect(range?.diff).not.toContain('b.txt');
+  });
+
+  it('diffs across sessions of the same project', () => {
+    const range = diffBetween('msg_2', 'msg_4', [], fixture.store);
+    expect(range).toMatchObject({
+      before: snapshots[0],
+      after: snapshots[3],
+    });
+    expect(range?.diff).toContain('-one\n+three');
+    expect(range?.diff).toContain('+new');
+  });
+
+  it('swaps messages given in reverse order', () => {
+    const range = diffBetween('msg_4', 'msg_2', [], fixture.store);
+    expect(range).toMatchObject({
+      fromMessageId: 'msg_2',
+      toMessageId: 'msg_4',
+      before: snapshots[0],
+      after: snapshots[3],
+    });
+  });
+
+  it('starts a message without changes at the next snapshot', () => {
+    const range = diffBetween('msg_1', 'msg_2', [], fixture.store);
+    expect(range?.before).toBe(snapshots[0]);
+    expect(range?.after).toBe(snapshots[1]);
+  });
+
+  it('limits the diff to the given paths', () => {
+    const range = diffBetween('msg_2', 'msg_4', ['b.txt'], fixture.store);
+    expect(range?.diff).toContain('b/b.txt');
+    expect(range?.diff).not.toContain('a.txt');
+  });
+
+  it('returns null across projects, for unknown messages or invalid paths', () => {
+    expect(diffBetween('msg_2', 'msg_5', [], fixture.store)).toBeNull();
+    expect(diffBetween('msg_2', 'msg_9', [], fixture.store)).toBeNull();
+    expect(
+      diffBetween('msg_2', 'msg_4', ['../a.txt'], fixture.store),
+    ).toBeNull();
+  });
+});
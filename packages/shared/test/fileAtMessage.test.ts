@@ -0,0 +1,137 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { SnapshotReadError } from '../errors';
+import { getFileAtMessage, getRestoreDiff } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+describe('getFileAtMessage', () => {
+  let fixture: HistoryFixture;
+  let before: string;
+  let after: string;
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+
+    // msg_1 asks, msg_2 edits a.txt and creates b.txt
+    fixture.writeFile('a.txt', 'one\n');
+    before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\n');
+    fixture.writeFile('b.txt', 'new\n');
+    after = fixture.snapshot();
+    for (const [id, role, created] of [
+      ['msg_1', 'user', 1000],
+      ['msg_2', 'assistant', 2000],
+    ] as const) {
+      fixture.writeStorage(`message/ses_1/${id}.json`, {
+        id,
+        sessionID: 'ses_1',
+        role,
+        time: { created },
+      });
+    }
+    fixture.writeStorage('part/msg_2/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: ['a.txt', 'b.txt'].map((file) =>
+        path.join(fixture.projectDir, file),
+      ),
+    });
+    fixture.writeStorage('part/msg_2/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  const read = (
+    messageId: string,
+    filePath: string,
+    at?: 'before' | 'after',
+  ) => {
+    const file = getFileAtMessage(messageId, filePath, at, fixture.store);
+    return file && (file.content?.toString('utf8') ?? null);
+  };
+
+  it("reads either side of a message's change", () => {
+    const file = getFileAtMessage('msg_2', 'a.txt', 'after', fixture.store);
+    expect(file).toMatchObject({
+      messageId: 'msg_2',
+      projectId: fixture.projectId,
+      projectDir: fixture.projectDir,
+      snapshot: after,
+      filePath: 'a.txt',
+    });
+    expect(file?.content?.toString('utf8')).toBe('two\n');
+    expect(read('msg_2', 'a.txt', 'before')).toBe('one\n');
+  });
+
+  it('has no content for a file missing at that point', () => {
+    expect(read('msg_2', 'b.txt', 'before')).toBeNull();
+    expect(read('msg_2', 'b.txt')).toBe('new\n');
+  });
+
+  it('resolves a message that changed nothing to the next snapshot', () => {
+    // msg_2's patch snapshot is the first one recorded after msg_1
+    expect(
+      getFileAtMessage('msg_1', 'a.txt', 'after', fixture.store)?.snapshot,
+    ).toBe(before);
+    expect(read('msg_1', 'a.txt')).toBe('one\n');
+  });
+
+  it('is null for an unknown message or an unsafe path', () => {
+    expect(getFileAtMessage('msg_9', 'a.txt', 'after', fixture.store)).toBe(
+      null,
+    );
+    expect(
+      getFileAtMessage('msg_2', '../a.txt', 'after', fixture.store),
+    ).toBeNull();
+  });
+
+  it('throws a SnapshotReadError for a missing blob', () => {
+    const snapshotDir = path.join(
+      fixture.root,
+      'data',
+      'snapshot',
+      fixture.projectId,
+    );
+    const blob = execFileSync(
+      'git',
+      ['--git-dir', snapshotDir, 'rev-parse', `${after}:a.txt`],
+      { encoding: 'utf8' },
+    ).trim();
+    fs.rmSync(
+      path.join(snapshotDir, 'objects', blob.slice(0, 2), blob.slice(2)),
+    );
+
+    expect(() =>
+      getFileAtMessage('msg_2', 'a.txt', 'after', fixture.store),
+    ).toThrow(SnapshotReadError);
+  });
+
+  it('diffs the work tree against the file to restore', () => {
+    fixture.writeFile('a.txt', 'three\n');
+    const file = getFileAtMessage('msg_2', 'a.txt', 'before', fixture.store);
+    const diff = getRestoreDiff(file!);
+    expect(diff).toContain('-three');
+    expect(diff).toContain('+one');
+
+    fixture.writeFile('a.txt', 'one\n');
+    expect(getRestoreDiff(file!)).toBe('');
+  });
+});
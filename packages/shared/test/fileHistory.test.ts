@@ -0,0 +1,122 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { getFileHistory } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+describe('getFileHistory', () => {
+  let fixture: HistoryFixture;
+
+  const writeMessage = (id: string, created: number) =>
+    fixture.writeStorage(`message/ses_1/${id}.json`, {
+      id,
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created },
+    });
+
+  const writePatch = (msgId: string, hash: string, files?: string[]) =>
+    fixture.writeStorage(`part/${msgId}/prt_${msgId}.json`, {
+      id: `prt_${msgId}`,
+      type: 'patch',
+      hash,
+      ...(files
+        ? { files: files.map((file) => path.join(fixture.projectDir, file)) }
+        : {}),
+    });
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  it('finds messages by their recorded files, newest first', () => {
+    fixture.writeFile('a.txt', '1\n');
+    const first = fixture.snapshot();
+    writeMessage('msg_1', 1000);
+    writePatch('msg_1', first, ['a.txt']);
+    writeMessage('msg_2', 2000);
+    writePatch('msg_2', first, ['b.txt']);
+    writeMessage('msg_3', 3000);
+    writePatch('msg_3', first, ['a.txt']);
+
+    expect(
+      getFileHistory('a.txt', 10, {}, fixture.store).map(
+        (entry) => entry.messageId,
+      ),
+    ).toEqual(['msg_3', 'msg_1']);
+  });
+
+  it('normalizes relative and absolute paths', () => {
+    fixture.writeFile('src/a.txt', '1\n');
+    writeMessage('msg_1', 1000);
+    writePatch('msg_1', fixture.snapshot(), ['src/a.txt']);
+
+    for (const filePath of [
+      'src/a.txt',
+      './src/a.txt',
+      'src/../src/a.txt',
+      path.join(fixture.projectDir, 'src', 'a.txt'),
+    ]) {
+      expect(
+        getFileHistory(filePath, 10, {}, fixture.store).map(
+          (entry) => entry.messageId,
+        ),
+      ).toEqual(['msg_1']);
+    }
+    expect(getFileHistory('../a.txt', 10, {}, fixture.store)).toEqual([]);
+    expect(getFileHistory('/elsewhere/a.txt', 10, {}, fixture.store)).toEqual(
+      [],
+    );
+  });
+
+  it('works out unrecorded files from the snapshots', () => {
+    fixture.writeFile('a.txt', '1\n');
+    fixture.writeFile('b.txt', '1\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', '2\n');
+    const after = fixture.snapshot();
+    writeMessage('msg_1', 1000);
+    writePatch('msg_1', before);
+    writeMessage('msg_2', 2000);
+    // Still running: no snapshot after it yet
+    writePatch('msg_2', after);
+
+    const history = (filePath: string) =>
+      getFileHistory(filePath, 10, {}, fixture.store).map(
+        (entry) => entry.messageId,
+      );
+    expect(history('a.txt')).toEqual(['msg_1']);
+    expect(history('b.txt')).toEqual([]);
+  });
+
+  it('applies since and until to each message', () => {
+    const hash = fixture.snapshot();
+    writeMessage('msg_1', 1000);
+    writePatch('msg_1', hash, ['a.txt']);
+    writeMessage('msg_2', 5000);
+    writePatch('msg_2', hash, ['a.txt']);
+
+    expect(
+      getFileHistory('a.txt', 10, { since: 2000 }, fixture.store).map(
+        (entry) => entry.messageId,
+      ),
+    ).toEqual(['msg_2']);
+    expect(
+      getFileHistory('a.txt', 10, { until: 2000 }, fixture.store).map(
+        (entry) => entry.messageId,
+      ),
+    ).toEqual(['msg_1']);
+  });
+});
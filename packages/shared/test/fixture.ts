@@ -0,0 +1,71 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+
+import { HistoryStore, createHistoryStore } from '../store';
+
+/**
+ * A throwaway OpenCode data directory: a project work tree, its snapshot
+ * repository and the JSON storage that points at them.
+ */
+export interface HistoryFixture {
+  root: string;
+  projectId: string;
+  projectDir: string;
+  store: HistoryStore;
+  /** Write a project file (project-relative path). */
+  writeFile(filePath: string, content: string): void;
+  /** Snapshot the project work tree the way OpenCode does; returns the tree hash. */
+  snapshot(): string;
+  /** Write a JSON file under the storage root. */
+  writeStorage(relativePath: string, data: Record<string, unknown>): void;
+  cleanup(): void;
+}
+
+export function createHistoryFixture(projectId = 'proj1'): HistoryFixture {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'oc-hist-test-'));
+  const dataDir = path.join(root, 'data');
+  const projectDir = path.join(root, 'project');
+  const snapshotDir = path.join(dataDir, 'snapshot', projectId);
+  fs.mkdirSync(projectDir, { recursive: true });
+  fs.mkdirSync(snapshotDir, { recursive: true });
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, {
+      env: { ...process.env, GIT_DIR: snapshotDir, GIT_WORK_TREE: projectDir },
+      encoding: 'utf8',
+    }).trim();
+  git('init', '-q');
+
+  const writeJson = (filePath: string, data: Record<string, unknown>) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data));
+  };
+
+  return {
+    root,
+    projectId,
+    projectDir,
+    store: createHistoryStore({
+      dataDir,
+      cacheDir: null,
+      stateDir: path.join(root, 'state'),
+    }),
+    writeFile(filePath, content) {
+      const target = path.join(projectDir, filePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+    },
+    snapshot() {
+      git('add', '--all', '.');
+      return git('write-tree');
+    },
+    writeStorage(relativePath, data) {
+      writeJson(path.join(dataDir, 'storage', relativePath), data);
+    },
+    cleanup() {
+      fs.rmSync(root, { recursive: true, force: true });
+    },
+  };
+}
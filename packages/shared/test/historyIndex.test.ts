@@ -0,0 +1,229 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { clearHistoryIndex, getHistoryIndex } from '../historyIndex';
+import { createHistoryStore } from '../store';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+describe('getHistoryIndex', () => {
+  let fixture: HistoryFixture;
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+      time: { created: 1000, updated: 2000 },
+    });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  const writeMessage = (id: string, created: number) =>
+    fixture.writeStorage(`message/ses_1/${id}.json`, {
+      id,
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created },
+    });
+
+  it('indexes sessions and their messages in order', () => {
+    writeMessage('msg_2', 2000);
+    writeMessage('msg_1', 1000);
+
+    const index = getHistoryIndex(fixture.store, true);
+    expect(index.sessions.ses_1).toMatchObject({
+      projectId: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+      messageIds: ['msg_1', 'msg_2'],
+    });
+    expect(Object.keys(index.messages).sort()).toEqual(['msg_1', 'msg_2']);
+  });
+
+  it('takes touched files from the patch part when it records them', () => {
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    writeMessage('msg_1', 1000);
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, 'a.txt')],
+    });
+
+    const message = getHistoryIndex(fixture.store, true).messages.msg_1;
+    expect(message.patchHash).toBe(before);
+    expect(message.files).toEqual(['a.txt']);
+  });
+
+  it('fills in unrecorded touched files once a later snapshot appears', () => {
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    writeMessage('msg_1', 1000);
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+    });
+    expect(getHistoryIndex(fixture.store).messages.msg_1.files).toBeNull();
+
+    fixture.writeFile('a.txt', 'two\n');
+    fixture.writeFile('b.txt', 'new\n');
+    const after = fixture.snapshot();
+    writeMessage('msg_2', 2000);
+    fixture.writeStorage('part/msg_2/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-start',
+      snapshot: after,
+    });
+
+    const index = getHistoryIndex(fixture.store, true);
+    expect(index.sessions.ses_1.messageIds).toEqual(['msg_1', 'msg_2']);
+    expect(index.messages.msg_1.files).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('drops messages that were deleted', () => {
+    writeMessage('msg_1', 1000);
+    writeMessage('msg_2', 2000);
+    expect(getHistoryIndex(fixture.store).sessions.ses_1.messageIds).toEqual([
+      'msg_1',
+      'msg_2',
+    ]);
+
+    fs.rmSync(
+      path.join(fixture.store.storageRoot, 'message', 'ses_1', 'msg_2.json'),
+    );
+    const index = getHistoryIndex(fixture.store, true);
+    expect(index.sessions.ses_1.messageIds).toEqual(['msg_1']);
+    expect(index.messages.msg_2).toBeUndefined();
+  });
+
+  it('keeps a separate index per snapshot root', () => {
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    writeMessage('msg_1', 1000);
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+    });
+    fixture.writeFile('a.txt', 'two\n');
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: fixture.snapshot(),
+    });
+
+    const other = createHistoryStore({
+      dataDir: path.join(fixture.root, 'data'),
+      snapshotRoot: path.join(fixture.root, 'missing'),
+      cacheDir: null,
+      stateDir: fixture.store.stateDir,
+    });
+    try {
+      expect(getHistoryIndex(fixture.store).messages.msg_1.files).toEqual([
+        'a.txt',
+      ]);
+      expect(getHistoryIndex(other)).not.toBe(getHistoryIndex(fixture.store));
+      expect(getHistoryIndex(other).messages.msg_1.files).toBeNull();
+    } finally {
+      clearHistoryIndex(other);
+    }
+  });
+  it('re-reads the parts of messages whose file changed', () => {
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    writeMessage('msg_1', 1000);
+    writeMessage('msg_2', 2000);
+    expect(getHistoryIndex(fixture.store, true).messages.msg_1.patchHash).toBe(
+      null,
+    );
+
+    // A part alone does not change anything the index watches
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+    });
+    expect(getHistoryIndex(fixture.store, true).messages.msg_1.patchHash).toBe(
+      null,
+    );
+
+    // The message file is rewritten as the next message is added
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(
+      path.join(fixture.store.messageRoot, 'ses_1', 'msg_1.json'),
+      later,
+      later,
+    );
+    writeMessage('msg_3', 3000);
+    expect(getHistoryIndex(fixture.store, true).messages.msg_1.patchHash).toBe(
+      before,
+    );
+  });
+
+  it('picks up parts of the latest message as it is written', () => {
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    writeMessage('msg_1', 1000);
+    expect(getHistoryIndex(fixture.store, true).messages.msg_1.patchHash).toBe(
+      null,
+    );
+
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+    });
+    const messageFile = path.join(
+      fixture.store.messageRoot,
+      'ses_1',
+      'msg_1.json',
+    );
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(messageFile, later, later);
+    expect(getHistoryIndex(fixture.store, true).messages.msg_1.patchHash).toBe(
+      before,
+    );
+  });
+
+  it('settles on one session file listed under two project dirs', () => {
+    fixture.writeStorage('session/other/ses_1.json', {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: '(no title)',
+    });
+    const older = new Date(Date.now() - 60_000);
+    fs.utimesSync(
+      path.join(fixture.store.sessionRoot, 'other', 'ses_1.json'),
+      older,
+      older,
+    );
+
+    const cached = createHistoryStore({
+      dataDir: path.join(fixture.root, 'data'),
+      cacheDir: path.join(fixture.root, 'cache'),
+      stateDir: fixture.store.stateDir,
+    });
+    try {
+      const session = getHistoryIndex(cached, true).sessions.ses_1;
+      expect(session.title).toBe('Session one');
+
+      // A refresh that finds nothing new leaves the persisted index alone
+      const [indexFile] = fs.readdirSync(path.join(fixture.root, 'cache'));
+      fs.rmSync(path.join(fixture.root, 'cache', indexFile));
+      getHistoryIndex(cached, true);
+      expect(fs.readdirSync(path.join(fixture.root, 'cache'))).toEqual([]);
+    } finally {
+      clearHistoryIndex(cached);
+    }
+  });
+});
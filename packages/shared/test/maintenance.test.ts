@@ -0,0 +1,137 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { clearHistoryIndex } from '../historyIndex';
+import { collectGarbage, getStorageHealth } from '../maintenance';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+const MISSING_HASH = '0123456789abcdef0123456789abcdef01234567';
+
+describe('storage maintenance', () => {
+  let fixture: HistoryFixture;
+  let snapshot: string;
+
+  const partDir = (msgId: string) => path.join(fixture.store.partRoot, msgId);
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Kept',
+    });
+    fixture.writeStorage(`session/${fixture.projectId}/ses_2.json`, {
+      id: 'ses_2',
+      projectID: fixture.projectId,
+      directory: path.join(fixture.root, 'deleted-worktree'),
+      title: 'Work tree deleted',
+    });
+
+    fixture.writeFile('a.txt', 'one\n');
+    snapshot = fixture.snapshot();
+    for (const [id, sessionId, hash] of [
+      ['msg_1', 'ses_1', snapshot],
+      ['msg_2', 'ses_1', MISSING_HASH],
+      ['msg_3', 'ses_2', snapshot],
+    ]) {
+      fixture.writeStorage(`message/${sessionId}/${id}.json`, {
+        id,
+        sessionID: sessionId,
+        role: 'assistant',
+        time: { created: 1000 },
+      });
+      fixture.writeStorage(`part/${id}/prt_${id}.json`, {
+        id: `prt_${id}`,
+        type: 'patch',
+        hash,
+      });
+    }
+
+    // Parts without a message: an old leftover and one still being written
+    fixture.writeStorage('part/msg_old/prt_1.json', { id: 'prt_1' });
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    fs.utimesSync(partDir('msg_old'), twoHoursAgo, twoHoursAgo);
+    fixture.writeStorage('part/msg_new/prt_2.json', { id: 'prt_2' });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  it('reports counts and what is broken per project', () => {
+    const health = getStorageHealth(fixture.store);
+    expect(health.storageRoot).toBe(fixture.store.storageRoot);
+    expect(health.projects).toHaveLength(1);
+    expect(health.projects[0]).toMatchObject({
+      projectId: fixture.projectId,
+      directory: fixture.projectDir,
+      directoryExists: true,
+      sessions: 2,
+      messages: 3,
+      parts: 3,
+      missingSnapshots: ['msg_2'],
+      sessionsWithoutDirectory: ['ses_2'],
+    });
+    expect(health.projects[0].snapshotBytes).toBeGreaterThan(0);
+    expect(health.orphanedPartDirs).toEqual(['msg_old']);
+    expect(health.orphanedSessions).toEqual(['ses_2']);
+  });
+
+  it('only reports in a dry run', () => {
+    const result = collectGarbage(
+      { dryRun: true, pruneOrphans: true, pruneSessions: true },
+      fixture.store,
+    );
+    expect(result.removedPartDirs).toEqual(['msg_old']);
+    expect(result.removedSessions).toEqual(['ses_2']);
+    expect(result.partBytes).toBeGreaterThan(0);
+    expect(result.sessionBytes).toBeGreaterThan(0);
+    expect(fs.existsSync(partDir('msg_old'))).toBe(true);
+    expect(fs.existsSync(partDir('msg_3'))).toBe(true);
+  });
+
+  it('prunes orphaned parts and sessions whose work tree is gone', () => {
+    collectGarbage({ pruneOrphans: true, pruneSessions: true }, fixture.store);
+
+    expect(fs.existsSync(partDir('msg_old'))).toBe(false);
+    expect(fs.existsSync(partDir('msg_new'))).toBe(true);
+    expect(fs.existsSync(partDir('msg_3'))).toBe(false);
+    expect(fs.existsSync(path.join(fixture.store.messageRoot, 'ses_2'))).toBe(
+      false,
+    );
+    expect(
+      fs.existsSync(
+        path.join(fixture.store.sessionRoot, fixture.projectId, 'ses_2.json'),
+      ),
+    ).toBe(false);
+    expect(fs.existsSync(partDir('msg_1'))).toBe(true);
+
+    const health = getStorageHealth(fixture.store);
+    expect(health.orphanedSessions).toEqual([]);
+    expect(health.projects[0].sessions).toBe(1);
+  });
+
+  it('repacks snapshot repos without losing unreferenced trees', () => {
+    const result = collectGarbage({ repackSnapshots: true }, fixture.store);
+    expect(result.snapshots).toEqual([
+      expect.objectContaining({ projectId: fixture.projectId, error: null }),
+    ]);
+    expect(result.snapshots[0].bytesAfter).not.toBeNull();
+
+    const snapshotDir = path.join(
+      fixture.store.snapshotRoot,
+      fixture.projectId,
+    );
+    expect(
+      execFileSync(
+        'git',
+        ['--git-dir', snapshotDir, 'cat-file', '-t', snapshot],
+        { encoding: 'utf8' },
+      ).trim(),
+    ).toBe('tree');
+  });
+});
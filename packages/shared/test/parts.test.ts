@@ -0,0 +1,218 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  ToolPart,
+  getMessageToolCalls,
+  getPatchFiles,
+  getToolCallSummary,
+  parsePatchPart,
+  parseToolPart,
+  toProjectRelativePath,
+} from '../parts';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+describe('toProjectRelativePath', () => {
+  const projectDir = path.resolve('/work/app');
+
+  it('makes absolute paths inside the project relative', () => {
+    expect(
+      toProjectRelativePath(path.join(projectDir, 'src', 'a.ts'), projectDir),
+    ).toBe('src/a.ts');
+  });
+
+  it('normalizes relative paths', () => {
+    expect(toProjectRelativePath('./src//lib/../a.ts', projectDir)).toBe(
+      'src/a.ts',
+    );
+  });
+
+  it('rejects paths outside the project and the project itself', () => {
+    expect(toProjectRelativePath('/work/other/a.ts', projectDir)).toBeNull();
+    expect(toProjectRelativePath('../a.ts', projectDir)).toBeNull();
+    expect(toProjectRelativePath('.', projectDir)).toBeNull();
+    expect(toProjectRelativePath(projectDir, projectDir)).toBeNull();
+  });
+
+  it('needs the project directory for absolute paths', () => {
+    expect(toProjectRelativePath('/work/app/a.ts', null)).toBeNull();
+    expect(toProjectRelativePath('a.ts', null)).toBe('a.ts');
+  });
+});
+
+describe('parsePatchPart', () => {
+  it('reads the hash and the recorded files', () => {
+    expect(
+      parsePatchPart(
+        { id: 'prt_1', type: 'patch', hash: 'abc', files: ['/p/a.ts', 7] },
+        'msg_1',
+      ),
+    ).toEqual({
+      id: 'prt_1',
+      messageId: 'msg_1',
+      hash: 'abc',
+      files: ['/p/a.ts'],
+    });
+  });
+
+  it('leaves files unknown when the part did not record them', () => {
+    expect(parsePatchPart({ type: 'patch', hash: 'abc' }, 'msg_1')).toEqual({
+      id: '',
+      messageId: 'msg_1',
+      hash: 'abc',
+      files: null,
+    });
+  });
+
+  it('ignores other parts', () => {
+    expect(parsePatchPart({ type: 'text', text: 'hi' }, 'msg_1')).toBeNull();
+    expect(parsePatchPart({ type: 'patch' }, 'msg_1')).toBeNull();
+  });
+});
+
+describe('getPatchFiles', () => {
+  const patch = (files: string[] | null) => ({
+    id: 'prt',
+    messageId: 'msg_1',
+    hash: 'abc',
+    files,
+  });
+
+  it('merges, normalizes and sorts the files of every part', () => {
+    expect(
+      getPatchFiles(
+        [patch(['/p/b.ts', '/p/a.ts']), patch(['/p/a.ts', '/elsewhere/c.ts'])],
+        '/p',
+      ),
+    ).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('is unknown when any part did not record its files', () => {
+    expect(getPatchFiles([patch(['/p/a.ts']), patch(null)], '/p')).toBeNull();
+  });
+});
+
+describe('parseToolPart', () => {
+  it('reads the call, its state and its timing', () => {
+    expect(
+      parseToolPart(
+        {
+          id: 'prt_1',
+          type: 'tool',
+          tool: 'bash',
+          callID: 'call_1',
+          state: {
+            status: 'completed',
+            title: 'Run tests',
+            input: { command: 'npm test' },
+            output: 'ok',
+            time: { start: 1000, end: 1500 },
+          },
+        },
+        'msg_1',
+      ),
+    ).toEqual({
+      type: 'tool',
+      id: 'prt_1',
+      messageId: 'msg_1',
+      tool: 'bash',
+      callId: 'call_1',
+      status: 'completed',
+      title: 'Run tests',
+      input: { command: 'npm test' },
+      output: 'ok',
+      error: null,
+      start: 1000,
+      end: 1500,
+    });
+  });
+
+  it('falls back to pending and empty values for a partial call', () => {
+    expect(
+      parseToolPart(
+        { type: 'tool', tool: 'read', state: { status: 'queued', input: [] } },
+        'msg_1',
+      ),
+    ).toMatchObject({
+      id: '',
+      callId: '',
+      status: 'pending',
+      title: null,
+      input: {},
+      output: null,
+      start: null,
+      end: null,
+    });
+  });
+
+  it('ignores other parts and calls without a tool name', () => {
+    expect(parseToolPart({ type: 'text', text: 'hi' }, 'msg_1')).toBeNull();
+    expect(parseToolPart({ type: 'tool' }, 'msg_1')).toBeNull();
+  });
+});
+
+describe('getToolCallSummary', () => {
+  const call = (input: Record<string, unknown>, title: string | null = null) =>
+    parseToolPart(
+      { type: 'tool', tool: 'bash', state: { input, title } },
+      'msg_1',
+    ) as ToolPart;
+
+  it('uses the most telling input argument', () => {
+    expect(
+      getToolCallSummary(
+        call({ description: 'List files', command: 'ls -la\necho done' }),
+      ),
+    ).toBe('ls -la');
+    expect(getToolCallSummary(call({ filePath: 'src/a.ts' }))).toBe('src/a.ts');
+  });
+
+  it('falls back to the title, then to nothing', () => {
+    expect(getToolCallSummary(call({ count: 3 }, 'Counted'))).toBe('Counted');
+    expect(getToolCallSummary(call({ command: '' }))).toBe('');
+  });
+});
+
+describe('getMessageToolCalls', () => {
+  let fixture: HistoryFixture;
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+  });
+
+  afterEach(() => {
+    fixture.cleanup();
+  });
+
+  it('returns only the tool parts, in the order they were written', () => {
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'text',
+      text: 'Looking',
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'tool',
+      tool: 'read',
+      state: { status: 'completed' },
+    });
+    fixture.writeStorage('part/msg_1/prt_3.json', {
+      id: 'prt_3',
+      type: 'tool',
+      tool: 'edit',
+      state: { status: 'error', error: 'No match' },
+    });
+
+    expect(
+      getMessageToolCalls('msg_1', fixture.store).map((call) => [
+        call.id,
+        call.tool,
+        call.status,
+        call.error,
+      ]),
+    ).toEqual([
+      ['prt_2', 'read', 'completed', null],
+      ['prt_3', 'edit', 'error', 'No match'],
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { listProjects, resolveProjectFilter } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { formatDate } from '../utils';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+const START = Date.UTC(2024, 0, 1);
+
+describe('projects', () => {
+  let fixture: HistoryFixture;
+
+  const writeSession = (
+    id: string,
+    projectId: string | null,
+    directory: string,
+    created: number,
+  ) => {
+    if (projectId) {
+      fixture.writeStorage(`session/${projectId}/${id}.json`, {
+        id,
+        projectID: projectId,
+        directory,
+        title: id,
+      });
+    }
+    fixture.writeStorage(`message/${id}/msg_${id.slice(4)}.json`, {
+      id: `msg_${id.slice(4)}`,
+      sessionID: id,
+      role: 'user',
+      time: { created },
+    });
+  };
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    writeSession('ses_a', fixture.projectId, fixture.projectDir, START);
+    writeSession(
+      'ses_b',
+      fixture.projectId,
+      path.join(fixture.root, 'moved'),
+      START + 2000,
+    );
+    writeSession(
+      'ses_c',
+      'proj2',
+      path.join(fixture.root, 'deleted'),
+      START + 1000,
+    );
+    writeSession('ses_d', null, fixture.projectDir, START + 3000);
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  describe('listProjects', () => {
+    it('lists projects by last activity and skips sessions without one', () => {
+      const projects = listProjects(fixture.store);
+      expect(projects.map((project) => project.id)).toEqual([
+        fixture.projectId,
+        'proj2',
+      ]);
+      expect(projects[0]).toMatchObject({
+        sessionCount: 2,
+        lastActivity: formatDate(new Date(START + 2000)),
+      });
+      expect(projects[1]).toMatchObject({
+        sessionCount: 1,
+        lastActivity: formatDate(new Date(START + 1000)),
+      });
+    });
+
+    it('uses the most recent session directory that still exists', () => {
+      const [project] = listProjects(fixture.store);
+      expect(project.directory).toBe(fixture.projectDir);
+      expect(project.directoryExists).toBe(true);
+    });
+
+    it('keeps the latest directory of a project whose work trees are gone', () => {
+      const projects = listProjects(fixture.store);
+      expect(projects[1]).toMatchObject({
+        directory: path.join(fixture.root, 'deleted'),
+        directoryExists: false,
+      });
+    });
+
+    it('reports the snapshot repo size, or null without one', () => {
+      const projects = listProjects(fixture.store);
+      expect(projects[0].snapshotBytes).toBeGreaterThan(0);
+      expect(projects[1].snapshotBytes).toBeNull();
+    });
+  });
+
+  describe('resolveProjectFilter', () => {
+    it('accepts a known project ID', () => {
+      expect(resolveProjectFilter('proj2', fixture.store)).toEqual({
+        projectIds: ['proj2'],
+      });
+    });
+
+    it('resolves a directory to the projects of its sessions', () => {
+      expect(resolveProjectFilter(fixture.projectDir, fixture.store)).toEqual({
+        projectIds: [fixture.projectId],
+      });
+    });
+
+    it('falls back to a directory filter when no project matches', () => {
+      const directory = path.join(fixture.root, 'scratch');
+      fs.mkdirSync(directory);
+      expect(resolveProjectFilter(directory, fixture.store)).toEqual({
+        directory,
+      });
+    });
+
+    it('returns null for an unknown project that is not a directory', () => {
+      expect(resolveProjectFilter('proj9', fixture.store)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { RevertError } from '../errors';
+import { getRevertRange } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { revertRange } from '../revert';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+describe('revertRange', () => {
+  let fixture: HistoryFixture;
+
+  const readFile = (filePath: string) => {
+    const target = path.join(fixture.projectDir, filePath);
+    return fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : null;
+  };
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+      time: { created: 1000, updated: 2000 },
+    });
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created: 1000 },
+    });
+
+    // msg_1 edits a.txt and creates b.txt
+    fixture.writeFile('a.txt', 'one\ntwo\nthree\nfour\nfive\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'one\nTWO\nthree\nfour\nfive\n');
+    fixture.writeFile('b.txt', 'added\n');
+    const after = fixture.snapshot();
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: ['a.txt', 'b.txt'].map((file) =>
+        path.join(fixture.projectDir, file),
+      ),
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  it('reverts a message', () => {
+    const range = getRevertRange({ messageId: 'msg_1' }, fixture.store);
+    expect(range.projectDir).toBe(fixture.projectDir);
+    expect(range.messageIds).toEqual(['msg_1']);
+    expect(range.steps).toEqual([
+      { messageId: 'msg_1', before: range.before, after: range.after },
+    ]);
+
+    const result = revertRange(range, {}, fixture.store);
+    expect(
+      result.files.map(({ change, outcome, ...file }) => ({
+        path: file.path,
+        change,
+        outcome,
+      })),
+    ).toEqual([
+      { path: 'a.txt', change: 'modified', outcome: 'reverted' },
+      { path: 'b.txt', change: 'added', outcome: 'reverted' },
+    ]);
+    expect(readFile('a.txt')).toBe('one\ntwo\nthree\nfour\nfive\n');
+    expect(readFile('b.txt')).toBeNull();
+    expect(result.journalId).not.toBeNull();
+
+    const again = revertRange(range, { dryRun: true }, fixture.store);
+    expect(again.files.map((file) => file.outcome)).toEqual([
+      'already-reverted',
+      'already-reverted',
+    ]);
+  });
+
+  it('leaves the work tree alone in a dry run', () => {
+    const range = getRevertRange({ messageId: 'msg_1' }, fixture.store);
+    const result = revertRange(range, { dryRun: true }, fixture.store);
+
+    expect(result.files.map((file) => file.outcome)).toEqual([
+      'reverted',
+      'reverted',
+    ]);
+    expect(result.journalId).toBeNull();
+    expect(readFile('a.txt')).toBe('one\nTWO\nthree\nfour\nfive\n');
+    expect(readFile('b.txt')).toBe('added\n');
+  });
+
+  it('merges around later edits with threeWay', () => {
+    fixture.writeFile('a.txt', 'one\nTWO\nthree\nfour\nFIVE\n');
+    const range = getRevertRange({ messageId: 'msg_1' }, fixture.store);
+
+    const plain = revertRange(
+      range,
+      { dryRun: true, paths: ['a.txt'] },
+      fixture.store,
+    );
+    expect(plain.files.map((file) => file.outcome)).toEqual(['failed']);
+
+    const merged = revertRange(
+      range,
+      { threeWay: true, paths: ['a.txt'] },
+      fixture.store,
+    );
+    expect(merged.files.map((file) => file.outcome)).toEqual(['merged']);
+    expect(readFile('a.txt')).toBe('one\ntwo\nthree\nfour\nFIVE\n');
+    expect(readFile('b.txt')).toBe('added\n');
+  });
+
+  describe('over a session range', () => {
+    beforeEach(() => {
+      // A human adds c.txt between the messages, then msg_2 edits a.txt again
+      fixture.writeFile('c.txt', 'mine\n');
+      const before = fixture.snapshot();
+      fixture.writeFile('a.txt', 'ONE\nTWO\nthree\nfour\nfive\n');
+      const after = fixture.snapshot();
+      fixture.writeStorage('message/ses_1/msg_2.json', {
+        id: 'msg_2',
+        sessionID: 'ses_1',
+        role: 'assistant',
+        time: { created: 2000 },
+      });
+      fixture.writeStorage('part/msg_2/prt_3.json', {
+        id: 'prt_3',
+        type: 'patch',
+        hash: before,
+        files: [path.join(fixture.projectDir, 'a.txt')],
+      });
+      fixture.writeStorage('part/msg_2/prt_4.json', {
+        id: 'prt_4',
+        type: 'step-finish',
+        snapshot: after,
+      });
+    });
+
+    it("undoes only the messages' own changes", () => {
+      const range = getRevertRange({ sessionId: 'ses_1' }, fixture.store);
+      expect(range.messageIds).toEqual(['msg_1', 'msg_2']);
+      expect(range.steps.map((step) => step.messageId)).toEqual([
+        'msg_1',
+        'msg_2',
+      ]);
+
+      const result = revertRange(range, {}, fixture.store);
+      expect(result.files.map((file) => [file.path, file.outcome])).toEqual([
+        ['a.txt', 'reverted'],
+        ['b.txt', 'reverted'],
+      ]);
+      expect(readFile('a.txt')).toBe('one\ntwo\nthree\nfour\nfive\n');
+      expect(readFile('b.txt')).toBeNull();
+      expect(readFile('c.txt')).toBe('mine\n');
+    });
+
+    it('merges around later edits step by step with threeWay', () => {
+      fixture.writeFile('a.txt', 'ONE\nTWO\nthree\nfour\nFIVE\n');
+      const range = getRevertRange({ sessionId: 'ses_1' }, fixture.store);
+
+      const plain = revertRange(
+        range,
+        { dryRun: true, paths: ['a.txt'] },
+        fixture.store,
+      );
+      expect(plain.files).toEqual([
+        expect.objectContaining({
+          path: 'a.txt',
+          outcome: 'failed',
+          message: expect.stringContaining('(undoing msg_1)'),
+        }),
+      ]);
+      expect(readFile('a.txt')).toBe('ONE\nTWO\nthree\nfour\nFIVE\n');
+
+      const merged = revertRange(
+        range,
+        { threeWay: true, paths: ['a.txt'] },
+        fixture.store,
+      );
+      expect(merged.files.map((file) => file.outcome)).toEqual(['merged']);
+      expect(readFile('a.txt')).toBe('one\ntwo\nthree\nfour\nFIVE\n');
+    });
+
+    it('reverts part of the range', () => {
+      const range = getRevertRange(
+        { sessionId: 'ses_1', fromMessageId: 'msg_2' },
+        fixture.store,
+      );
+      expect(range.messageIds).toEqual(['msg_2']);
+
+      revertRange(range, {}, fixture.store);
+      expect(readFile('a.txt')).toBe('one\nTWO\nthree\nfour\nfive\n');
+      expect(readFile('b.txt')).toBe('added\n');
+    });
+  });
+
+  it('throws for a message that changed nothing', () => {
+    fixture.writeStorage('message/ses_1/msg_3.json', {
+      id: 'msg_3',
+      sessionID: 'ses_1',
+      role: 'user',
+      time: { created: 3000 },
+    });
+    expect(() => getRevertRange({ messageId: 'msg_3' }, fixture.store)).toThrow(
+      RevertError,
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { RevertError } from '../errors';
+import { getRevertRange } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { revertRange } from '../revert';
+import { listRevertJournal, undoRevert } from '../revertJournal';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+describe('undoRevert', () => {
+  let fixture: HistoryFixture;
+
+  const readFile = (filePath: string) => {
+    const target = path.join(fixture.projectDir, filePath);
+    return fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : null;
+  };
+
+  const revert = () =>
+    revertRange(
+      getRevertRange({ messageId: 'msg_1' }, fixture.store),
+      {},
+      fixture.store,
+    );
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created: 1000 },
+    });
+
+    // msg_1 edits a.txt and creates b.txt
+    fixture.writeFile('a.txt', 'one\ntwo\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'one\nTWO\n');
+    fixture.writeFile('b.txt', 'added\n');
+    const after = fixture.snapshot();
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: ['a.txt', 'b.txt'].map((file) =>
+        path.join(fixture.projectDir, file),
+      ),
+    });
+    fixture.writeStorage('part/msg_1/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  it('records each revert in the journal and puts the files back', () => {
+    const result = revert();
+    expect(readFile('a.txt')).toBe('one\ntwo\n');
+    expect(readFile('b.txt')).toBeNull();
+
+    const [entry] = listRevertJournal(fixture.store);
+    expect(entry).toMatchObject({
+      id: result.journalId,
+      projectDir: fixture.projectDir,
+      messageIds: ['msg_1'],
+      undoneAt: null,
+    });
+    expect(entry.files.map((file) => file.path)).toEqual(['a.txt', 'b.txt']);
+
+    const undone = undoRevert(undefined, {}, fixture.store);
+    expect(undone.entry.id).toBe(result.journalId);
+    expect(undone.entry.undoneAt).not.toBeNull();
+    expect(undone.files).toEqual([
+      { path: 'a.txt', action: 'restored' },
+      { path: 'b.txt', action: 'restored' },
+    ]);
+    expect(readFile('a.txt')).toBe('one\nTWO\n');
+    expect(readFile('b.txt')).toBe('added\n');
+    expect(listRevertJournal(fixture.store)[0].undoneAt).not.toBeNull();
+  });
+
+  it('leaves the files alone in a dry run', () => {
+    revert();
+    const result = undoRevert(undefined, { dryRun: true }, fixture.store);
+    expect(result.dryRun).toBe(true);
+    expect(result.files.map((file) => file.action)).toEqual([
+      'restored',
+      'restored',
+    ]);
+    expect(readFile('a.txt')).toBe('one\ntwo\n');
+    expect(listRevertJournal(fixture.store)[0].undoneAt).toBeNull();
+  });
+
+  it('refuses to undo over edits made after the revert', () => {
+    const result = revert();
+    fixture.writeFile('a.txt', 'edited later\n');
+
+    expect(() => undoRevert(result.journalId!, {}, fixture.store)).toThrow(
+      /Files changed since revert .*: a\.txt/,
+    );
+    expect(readFile('a.txt')).toBe('edited later\n');
+
+    undoRevert(result.journalId!, { force: true }, fixture.store);
+    expect(readFile('a.txt')).toBe('one\nTWO\n');
+  });
+
+  it('throws when there is nothing left to undo', () => {
+    expect(() => undoRevert(undefined, {}, fixture.store)).toThrow(
+      'No reverts left to undo',
+    );
+
+    const result = revert();
+    undoRevert(undefined, {}, fixture.store);
+    expect(() => undoRevert(undefined, {}, fixture.store)).toThrow(RevertError);
+    expect(() => undoRevert(result.journalId!, {}, fixture.store)).toThrow(
+      /already undone/,
+    );
+    expect(() =>
+      undoRevert('20240101T000000Z-abcdef', {}, fixture.store),
+    ).toThrow('Revert not found: 20240101T000000Z-abcdef');
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { clearHistoryIndex } from '../historyIndex';
+import { createSearchPattern, searchHistory } from '../search';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+describe('searchHistory', () => {
+  let fixture: HistoryFixture;
+
+  const writeMessage = (id: string, role: string, created: number) =>
+    fixture.writeStorage(`message/ses_1/${id}.json`, {
+      id,
+      sessionID: 'ses_1',
+      role,
+      time: { created },
+    });
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Session one',
+    });
+
+    writeMessage('msg_1', 'user', 1000);
+    fixture.writeStorage('part/msg_1/prt_1.json', {
+      id: 'prt_1',
+      type: 'text',
+      text: 'Please fix the Parser error in parse.ts',
+    });
+    writeMessage('msg_2', 'assistant', 2000);
+    fixture.writeStorage('part/msg_2/prt_2.json', {
+      id: 'prt_2',
+      type: 'reasoning',
+      text: 'The parser fails on empty input',
+    });
+    fixture.writeStorage('part/msg_2/prt_3.json', {
+      id: 'prt_3',
+      type: 'tool',
+      tool: 'bash',
+      callID: 'call_1',
+      state: {
+        status: 'completed',
+        input: { command: 'npm test' },
+        output: 'FAIL parser.test.ts\n  expected 42 to be 41',
+      },
+    });
+    fixture.writeStorage('part/msg_2/prt_4.json', {
+      id: 'prt_4',
+      type: 'patch',
+      hash: 'abc',
+    });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  it('matches a case-insensitive substring in every role', () => {
+    const hits = searchHistory('parser', {}, fixture.store);
+    expect(
+      hits.map((hit) => [hit.messageId, hit.partId, hit.role, hit.tool]),
+    ).toEqual([
+      ['msg_1', 'prt_1', 'user', null],
+      ['msg_2', 'prt_2', 'assistant', null],
+      ['msg_2', 'prt_3', 'tool', 'bash'],
+    ]);
+    expect(hits[0]).toMatchObject({
+      sessionId: 'ses_1',
+      sessionTitle: 'Session one',
+      projectId: fixture.projectId,
+      partType: 'text',
+    });
+  });
+
+  it('matches case exactly with caseSensitive', () => {
+    const hits = searchHistory(
+      'Parser',
+      { caseSensitive: true },
+      fixture.store,
+    );
+    expect(hits.map((hit) => hit.partId)).toEqual(['prt_1']);
+  });
+
+  it('treats the query as a pattern only with regex', () => {
+    expect(searchHistory('4[12]', {}, fixture.store)).toEqual([]);
+    const hits = searchHistory('4[12]', { regex: true }, fixture.store);
+    expect(hits.map((hit) => hit.partId)).toEqual(['prt_3']);
+  });
+
+  it('only matches the requested roles', () => {
+    const hits = searchHistory(
+      'parser',
+      { roles: ['assistant', 'tool'] },
+      fixture.store,
+    );
+    expect(hits.map((hit) => hit.role)).toEqual(['assistant', 'tool']);
+  });
+
+  it('stops at the limit', () => {
+    const hits = searchHistory('parser', { limit: 2 }, fixture.store);
+    expect(hits.map((hit) => hit.partId)).toEqual(['prt_1', 'prt_2']);
+  });
+
+  it('marks the match within a snippet cut to the context', () => {
+    const [hit] = searchHistory(
+      'parser',
+      { roles: ['user'], contextChars: 5 },
+      fixture.store,
+    );
+    expect(hit.snippet).toBe('…the Parser erro…');
+    expect(hit.snippet.slice(hit.matchStart, hit.matchEnd)).toBe('Parser');
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(searchHistory('', {}, fixture.store)).toEqual([]);
+  });
+
+  it('throws a SyntaxError for an invalid pattern', () => {
+    expect(() => createSearchPattern('(', { regex: true })).toThrow(
+      SyntaxError,
+    );
+    expect(createSearchPattern('(').test('f(x)')).toBe(true);
+  });
+});
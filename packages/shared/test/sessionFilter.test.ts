@@ -0,0 +1,113 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { getRecentSessions } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { searchHistory } from '../search';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+describe('session filters', () => {
+  let fixture: HistoryFixture;
+
+  const writeSession = (
+    id: string,
+    title: string,
+    directory: string,
+    created: number[],
+    projectId = fixture.projectId,
+  ) => {
+    fixture.writeStorage(`session/${projectId}/${id}.json`, {
+      id,
+      projectID: projectId,
+      directory,
+      title,
+    });
+    created.forEach((time, i) => {
+      const msgId = `msg_${id.slice(4)}_${i}`;
+      fixture.writeStorage(`message/${id}/${msgId}.json`, {
+        id: msgId,
+        sessionID: id,
+        role: 'user',
+        time: { created: time },
+      });
+      fixture.writeStorage(`part/${msgId}/prt_${msgId}.json`, {
+        id: `prt_${msgId}`,
+        type: 'text',
+        text: `Fix the build (${title})`,
+      });
+    });
+  };
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    // Written newest first, so directory mtimes disagree with message times
+    writeSession('ses_c', 'Release notes', fixture.projectDir, [
+      START + 5 * DAY,
+    ]);
+    writeSession(
+      'ses_b',
+      'Fix CI',
+      path.join(fixture.projectDir, 'packages', 'web'),
+      [START + 2 * DAY, START + 3 * DAY],
+    );
+    writeSession('ses_a', 'Fix login', fixture.projectDir, [START]);
+    writeSession(
+      'ses_z',
+      'Other project',
+      '/elsewhere',
+      [START + 4 * DAY],
+      'proj2',
+    );
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  const ids = (filter: Parameters<typeof getRecentSessions>[1]) =>
+    getRecentSessions(10, filter, fixture.store).map((session) => session.id);
+
+  it('orders sessions by their last message, not by file times', () => {
+    expect(ids({})).toEqual(['ses_c', 'ses_z', 'ses_b', 'ses_a']);
+  });
+
+  it('keeps sessions with any message in the time range', () => {
+    expect(ids({ since: START + 3 * DAY })).toEqual([
+      'ses_c',
+      'ses_z',
+      'ses_b',
+    ]);
+    expect(ids({ until: START + 2 * DAY })).toEqual(['ses_b', 'ses_a']);
+    expect(ids({ since: START + DAY, until: START + 2 * DAY })).toEqual([
+      'ses_b',
+    ]);
+  });
+
+  it('filters on project, directory and title', () => {
+    expect(ids({ projectIds: ['proj2'] })).toEqual(['ses_z']);
+    expect(
+      ids({ directory: path.join(fixture.projectDir, 'packages') }),
+    ).toEqual(['ses_b']);
+    expect(ids({ title: 'fix' })).toEqual(['ses_b', 'ses_a']);
+    expect(ids({ projectIds: [fixture.projectId], title: 'notes' })).toEqual([
+      'ses_c',
+    ]);
+  });
+
+  it('searches sessions in the same order', () => {
+    expect(
+      searchHistory('build', {}, fixture.store).map((hit) => hit.sessionId),
+    ).toEqual(['ses_c', 'ses_z', 'ses_b', 'ses_b', 'ses_a']);
+    expect(
+      searchHistory(
+        'build',
+        { since: START + 3 * DAY, title: 'fix' },
+        fixture.store,
+      ).map((hit) => hit.messageId),
+    ).toEqual(['msg_b_1']);
+  });
+});
@@ -0,0 +1,156 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { SessionNode, getSessionTree, getTaskDiff } from '../history';
+import { clearHistoryIndex } from '../historyIndex';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+const START = Date.UTC(2024, 0, 1);
+
+const ids = (nodes: SessionNode[]): unknown[] =>
+  nodes.map((node) =>
+    node.children.length > 0 ? [node.id, ids(node.children)] : node.id,
+  );
+
+describe('session trees', () => {
+  let fixture: HistoryFixture;
+
+  const writeSession = (id: string, title: string, parentId?: string) => {
+    fixture.writeStorage(`session/${fixture.projectId}/${id}.json`, {
+      id,
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title,
+      ...(parentId ? { parentID: parentId } : {}),
+    });
+  };
+
+  const writeMessage = (
+    sessionId: string,
+    msgId: string,
+    created: number,
+    change?: { file: string; before: string; after: string },
+  ) => {
+    fixture.writeStorage(`message/${sessionId}/${msgId}.json`, {
+      id: msgId,
+      sessionID: sessionId,
+      role: change ? 'assistant' : 'user',
+      time: { created },
+    });
+    if (change) {
+      fixture.writeStorage(`part/${msgId}/prt_${msgId}_1.json`, {
+        id: `prt_${msgId}_1`,
+        type: 'patch',
+        hash: change.before,
+        files: [path.join(fixture.projectDir, change.file)],
+      });
+      fixture.writeStorage(`part/${msgId}/prt_${msgId}_2.json`, {
+        id: `prt_${msgId}_2`,
+        type: 'step-finish',
+        snapshot: change.after,
+      });
+    }
+  };
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeFile('a.txt', 'one\n');
+    const first = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\n');
+    const second = fixture.snapshot();
+    fixture.writeFile('b.txt', 'new\n');
+    const third = fixture.snapshot();
+
+    // ses_1 spawned ses_4 and then ses_2, which spawned ses_3
+    writeSession('ses_1', 'Build the feature');
+    writeMessage('ses_1', 'msg_1a', START);
+    writeMessage('ses_1', 'msg_1b', START + 1000, {
+      file: 'a.txt',
+      before: first,
+      after: second,
+    });
+    writeSession('ses_2', 'Write the tests', 'ses_1');
+    writeMessage('ses_2', 'msg_2a', START + 2000, {
+      file: 'b.txt',
+      before: second,
+      after: third,
+    });
+    writeSession('ses_3', 'Check coverage', 'ses_2');
+    writeMessage('ses_3', 'msg_3a', START + 4000);
+    writeSession('ses_4', 'Explore the code', 'ses_1');
+    writeMessage('ses_4', 'msg_4a', START + 1500);
+
+    writeSession('ses_5', 'Unrelated question');
+    writeMessage('ses_5', 'msg_5a', START + 3000);
+    writeSession('ses_6', 'Orphaned subagent', 'ses_gone');
+    writeMessage('ses_6', 'msg_6a', START + 500);
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  describe('getSessionTree', () => {
+    it('nests spawned sessions under their parent in start order', () => {
+      expect(ids(getSessionTree(10, {}, fixture.store))).toEqual([
+        ['ses_1', ['ses_4', ['ses_2', ['ses_3']]]],
+        'ses_5',
+        'ses_6',
+      ]);
+    });
+
+    it('ranks a tree by its most recently active session', () => {
+      const [tree] = getSessionTree(1, {}, fixture.store);
+      expect(tree.id).toBe('ses_1');
+      expect(tree.messageCount).toBe(2);
+      expect(tree.children[1].children[0]).toMatchObject({
+        id: 'ses_3',
+        parentId: 'ses_2',
+        children: [],
+      });
+    });
+
+    it('lists a whole tree when any of its sessions matches the filter', () => {
+      expect(
+        ids(getSessionTree(10, { title: 'coverage' }, fixture.store)),
+      ).toEqual([['ses_1', ['ses_4', ['ses_2', ['ses_3']]]]]);
+      expect(
+        ids(getSessionTree(10, { until: START + 600 }, fixture.store)),
+      ).toEqual([['ses_1', ['ses_4', ['ses_2', ['ses_3']]]], 'ses_6']);
+    });
+  });
+
+  describe('getTaskDiff', () => {
+    it('diffs the changes of a session and the sessions it spawned', () => {
+      const task = getTaskDiff('ses_1', undefined, fixture.store);
+      expect(task).toMatchObject({
+        projectId: fixture.projectId,
+        sessionIds: ['ses_1', 'ses_4', 'ses_2', 'ses_3'],
+        messageIds: ['msg_1b', 'msg_2a'],
+      });
+      expect(task?.diff).toContain('-one\n+two');
+      expect(task?.diff).toContain('+new');
+    });
+
+    it('leaves out the parent of the given session', () => {
+      const task = getTaskDiff('ses_2', undefined, fixture.store);
+      expect(task?.sessionIds).toEqual(['ses_2', 'ses_3']);
+      expect(task?.diff).not.toContain('a.txt');
+      expect(task?.diff).toContain('+new');
+    });
+
+    it('limits the diff to a file', () => {
+      const task = getTaskDiff('ses_1', 'b.txt', fixture.store);
+      expect(task?.diff).toContain('b/b.txt');
+      expect(task?.diff).not.toContain('a.txt');
+    });
+
+    it('returns null when the task changed nothing or the input is invalid', () => {
+      expect(getTaskDiff('ses_5', undefined, fixture.store)).toBeNull();
+      expect(getTaskDiff('ses_9', undefined, fixture.store)).toBeNull();
+      expect(getTaskDiff('../ses_1', undefined, fixture.store)).toBeNull();
+      expect(getTaskDiff('ses_1', '../a.txt', fixture.store)).toBeNull();
+    });
+  });
+});
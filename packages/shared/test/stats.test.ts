@@ -0,0 +1,220 @@
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { clearHistoryIndex } from '../historyIndex';
+import {
+  SessionStats,
+  getSessionStats,
+  getTaskStats,
+  listSessionStats,
+  rollupSessionStats,
+} from '../stats';
+import { HistoryFixture, createHistoryFixture } from './fixture';
+
+// A Wednesday, local time
+const START = new Date(2024, 0, 3, 10).getTime();
+
+describe('session stats', () => {
+  let fixture: HistoryFixture;
+
+  beforeEach(() => {
+    fixture = createHistoryFixture();
+    fixture.writeStorage(`session/${fixture.projectId}/ses_1.json`, {
+      id: 'ses_1',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Parent',
+    });
+    fixture.writeStorage(`session/${fixture.projectId}/ses_2.json`, {
+      id: 'ses_2',
+      projectID: fixture.projectId,
+      directory: fixture.projectDir,
+      title: 'Subagent',
+      parentID: 'ses_1',
+    });
+
+    fixture.writeStorage('message/ses_1/msg_1.json', {
+      id: 'msg_1',
+      sessionID: 'ses_1',
+      role: 'user',
+      time: { created: START },
+    });
+
+    // msg_2 replaces one line of a.txt with two
+    fixture.writeFile('a.txt', 'one\n');
+    const before = fixture.snapshot();
+    fixture.writeFile('a.txt', 'two\nthree\n');
+    const after = fixture.snapshot();
+    fixture.writeStorage('message/ses_1/msg_2.json', {
+      id: 'msg_2',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      providerID: 'anthropic',
+      modelID: 'model-a',
+      cost: 0.5,
+      tokens: {
+        input: 100,
+        output: 20,
+        reasoning: 5,
+        cache: { read: 50, write: 10 },
+      },
+      time: { created: START + 1000, completed: START + 61000 },
+    });
+    fixture.writeStorage('part/msg_2/prt_1.json', {
+      id: 'prt_1',
+      type: 'patch',
+      hash: before,
+      files: [path.join(fixture.projectDir, 'a.txt')],
+    });
+    fixture.writeStorage('part/msg_2/prt_2.json', {
+      id: 'prt_2',
+      type: 'step-finish',
+      snapshot: after,
+    });
+
+    // msg_3 changed b.txt, but no snapshot was taken after it
+    fixture.writeStorage('message/ses_1/msg_3.json', {
+      id: 'msg_3',
+      sessionID: 'ses_1',
+      role: 'assistant',
+      time: { created: START + 70000 },
+    });
+    fixture.writeStorage('part/msg_3/prt_3.json', {
+      id: 'prt_3',
+      type: 'patch',
+      hash: after,
+      files: [path.join(fixture.projectDir, 'b.txt')],
+    });
+
+    fixture.writeStorage('message/ses_2/msg_4.json', {
+      id: 'msg_4',
+      sessionID: 'ses_2',
+      role: 'assistant',
+      providerID: 'openai',
+      modelID: 'model-b',
+      cost: 0.25,
+      tokens: { input: 10, output: 2 },
+      time: { created: START + 30000, completed: START + 120000 },
+    });
+  });
+
+  afterEach(() => {
+    clearHistoryIndex(fixture.store);
+    fixture.cleanup();
+  });
+
+  it('sums turns, tokens, cost and changed lines of a session', () => {
+    expect(getSessionStats('ses_1', fixture.store)).toEqual({
+      sessionId: 'ses_1',
+      title: 'Parent',
+      projectId: fixture.projectId,
+      start: START,
+      end: START + 70000,
+      filesTouched: ['a.txt', 'b.txt'],
+      missingDiffs: 1,
+      messages: 3,
+      assistantTurns: 2,
+      insertions: 2,
+      deletions: 1,
+      tokens: {
+        input: 100,
+        output: 20,
+        reasoning: 5,
+        cacheRead: 50,
+        cacheWrite: 10,
+      },
+      cost: 0.5,
+      durationMs: 70000,
+      models: ['anthropic/model-a'],
+    });
+    expect(getSessionStats('ses_9', fixture.store)).toBeNull();
+  });
+
+  it('adds the sessions a task spawned', () => {
+    const task = getTaskStats('ses_1', fixture.store);
+    expect(task).toMatchObject({
+      sessionId: 'ses_1',
+      sessionIds: ['ses_1', 'ses_2'],
+      messages: 4,
+      assistantTurns: 3,
+      cost: 0.75,
+      start: START,
+      end: START + 120000,
+      durationMs: 120000,
+      missingDiffs: 1,
+      models: ['anthropic/model-a', 'openai/model-b'],
+    });
+    expect(task?.tokens.input).toBe(110);
+    expect(getTaskStats('ses_9', fixture.store)).toBeNull();
+  });
+
+  it('lists sessions by start, filtered on when they started', () => {
+    expect(
+      listSessionStats({}, fixture.store).map((stats) => stats.sessionId),
+    ).toEqual(['ses_2', 'ses_1']);
+    expect(
+      listSessionStats({ since: START + 10000 }, fixture.store).map(
+        (stats) => stats.sessionId,
+      ),
+    ).toEqual(['ses_2']);
+    expect(listSessionStats({ projectId: 'other' }, fixture.store)).toEqual([]);
+  });
+});
+
+describe('rollupSessionStats', () => {
+  const stats = (
+    sessionId: string,
+    projectId: string | null,
+    start: number | null,
+    filesTouched: string[],
+    cost: number,
+  ): SessionStats => ({
+    sessionId,
+    title: sessionId,
+    projectId,
+    start,
+    end: start,
+    filesTouched,
+    missingDiffs: 0,
+    messages: 1,
+    assistantTurns: 1,
+    insertions: 1,
+    deletions: 0,
+    tokens: { input: 1, output: 1, reasoning: 0, cacheRead: 0, cacheWrite: 0 },
+    cost,
+    durationMs: 0,
+    models: [],
+  });
+
+  it('sums sessions per project and week, most recent week first', () => {
+    const rows = rollupSessionStats([
+      stats('ses_1', 'p1', START, ['a.ts'], 1),
+      // The Sunday closing the same week
+      stats(
+        'ses_2',
+        'p1',
+        new Date(2024, 0, 7, 23).getTime(),
+        ['a.ts', 'b.ts'],
+        2,
+      ),
+      stats('ses_3', 'p2', START, ['c.ts'], 4),
+      stats('ses_4', 'p1', new Date(2024, 0, 8, 9).getTime(), [], 8),
+      stats('ses_5', 'p1', null, ['d.ts'], 16),
+    ]);
+    expect(
+      rows.map((row) => [
+        row.week,
+        row.projectId,
+        row.sessions,
+        row.filesTouched,
+        row.cost,
+      ]),
+    ).toEqual([
+      ['2024-01-08', 'p1', 1, 0, 8],
+      ['2024-01-01', 'p1', 2, 2, 3],
+      ['2024-01-01', 'p2', 1, 1, 4],
+    ]);
+    expect(rows[1].messages).toBe(2);
+    expect(rows[1].tokens.input).toBe(2);
+  });
+});
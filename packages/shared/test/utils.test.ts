@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { isInDirectory, parseTime } from '../utils';
+
+describe('parseTime', () => {
+  const now = Date.UTC(2024, 5, 15, 12, 0, 0);
+
+  it('resolves a bare date to the start or end of that local day', () => {
+    const start = new Date(2024, 2, 9).getTime();
+    expect(parseTime('2024-03-09')).toBe(start);
+    expect(parseTime('2024-03-09', true)).toBe(start + 24 * 60 * 60 * 1000 - 1);
+  });
+
+  it('parses ISO times', () => {
+    expect(parseTime('2024-03-09T10:30:00Z')).toBe(
+      Date.UTC(2024, 2, 9, 10, 30),
+    );
+    expect(parseTime('2024-03-09T10:30:00+02:00', true)).toBe(
+      Date.UTC(2024, 2, 9, 8, 30),
+    );
+  });
+
+  it('counts relative spans back from now', () => {
+    expect(parseTime('30m', false, now)).toBe(now - 30 * 60 * 1000);
+    expect(parseTime('12h', false, now)).toBe(now - 12 * 60 * 60 * 1000);
+    expect(parseTime(' 3d ', false, now)).toBe(now - 3 * 24 * 60 * 60 * 1000);
+    expect(parseTime('2w', true, now)).toBe(now - 14 * 24 * 60 * 60 * 1000);
+  });
+
+  it('returns null for values that are not times', () => {
+    expect(parseTime('')).toBeNull();
+    expect(parseTime('yesterday')).toBeNull();
+    expect(parseTime('3y')).toBeNull();
+  });
+});
+
+describe('isInDirectory', () => {
+  it('accepts the directory itself and paths below it', () => {
+    expect(isInDirectory('/work/app', '/work/app')).toBe(true);
+    expect(isInDirectory('/work/app/src', '/work/app')).toBe(true);
+  });
+  it('rejects siblings that share a prefix', () => {
+    expect(isInDirectory('/work/app-old', '/work/app')).toBe(false);
+    expect(isInDirectory('/work', '/work/app')).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { spawnSync } from 'child_process';
+
+import { HistoryStore, getDefaultHistoryStore } from './store';
+import { SnapshotReadError } from './errors';
+
+export interface Entry {
+  name: string;
+  path: string;
+  stat: fs.Stats;
+}
+
+export function listDirectories(dir: string): Entry[] {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => {
+        const entryPath = path.join(dir, entry.name);
+        return {
+          name: entry.name,
+          path: entryPath,
+          stat: fs.statSync(entryPath),
+        };
+      });
+  } catch {
+    return [];
+  }
+}
+
+export function listFiles(dir: string): Entry[] {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile())
+      .map((entry) => {
+        const entryPath = path.join(dir, entry.name);
+        return {
+          name: entry.name,
+          path: entryPath,
+          stat: fs.statSync(entryPath),
+        };
+      });
+  } catch {
+    return [];
+  }
+}
+
+/** Total size of the files under a directory, not following symlinks. */
+export function getDirectorySize(dir: string): number {
+  let total = 0;
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += getDirectorySize(entryPath);
+    } else if (entry.isFile()) {
+      try {
+        total += fs.lstatSync(entryPath).size;
+      } catch {
+        // Removed while scanning
+      }
+    }
+  }
+  return total;
+}
+
+/** Whether `target` is `directory` itself or a path below it. */
+export function isInDirectory(target: string, directory: string): boolean {
+  const relative = path.relative(directory, target);
+  return (
+    relative === '' ||
+    (!relative.startsWith('..') && !path.isAbsolute(relative))
+  );
+}
+
+export function sortByMtimeDesc(entries: Entry[]): Entry[] {
+  return entries.sort((a, b) => b.stat.mtimeMs - a.stat.mtimeMs);
+}
+
+export function safeReadJson(filePath: string): Record<string, unknown> | null {
+  try {
+    const raw = fs.readFileSync(filePath, 'utf8');
+    return JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+export function formatDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a time given as a date (`YYYY-MM-DD`, local time), an ISO time, or a
+ * span before `now` such as `30m`, `12h`, `3d` or `2w`.
+ *
+ * @param value - The time to parse
+ * @param endOfDay - Resolve a bare date to its last millisecond instead of
+ *   its first, for inclusive upper bounds
+ * @param now - Reference time for relative spans (ms since epoch)
+ * @returns Milliseconds since epoch, or null if the value is not a time
+ */
+export function parseTime(
+  value: string,
+  endOfDay = false,
+  now = Date.now(),
+): number | null {
+  const relative = /^(\d+)([mhdw])$/.exec(value.trim());
+  if (relative) {
+    return now - Number(relative[1]) * RELATIVE_UNITS_MS[relative[2]];
+  }
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (day) {
+    const start = new Date(
+      Number(day[1]),
+      Number(day[2]) - 1,
+      Number(day[3]),
+    ).getTime();
+    return endOfDay ? start + RELATIVE_UNITS_MS.d - 1 : start;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+export function formatTimestamp(timestamp: unknown): string {
+  const numeric = Number(timestamp);
+  if (!Number.isFinite(numeric)) {
+    return '(unknown)';
+  }
+  return formatDate(new Date(numeric));
+}
+
+export function runGit(
+  args: string[],
+  cwd?: string,
+): { status: number; stdout: string; stderr: string } {
+  const result = spawnSync('git', args, {
+    encoding: 'utf8',
+    cwd,
+  });
+  return {
+    status: result.status ?? 1,
+    stdout: result.stdout ?? '',
+    stderr: result.stderr ?? '',
+  };
+}
+
+/**
+ * Largest blob `readSnapshotFile` reads. Node's default of 1 MiB would fail
+ * on any sizeable file.
+ */
+const SNAPSHOT_FILE_MAX_BYTES = 1024 * 1024 * 1024;
+
+/**
+ * Read a file's content from a snapshot tree, as raw bytes. Returns null if
+ * the file is not in that snapshot.
+ *
+ * @throws SnapshotReadError if the snapshot cannot be read at all, e.g. the
+ *   tree object is missing or git fails
+ */
+export function readSnapshotFile(
+  snapshotDir: string,
+  tree: string,
+  filePath: string,
+): Buffer | null {
+  const result = spawnSync(
+    'git',
+    ['--git-dir', snapshotDir, 'cat-file', 'blob', `${tree}:${filePath}`],
+    { encoding: 'buffer', maxBuffer: SNAPSHOT_FILE_MAX_BYTES },
+  );
+  if (result.error) {
+    throw new SnapshotReadError(
+      `Could not read ${filePath} from snapshot ${tree}: ${result.error.message}`,
+    );
+  }
+  if (result.status === 0) {
+    return result.stdout;
+  }
+
+  // git reports a missing tree the same way as a missing path, so only
+  // trust "not in" once the tree itself is known to be there
+  const stderr = result.stderr.toString('utf8').trim();
+  if (
+    /does not exist in '|exists on disk, but not in '/.test(stderr) &&
+    runGit(['--git-dir', snapshotDir, 'cat-file', '-e', `${tree}^{tree}`])
+      .status === 0
+  ) {
+    return null;
+  }
+  throw new SnapshotReadError(
+    `Could not read ${filePath} from snapshot ${tree}: ${stderr || 'git cat-file failed'}`,
+  );
+}
+
+export function getMessageParts(
+  msgId: string,
+  store: HistoryStore = getDefaultHistoryStore(),
+): Record<string, unknown>[] {
+  const partDir = path.join(store.partRoot, msgId);
+  // Part IDs are time-ordered, so sorting by name keeps them chronological
+  const partFiles = listFiles(partDir)
+    .filter((file) => file.name.endsWith('.json'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const parts: Record<string, unknown>[] = [];
+  for (const file of partFiles) {
+    const data = safeReadJson(file.path);
+    if (data) {
+      parts.push(data);
+    }
+  }
+  return parts;
+}
+
+export function getCreatedTime(
+  data: Record<string, unknown> | null,
+): number | undefined {
+  return data?.time && typeof data.time === 'object'
+    ? (data.time as { created?: number }).created
+    : undefined;
+}